@@ -1,26 +1,135 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import DropZone from './components/DropZone';
 import ControlPanel from './components/ControlPanel';
 import PreviewArea from './components/PreviewArea';
-import { ProcessorSettings, ImageDimensions } from './types';
-import { Layers, Sparkles } from 'lucide-react';
-
-const DEFAULT_SETTINGS: ProcessorSettings = {
-  tileSize: 40,
-  horizontalShift: 20,
-  verticalShift: 20,
-  scatterIntensity: 0,
-  opacity: 100,
-  pattern: 'plain',
-  seed: 123
-};
+import TimelinePanel from './components/TimelinePanel';
+import PresetPanel from './components/PresetPanel';
+import InterlacePanel from './components/InterlacePanel';
+import TexturePanel from './components/TexturePanel';
+import EmbeddedSettingsNotice from './components/EmbeddedSettingsNotice';
+import BatchPanel from './components/BatchPanel';
+import ChoreographyPanel from './components/ChoreographyPanel';
+import WeaveStackPanel from './components/WeaveStackPanel';
+import {
+  ProcessorSettings,
+  ImageDimensions,
+  ProcessorMode,
+  WeaveDraft,
+  TimelineSequence,
+  SettingsPreset,
+  InterlaceSettings,
+  EmbeddedSettings,
+  BatchItem,
+  TextureSettings,
+  TileSwaps,
+  ChoreographySettings,
+} from './types';
+import { loadCustomDrafts, saveCustomDrafts } from './utils/drafts';
+import {
+  DEFAULT_SETTINGS,
+  decodeSettingsHash,
+  encodeSettingsHash,
+  getSizedDefaults,
+  loadPresetLibrary,
+  readEmbeddedSettings,
+  savePresetLibrary,
+} from './utils/presets';
+import { createTimeline, sampleTimeline } from './utils/timeline';
+import { DEFAULT_INTERLACE_SETTINGS } from './utils/interlace';
+import { loadBatchItem } from './utils/batch';
+import { DEFAULT_TEXTURE_SETTINGS, getTextureSize } from './utils/texture';
+import { getPreviewGrid } from './utils/fullResolution';
+import { DEFAULT_CHOREOGRAPHY } from './utils/choreography';
+import { Layers, Sparkles, Shuffle, Undo2, Combine } from 'lucide-react';
 
 const App: React.FC = () => {
   const [sourceImage, setSourceImage] = useState<string | null>(null);
-  const [settings, setSettings] = useState<ProcessorSettings>(DEFAULT_SETTINGS);
+  const [settings, setSettings] = useState<ProcessorSettings>(
+    () => decodeSettingsHash(window.location.hash) ?? DEFAULT_SETTINGS
+  );
   const [dimensions, setDimensions] = useState<ImageDimensions | null>(null);
+  const [mode, setMode] = useState<ProcessorMode>('weave');
+  const [customDrafts, setCustomDrafts] = useState<WeaveDraft[]>(loadCustomDrafts);
+  const [presets, setPresets] = useState<SettingsPreset[]>(loadPresetLibrary);
+  const [weftImage, setWeftImage] = useState<string | null>(null);
+  const [interlace, setInterlace] = useState<InterlaceSettings>(DEFAULT_INTERLACE_SETTINGS);
+  const [texture, setTexture] = useState<TextureSettings>(DEFAULT_TEXTURE_SETTINGS);
+  // Tiles swapped by hand in the inspector. Kept apart from `settings` so presets,
+  // links and the timeline never carry them; earlier values back the undo button.
+  const [swaps, setSwaps] = useState<TileSwaps | null>(null);
+  const [swapHistory, setSwapHistory] = useState<(TileSwaps | null)[]>([]);
+  const [swapWarning, setSwapWarning] = useState<string | null>(null);
+  const [choreography, setChoreography] = useState<ChoreographySettings>(DEFAULT_CHOREOGRAPHY);
+  // Bumped by the Play button; the preview replays on every change
+  const [choreographyRun, setChoreographyRun] = useState(0);
+  // Settings found inside a dropped PNG, waiting for the user to restore or ignore them
+  const [embedded, setEmbedded] = useState<EmbeddedSettings | null>(null);
+  // Batch mode: several images sharing the settings, instead of `sourceImage`
+  const [batch, setBatch] = useState<BatchItem[] | null>(null);
+  const [batchLoading, setBatchLoading] = useState(0);
+  const [batchRelative, setBatchRelative] = useState(true);
+  const batchRunRef = useRef(0);
+  // Settings that arrived through a shared link win over the size-based defaults
+  const fromLinkRef = useRef(decodeSettingsHash(window.location.hash) !== null);
+
+  const [timeline, setTimeline] = useState<TimelineSequence>(createTimeline);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+
+  const timelineSample = useMemo(
+    () => (playhead === null ? null : sampleTimeline(timeline, playhead)),
+    [timeline, playhead]
+  );
+
+  // Keep the draft library in localStorage
+  useEffect(() => {
+    saveCustomDrafts(customDrafts);
+  }, [customDrafts]);
+
+  useEffect(() => {
+    savePresetLibrary(presets);
+  }, [presets]);
+
+  // Mirror the settings into the URL hash (debounced, so dragging a slider
+  // doesn't flood the history API)
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const hash = encodeSettingsHash(settings);
+      if (hash !== window.location.hash) {
+        window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash}`);
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [settings]);
+
+  // Follow links pasted into the address bar of an open tab
+  useEffect(() => {
+    const handleHashChange = () => {
+      const linked = decodeSettingsHash(window.location.hash);
+      if (linked) setSettings(linked);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const clearSwaps = () => {
+    setSwaps(null);
+    setSwapHistory([]);
+    setSwapWarning(null);
+  };
+
+  // Restored settings bring back the swaps they were woven with
+  const restoreSettings = ({ swaps: restored, ...rest }: ProcessorSettings) => {
+    setSettings(rest);
+    setSwaps(restored ?? null);
+    setSwapHistory([]);
+    setSwapWarning(null);
+  };
 
   const handleImageSelect = useCallback((file: File) => {
+    setEmbedded(null);
+    clearSwaps();
+    readEmbeddedSettings(file).then(setEmbedded, () => setEmbedded(null));
+
     const reader = new FileReader();
     reader.onload = (e) => {
       if (e.target?.result) {
@@ -32,23 +141,107 @@ const App: React.FC = () => {
         img.src = src;
         img.onload = () => {
             setDimensions({ width: img.width, height: img.height });
+            // A woven output must be restored with the exact settings that made it,
+            // so keep whatever the user has dialled in
+            if (mode === 'unweave') return;
+            if (mode === 'interlace') {
+              const strip = Math.max(2, Math.floor(Math.min(img.width, img.height) / 16));
+              setInterlace((prev) => ({ ...prev, warpWidth: strip, weftWidth: strip }));
+              return;
+            }
+            if (fromLinkRef.current) {
+              fromLinkRef.current = false;
+              return;
+            }
             // Set intelligent defaults based on image size
-            setSettings({
-                ...DEFAULT_SETTINGS,
-                tileSize: Math.floor(Math.min(img.width, img.height) / 10),
-                horizontalShift: Math.floor(img.width / 20),
-                verticalShift: Math.floor(img.height / 20)
-            });
+            setSettings(getSizedDefaults(img.width, img.height));
         };
       }
     };
     reader.readAsDataURL(file);
+  }, [mode]);
+
+  // Decodes the files one at a time, so a big folder never holds every full-size image at once
+  const handleBatchSelect = useCallback(async (files: File[]) => {
+    const run = ++batchRunRef.current;
+    setBatch([]);
+    setBatchLoading(files.length);
+    let first = true;
+    for (const file of files) {
+      const item = await loadBatchItem(file);
+      if (run !== batchRunRef.current) return;
+      setBatch((prev) => (prev ? [...prev, item] : prev));
+      setBatchLoading((count) => count - 1);
+      // The first decodable image sets the size-based defaults, as a single image would
+      if (first && item.thumbnail) {
+        first = false;
+        if (mode === 'weave' && !fromLinkRef.current) setSettings(getSizedDefaults(item.width, item.height));
+        fromLinkRef.current = false;
+      }
+    }
+  }, [mode]);
+
+  // The second image of interlace mode; its strips become the weft
+  const handleWeftSelect = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      if (e.target?.result) setWeftImage(e.target.result as string);
+    };
+    reader.readAsDataURL(file);
   }, []);
 
+  // Texture mode weaves a resized source, so the controls work in its pixels
+  const textureActive = mode === 'weave' && !batch && texture.enabled;
+  const tileDimensions =
+    dimensions && textureActive ? getTextureSize(dimensions.width, dimensions.height, texture) : dimensions;
+
+  const previewGrid = tileDimensions && getPreviewGrid(tileDimensions.width, tileDimensions.height, settings);
+
+  // Swaps name cells of one grid; once the grid changes they would land on other tiles
+  useEffect(() => {
+    if (!swaps || !previewGrid || (previewGrid.cols === swaps.cols && previewGrid.rows === swaps.rows)) return;
+    const count = swaps.pairs.length;
+    setSwaps(null);
+    setSwapHistory([]);
+    setSwapWarning(
+      `${count} manual swap${count === 1 ? ' was' : 's were'} cleared because the tile grid changed from ` +
+        `${swaps.cols}x${swaps.rows} to ${previewGrid.cols}x${previewGrid.rows}`
+    );
+  }, [swaps, previewGrid?.cols, previewGrid?.rows]);
+
+  const effectiveSettings = useMemo(() => ({ ...settings, swaps: swaps ?? undefined }), [settings, swaps]);
+
+  const inspector = {
+    swaps,
+    onSwap: (a: number, b: number, cols: number, rows: number) => {
+      const base = swaps && swaps.cols === cols && swaps.rows === rows ? swaps.pairs : [];
+      setSwapHistory((prev) => [...prev, swaps]);
+      setSwaps({ cols, rows, pairs: [...base, [a, b]] });
+      setSwapWarning(null);
+    },
+    onUndo: () => {
+      setSwaps(swapHistory[swapHistory.length - 1] ?? null);
+      setSwapHistory((prev) => prev.slice(0, -1));
+    },
+    canUndo: swapHistory.length > 0,
+    onClear: () => {
+      setSwapHistory((prev) => [...prev, swaps]);
+      setSwaps(null);
+    },
+  };
+
   const handleReset = () => {
+    batchRunRef.current++;
+    batch?.forEach((item) => item.thumbnail?.close());
+    setBatch(null);
+    setBatchLoading(0);
     setSourceImage(null);
+    setWeftImage(null);
     setDimensions(null);
     setSettings(DEFAULT_SETTINGS);
+    setPlayhead(null);
+    setEmbedded(null);
+    clearSwaps();
   };
 
   return (
@@ -77,7 +270,7 @@ const App: React.FC = () => {
 
       {/* Main Content */}
       <main className="flex-1 w-full max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8 lg:py-8 flex flex-col">
-        {!sourceImage ? (
+        {!sourceImage && !batch ? (
           <div className="max-w-2xl mx-auto my-auto animate-in fade-in zoom-in duration-500">
             <div className="text-center mb-10">
               <h2 className="text-4xl font-bold mb-4 tracking-tight">Deconstruct. Shift. Rebuild.</h2>
@@ -85,17 +278,103 @@ const App: React.FC = () => {
                 Transform your photos into woven digital tapestries using non-destructive pixel rearrangement.
               </p>
             </div>
-            <DropZone onImageSelect={handleImageSelect} />
+            <div className="flex justify-center gap-2 mb-4">
+              {([
+                { id: 'weave', label: 'Weave a photo', Icon: Shuffle },
+                { id: 'unweave', label: 'Unweave an output', Icon: Undo2 },
+                { id: 'interlace', label: 'Interlace two photos', Icon: Combine },
+              ] as const).map(({ id, label, Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setMode(id)}
+                  className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border transition-all ${
+                    mode === id
+                      ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300'
+                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+            <DropZone
+              onImageSelect={handleImageSelect}
+              mode={mode}
+              onSecondImageSelect={mode === 'interlace' ? handleWeftSelect : undefined}
+              onBatchSelect={mode === 'interlace' ? undefined : handleBatchSelect}
+            />
           </div>
         ) : (
           <div className="flex flex-col lg:flex-row gap-8 items-start h-full animate-in slide-in-from-bottom-4 duration-500">
             {/* Left: Controls */}
             <div className="w-full lg:w-80 xl:w-96 shrink-0 lg:sticky lg:top-24 space-y-6">
+              {embedded && (
+                <EmbeddedSettingsNotice
+                  embedded={embedded}
+                  mode={mode}
+                  onRestore={() => {
+                    restoreSettings(embedded.settings);
+                    setEmbedded(null);
+                  }}
+                  onUnweave={() => {
+                    setMode('unweave');
+                    restoreSettings(embedded.settings);
+                    setEmbedded(null);
+                  }}
+                  onDismiss={() => setEmbedded(null)}
+                />
+              )}
+
               <ControlPanel 
                 settings={settings} 
                 setSettings={setSettings} 
                 disabled={false}
-                imageDimensions={dimensions}
+                imageDimensions={batch ? batch.find((item) => item.thumbnail) ?? null : tileDimensions}
+                mode={mode}
+                customDrafts={customDrafts}
+                setCustomDrafts={setCustomDrafts}
+              />
+
+              {mode !== 'interlace' && (
+                <WeaveStackPanel settings={settings} setSettings={setSettings} customDrafts={customDrafts} />
+              )}
+
+              {mode === 'interlace' && !batch && (
+                <InterlacePanel
+                  interlace={interlace}
+                  setInterlace={setInterlace}
+                  weftSrc={weftImage}
+                  onWeftSelect={handleWeftSelect}
+                  onWeftRemove={() => setWeftImage(null)}
+                />
+              )}
+
+              {mode === 'weave' && !batch && (
+                <TexturePanel texture={texture} setTexture={setTexture} imageDimensions={dimensions} />
+              )}
+
+              {mode === 'weave' && !batch && (
+                <ChoreographyPanel
+                  choreography={choreography}
+                  setChoreography={setChoreography}
+                  tileCount={previewGrid && previewGrid.cols * previewGrid.rows}
+                  unavailable={
+                    textureActive
+                      ? 'Not available while the texture repeat is on'
+                      : playhead !== null
+                        ? 'Stop the timeline to play the choreography'
+                        : undefined
+                  }
+                  onPlay={() => setChoreographyRun((run) => run + 1)}
+                />
+              )}
+
+              <PresetPanel
+                settings={settings}
+                setSettings={setSettings}
+                presets={presets}
+                setPresets={setPresets}
               />
               
               <div className="hidden lg:block p-5 rounded-xl bg-slate-900/50 border border-slate-800 text-sm text-slate-400 backdrop-blur-sm">
@@ -121,12 +400,51 @@ const App: React.FC = () => {
             </div>
 
             {/* Right: Preview */}
-            <div className="flex-1 w-full min-w-0 h-[calc(100vh-10rem)] min-h-[500px]">
-              <PreviewArea 
-                originalSrc={sourceImage}
-                settings={settings}
-                onReset={handleReset}
-              />
+            <div className="flex-1 w-full min-w-0 flex flex-col gap-6">
+              {batch ? (
+                <BatchPanel
+                  items={batch}
+                  setItems={(update) => setBatch((prev) => (prev ? update(prev) : prev))}
+                  loading={batchLoading}
+                  settings={settings}
+                  mode={mode}
+                  relative={batchRelative}
+                  setRelative={setBatchRelative}
+                  onReset={handleReset}
+                />
+              ) : (
+                <>
+                  <div className="h-[calc(100vh-10rem)] min-h-[500px]">
+                    <PreviewArea 
+                      originalSrc={sourceImage}
+                      settings={mode === 'interlace' ? settings : effectiveSettings}
+                      mode={mode}
+                      timelineSample={timelineSample}
+                      timeline={timeline}
+                      weftSrc={weftImage}
+                      interlace={interlace}
+                      texture={textureActive ? texture : undefined}
+                      choreography={mode === 'weave' && !textureActive ? choreography : undefined}
+                      choreographyRun={choreographyRun}
+                      inspector={mode === 'weave' && !textureActive ? inspector : undefined}
+                      swapWarning={swapWarning}
+                      onDismissSwapWarning={() => setSwapWarning(null)}
+                      onReset={handleReset}
+                    />
+                  </div>
+                </>
+              )}
+
+              {mode === 'weave' && !batch && (
+                <TimelinePanel
+                  sequence={timeline}
+                  setSequence={setTimeline}
+                  playhead={playhead}
+                  setPlayhead={setPlayhead}
+                  settings={settings}
+                  onLoadSettings={setSettings}
+                />
+              )}
             </div>
           </div>
         )}
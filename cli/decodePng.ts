@@ -0,0 +1,188 @@
+import { inflateSync } from 'node:zlib';
+import { PixelBuffer } from '../types';
+import { PNG_SIGNATURE } from '../utils/png';
+
+// A complete PNG decoder for the command line, where there's no canvas to do it.
+// Every colour type, bit depth, filter and Adam7 interlacing comes out as 8-bit RGBA,
+// matching what a browser's getImageData returns for opaque images without a colour profile.
+
+interface Header {
+  width: number;
+  height: number;
+  depth: number;
+  colorType: number;
+  interlaced: boolean;
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const VALID_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16],
+};
+
+// Adam7 passes: [x start, y start, x step, y step]
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+/** Undoes the per-row filters, returning the rows without their filter bytes. */
+const unfilter = (data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number) => {
+  const out = new Uint8Array(rowBytes * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset + y * (rowBytes + 1)];
+    const src = offset + y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    const prev = row - rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const a = i >= bpp ? out[row + i - bpp] : 0;
+      const b = y > 0 ? out[prev + i] : 0;
+      const c = y > 0 && i >= bpp ? out[prev + i - bpp] : 0;
+      let value = data[src + i];
+      if (filter === 1) value += a;
+      else if (filter === 2) value += b;
+      else if (filter === 3) value += (a + b) >> 1;
+      else if (filter === 4) value += paeth(a, b, c);
+      else if (filter !== 0) throw new Error(`Unknown PNG filter type ${filter}`);
+      out[row + i] = value;
+    }
+  }
+  return out;
+};
+
+/** Reads sample `index` of a row at the file's own bit depth. */
+const sampleReader = (depth: number) => {
+  if (depth === 16) {
+    return (rows: Uint8Array, row: number, index: number) => (rows[row + index * 2] << 8) | rows[row + index * 2 + 1];
+  }
+  if (depth === 8) return (rows: Uint8Array, row: number, index: number) => rows[row + index];
+  const mask = (1 << depth) - 1;
+  const perByte = 8 / depth;
+  return (rows: Uint8Array, row: number, index: number) =>
+    (rows[row + Math.floor(index / perByte)] >> (8 - depth * ((index % perByte) + 1))) & mask;
+};
+
+/** Decodes a PNG file into RGBA pixels. Throws an Error with a readable message on bad input. */
+export const decodePng = (bytes: Uint8Array): PixelBuffer => {
+  if (bytes.length < 8 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) throw new Error('Not a PNG file');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const idat: Uint8Array[] = [];
+  let header: Header | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      header = {
+        width: view.getUint32(offset + 8),
+        height: view.getUint32(offset + 12),
+        depth: data[8],
+        colorType: data[9],
+        interlaced: data[12] === 1,
+      };
+    } else if (type === 'PLTE') palette = data;
+    else if (type === 'tRNS') transparency = data;
+    else if (type === 'IDAT') idat.push(data);
+    else if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+
+  if (!header) throw new Error('The PNG has no header');
+  const { width, height, depth, colorType, interlaced } = header;
+  if (!VALID_DEPTHS[colorType]?.includes(depth)) {
+    throw new Error(`Unsupported PNG format (colour type ${colorType}, ${depth}-bit)`);
+  }
+  if (colorType === 3 && !palette) throw new Error('The PNG has no palette');
+  if (width === 0 || height === 0) throw new Error('The PNG is empty');
+
+  let raw: Uint8Array;
+  try {
+    raw = inflateSync(Buffer.concat(idat));
+  } catch {
+    throw new Error('The PNG image data is corrupt');
+  }
+
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * depth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const sample = sampleReader(depth);
+  // 16-bit keeps its high byte; low greyscale depths spread over 0-255
+  const to8 = depth === 16 ? (v: number) => v >> 8 : depth < 8 ? (v: number) => (v * 255) / ((1 << depth) - 1) : (v: number) => v;
+  const read = (rows: Uint8Array, row: number, index: number) => to8(sample(rows, row, index));
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  // tRNS for greyscale and truecolour names one colour, compared at the file's own bit depth
+  const key = transparency && colorType !== 3 ? new DataView(transparency.buffer, transparency.byteOffset) : null;
+  const isKey = (rows: Uint8Array, row: number, s: number, count: number) => {
+    if (!key) return false;
+    for (let c = 0; c < count; c++) if (sample(rows, row, s + c) !== key.getUint16(c * 2)) return false;
+    return true;
+  };
+
+  const writePixel = (rows: Uint8Array, row: number, x: number, target: number) => {
+    const s = x * channels;
+    if (colorType === 3) {
+      const index = sample(rows, row, x);
+      if (index * 3 + 2 >= palette!.length) throw new Error('A PNG palette index is out of range');
+      out[target] = palette![index * 3];
+      out[target + 1] = palette![index * 3 + 1];
+      out[target + 2] = palette![index * 3 + 2];
+      out[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+    } else if (colorType === 0 || colorType === 4) {
+      const grey = read(rows, row, s);
+      out[target] = out[target + 1] = out[target + 2] = grey;
+      if (colorType === 4) out[target + 3] = read(rows, row, s + 1);
+      else out[target + 3] = isKey(rows, row, s, 1) ? 0 : 255;
+    } else {
+      out[target] = read(rows, row, s);
+      out[target + 1] = read(rows, row, s + 1);
+      out[target + 2] = read(rows, row, s + 2);
+      if (colorType === 6) out[target + 3] = read(rows, row, s + 3);
+      else out[target + 3] = isKey(rows, row, s, 3) ? 0 : 255;
+    }
+  };
+
+  const passes = interlaced ? ADAM7 : [[0, 0, 1, 1]];
+  let position = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    // Empty passes have no scanlines, not even filter bytes
+    if (passWidth <= 0 || passHeight <= 0) continue;
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    if (position + (rowBytes + 1) * passHeight > raw.length) throw new Error('The PNG image data is truncated');
+    const rows = unfilter(raw, position, rowBytes, passHeight, bpp);
+    position += (rowBytes + 1) * passHeight;
+
+    for (let py = 0; py < passHeight; py++) {
+      const y = y0 + py * dy;
+      for (let px = 0; px < passWidth; px++) {
+        writePixel(rows, py * rowBytes, px, (y * width + x0 + px * dx) * 4);
+      }
+    }
+  }
+
+  return { data: out, width, height };
+};
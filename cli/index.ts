@@ -0,0 +1,263 @@
+import { mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { PixelBuffer, ProcessorMode, ProcessorSettings } from '../types';
+import { applyComposite, BLEND_MODES } from '../utils/composite';
+import { createPngStream, readPngText } from '../utils/png';
+import {
+  DEFAULT_SETTINGS,
+  METADATA_KEYWORD,
+  parseImageMetadata,
+  parsePreset,
+  serializeImageMetadata,
+  SETTINGS_LIMITS,
+  validateSettings,
+} from '../utils/presets';
+import { TILE_SHAPES } from '../utils/tileLayout';
+import { withTileOrder } from '../utils/tileSort';
+import { unweavePixels, weavePixels } from '../utils/weaveCore';
+import { decodePng } from './decodePng';
+
+// mosaic-weaver: the weave without the browser. Decodes PNGs itself, weaves them at
+// full size with the settings as given, and writes them through the app's PNG encoder.
+// Up to the app's preview size that matches its "Export Image" byte for byte. Larger
+// images aren't previewed on a proxy here, so their tiles are the full-size ones
+// rather than the app's proxy blocks, and manual swaps recorded on the app's proxy
+// grid don't apply.
+
+const USAGE = `Usage: mosaic-weaver <input...> [options]
+
+Inputs are PNG files, directories (every .png inside) or quoted globs ("shots/**/*.png").
+
+Options:
+  -o, --output <path>   Output file for a single input, otherwise a directory
+                        (default: next to each input, as <name>-<mode>.png)
+  -p, --preset <file>   Settings from a preset JSON exported by the app
+      --pattern <name>  plain | twill | satin | basket
+      --tile <px>       Tile size (the width, when a height is given)
+      --tile-height <px>
+                        Tile height (default: a regular tile of the shape)
+      --shape <name>    rect | brick | hex | triangle
+      --hshift <px>     Horizontal shift
+      --vshift <px>     Vertical shift
+      --scatter <0-100> Scatter intensity
+      --seed <n>        Scatter seed
+      --opacity <0-100> Woven layer opacity
+      --blend <mode>    normal | multiply | screen | overlay | difference
+  -u, --unweave         Restore woven images, using the settings they carry when present
+  -h, --help            Show this help
+
+Flags override the preset, which overrides settings embedded in the input.`;
+
+// Flag name -> settings key; values are validated together afterwards
+const SETTING_FLAGS: [string, keyof ProcessorSettings][] = [
+  ['pattern', 'pattern'],
+  ['tile', 'tileSize'],
+  ['tile-height', 'tileHeight'],
+  ['shape', 'tileShape'],
+  ['hshift', 'horizontalShift'],
+  ['vshift', 'verticalShift'],
+  ['scatter', 'scatterIntensity'],
+  ['seed', 'seed'],
+  ['opacity', 'opacity'],
+  ['blend', 'blendMode'],
+];
+
+// Settings that take a name rather than a number; a custom draft only comes with a preset
+const SETTING_CHOICES: Partial<Record<keyof ProcessorSettings, readonly string[]>> = {
+  pattern: ['plain', 'twill', 'satin', 'basket'],
+  tileShape: TILE_SHAPES,
+  blendMode: BLEND_MODES,
+};
+
+class UsageError extends Error {}
+
+// Rows handed to the PNG encoder at a time
+const PNG_ROWS = 1024;
+
+const GLOB_CHARS = /[*?[]/;
+
+/** Matches a whole relative path: `**` spans directories, `*` and `?` stay within one. */
+const globToRegExp = (pattern: string) => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no directory at all
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (c === '*') source += '[^/]*';
+    else if (c === '?') source += '[^/]';
+    else if (c === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end < 0) source += '\\[';
+      else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else source += c.replace(/[.+^${}()|\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(full) : entry.isFile() ? [full] : [];
+  });
+
+const isPng = (file: string) => file.toLowerCase().endsWith('.png');
+
+/** Expands one command-line input into the PNG files it names, sorted. */
+const expandInput = (input: string): string[] => {
+  if (!GLOB_CHARS.test(input)) {
+    const stat = statSync(input, { throwIfNoEntry: false });
+    if (!stat) throw new UsageError(`No such file or directory: ${input}`);
+    if (!stat.isDirectory()) return [input];
+    return readdirSync(input)
+      .filter(isPng)
+      .map((name) => path.join(input, name))
+      .sort();
+  }
+
+  // Walk from the deepest directory without wildcards, matching the rest of the pattern
+  const parts = input.split(/[\\/]/);
+  const fixed = parts.findIndex((part) => GLOB_CHARS.test(part));
+  const base = parts.slice(0, fixed).join('/') || '.';
+  const matcher = globToRegExp(parts.slice(fixed).join('/'));
+  if (!statSync(base, { throwIfNoEntry: false })?.isDirectory()) return [];
+  return walk(base)
+    .filter((file) => isPng(file) && matcher.test(path.relative(base, file).split(path.sep).join('/')))
+    .sort();
+};
+
+const readSettingFlags = (values: Record<string, unknown>) => {
+  const flags: Record<string, unknown> = {};
+  for (const [flag, key] of SETTING_FLAGS) {
+    if (values[flag] === undefined) continue;
+    const value = values[flag] as string;
+    const choices = SETTING_CHOICES[key];
+    if (choices && !choices.includes(value)) {
+      throw new UsageError(`--${flag} must be one of ${choices.join(' | ')}, got "${value}"`);
+    }
+    if (!choices) {
+      const n = value.trim() === '' ? NaN : Number(value);
+      if (!Number.isFinite(n)) throw new UsageError(`--${flag} needs a number, got "${value}"`);
+      const [min, max] = SETTINGS_LIMITS[key as keyof typeof SETTINGS_LIMITS];
+      if (n < min || n > max) throw new UsageError(`--${flag} must be from ${min} to ${max}, got "${value}"`);
+    }
+    flags[key] = value;
+  }
+  return flags;
+};
+
+/** Weaves or unweaves `pixels` at full size, sorting tiles on the image itself. */
+const render = (pixels: PixelBuffer, mode: ProcessorMode, settings: ProcessorSettings) => {
+  if (mode === 'unweave') return { image: unweavePixels(pixels, settings), settings };
+  const sorted = withTileOrder(settings, pixels);
+  return { image: applyComposite(weavePixels(pixels, sorted), pixels, sorted), settings: sorted };
+};
+
+/** The PNG with the settings embedded, so the file can be unwoven later. */
+const encodePng = (image: PixelBuffer, mode: ProcessorMode, settings: ProcessorSettings) => {
+  const { data, width, height } = image;
+  const png = createPngStream(width, height, { [METADATA_KEYWORD]: serializeImageMetadata(settings, mode) });
+  for (let top = 0; top < height; top += PNG_ROWS) {
+    const rows = Math.min(PNG_ROWS, height - top);
+    png.addRows({ data: data.subarray(top * width * 4, (top + rows) * width * 4), width, height: rows });
+  }
+  return png.finish();
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1 << 20 ? `${(bytes / (1 << 20)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const describe = (s: ProcessorSettings) =>
+  `${s.pattern} ${s.tileShape ?? 'rect'} tile ${s.tileSize}${s.tileHeight ? `x${s.tileHeight}` : ''}px ` +
+  `shift ${s.horizontalShift}/${s.verticalShift} scatter ${s.scatterIntensity}% seed ${s.seed}`;
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      preset: { type: 'string', short: 'p' },
+      pattern: { type: 'string' },
+      tile: { type: 'string' },
+      'tile-height': { type: 'string' },
+      shape: { type: 'string' },
+      hshift: { type: 'string' },
+      vshift: { type: 'string' },
+      scatter: { type: 'string' },
+      seed: { type: 'string' },
+      opacity: { type: 'string' },
+      blend: { type: 'string' },
+      unweave: { type: 'boolean', short: 'u' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError('No input files given');
+
+  const mode: ProcessorMode = values.unweave ? 'unweave' : 'weave';
+  const flags = readSettingFlags(values);
+  const preset = values.preset ? parsePreset(readFileSync(values.preset, 'utf8')).settings : null;
+
+  const inputs = [...new Set(positionals.flatMap(expandInput))];
+  if (inputs.length === 0) throw new UsageError('No PNG files matched');
+
+  // One input may be written to a file; several always go into a directory
+  const output = values.output;
+  const outputIsFile = output !== undefined && inputs.length === 1 && isPng(output);
+  if (output !== undefined && !outputIsFile) mkdirSync(output, { recursive: true });
+
+  let failures = 0;
+  for (const input of inputs) {
+    const started = performance.now();
+    try {
+      const bytes = new Uint8Array(readFileSync(input));
+      const pixels = decodePng(bytes);
+
+      // Woven exports carry their settings, which is what unweaving them needs
+      const embedded = mode === 'unweave' ? parseImageMetadata(readPngText(bytes)[METADATA_KEYWORD] ?? '') : null;
+      const settings = validateSettings({ ...DEFAULT_SETTINGS, ...embedded?.settings, ...preset, ...flags });
+
+      const result = render(pixels, mode, settings);
+      const blob = await encodePng(result.image, mode, result.settings);
+      const name = `${path.basename(input, path.extname(input))}-${mode}.png`;
+      const target = outputIsFile ? output! : path.join(output ?? path.dirname(input), name);
+      writeFileSync(target, new Uint8Array(await blob.arrayBuffer()));
+
+      const notes = [
+        `${pixels.width}x${pixels.height}`,
+        describe(settings),
+        embedded ? 'embedded settings' : '',
+        formatBytes(blob.size),
+        `${Math.round(performance.now() - started)} ms`,
+      ];
+      console.log(`${input} -> ${target}  ${notes.filter(Boolean).join(', ')}`);
+    } catch (err) {
+      failures++;
+      console.error(`${input}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (inputs.length > 1) console.log(`${inputs.length - failures} of ${inputs.length} images ${mode === 'weave' ? 'woven' : 'unwoven'}`);
+  return failures > 0 ? 1 : 0;
+};
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    const usage = err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    console.error(`mosaic-weaver: ${err instanceof Error ? err.message : String(err)}`);
+    if (usage) console.error('Run mosaic-weaver --help for usage.');
+    process.exitCode = usage ? 2 : 1;
+  }
+);
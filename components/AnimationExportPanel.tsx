@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Film, X, Camera, Download } from 'lucide-react';
+import { ProcessorSettings, TimelineSequence } from '../types';
+import {
+  ANIMATION_EXTENSIONS,
+  AnimationExportOptions,
+  AnimationFormat,
+  AnimationPlayback,
+  exportAnimation,
+  getFrameSamples,
+} from '../utils/animationExport';
+import { readImagePixels, SourceImage } from '../utils/imageProcessing';
+import { untouchedSettings } from '../utils/transition';
+import { isWebmSupported } from '../utils/webmEncoder';
+
+interface AnimationExportPanelProps {
+  image: SourceImage | null;
+  settings: ProcessorSettings;
+  /** Offered as an alternative source once it has at least two keyframes */
+  timeline?: TimelineSequence;
+  onClose: () => void;
+}
+
+const FORMATS: { id: AnimationFormat; label: string; hint: string }[] = [
+  { id: 'gif', label: 'GIF', hint: '256 colours, plays everywhere' },
+  { id: 'apng', label: 'APNG', hint: 'Lossless, every frame pixel-exact' },
+  { id: 'webm', label: 'WebM', hint: 'Small video, lossy compression' },
+];
+
+const PLAYBACK: { id: AnimationPlayback; label: string }[] = [
+  { id: 'loop', label: 'Loop' },
+  { id: 'pingpong', label: 'Ping-pong' },
+  { id: 'once', label: 'Once' },
+];
+
+const optionClass = (active: boolean) =>
+  `flex-1 px-2 py-1.5 text-xs font-medium rounded border transition-colors disabled:opacity-40 ${
+    active
+      ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+  }`;
+
+const AnimationExportPanel: React.FC<AnimationExportPanelProps> = ({ image, settings, timeline, onClose }) => {
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [duration, setDuration] = useState(2);
+  const [fps, setFps] = useState(15);
+  const [playback, setPlayback] = useState<AnimationPlayback>('loop');
+  const [scale, setScale] = useState(0.5);
+  // Optional start point captured from the sliders; otherwise start untouched
+  const [startSettings, setStartSettings] = useState<ProcessorSettings | null>(null);
+  const [useTimeline, setUseTimeline] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any running export when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const webmAvailable = isWebmSupported();
+  const timelineAvailable = (timeline?.keyframes.length ?? 0) >= 2;
+  const options: AnimationExportOptions = {
+    format,
+    duration,
+    fps,
+    playback,
+    scale,
+    from: startSettings ?? untouchedSettings(settings),
+    to: settings,
+    timeline: useTimeline && timelineAvailable ? timeline : undefined,
+  };
+  const frameCount = getFrameSamples(options).length;
+  const outWidth = image ? Math.max(1, Math.round(image.width * scale)) : 0;
+  const outHeight = image ? Math.max(1, Math.round(image.height * scale)) : 0;
+
+  const handleExport = async () => {
+    if (!image) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+
+    try {
+      const source = readImagePixels(image, scale);
+      const blob = await exportAnimation(
+        source,
+        options,
+        (done, total) => setProgress(done / total),
+        controller.signal
+      );
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = `woven-mosaic-${Date.now()}.${ANIMATION_EXTENSIONS[format]}`;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Export failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const busy = progress !== null;
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4">
+      <div className="w-full max-w-sm bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-5 space-y-4 text-sm">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <Film className="w-4 h-4" />
+            <h3 className="font-bold uppercase tracking-wide">Export Animation</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-1.5">
+          <span className="text-xs text-slate-400">Format</span>
+          <div className="flex gap-2">
+            {FORMATS.map((f) => (
+              <button
+                key={f.id}
+                onClick={() => setFormat(f.id)}
+                disabled={busy || (f.id === 'webm' && !webmAvailable)}
+                title={f.id === 'webm' && !webmAvailable ? 'WebCodecs is not available in this browser' : f.hint}
+                className={optionClass(format === f.id)}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-500">{FORMATS.find((f) => f.id === format)?.hint}</p>
+        </div>
+
+        <div className="space-y-1.5">
+          <span className="text-xs text-slate-400">Playback</span>
+          <div className="flex gap-2">
+            {PLAYBACK.map((p) => (
+              <button key={p.id} onClick={() => setPlayback(p.id)} disabled={busy} className={optionClass(playback === p.id)}>
+                {p.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {timelineAvailable && (
+          <div className="space-y-1.5">
+            <span className="text-xs text-slate-400">Source</span>
+            <div className="flex gap-2">
+              <button onClick={() => setUseTimeline(false)} disabled={busy} className={optionClass(!useTimeline)}>
+                Transition
+              </button>
+              <button onClick={() => setUseTimeline(true)} disabled={busy} className={optionClass(useTimeline)}>
+                Timeline ({timeline?.duration}s)
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="space-y-1">
+            <span className="text-xs text-slate-400">Duration (s)</span>
+            <input
+              type="number"
+              min="0.5"
+              max="20"
+              step="0.5"
+              value={duration}
+              onChange={(e) => setDuration(Math.max(0.5, Math.min(20, Number(e.target.value) || 0.5)))}
+              disabled={busy || !!options.timeline}
+              className="w-full px-2 py-1 font-mono bg-slate-800 border border-slate-700 rounded text-slate-200"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-slate-400">FPS</span>
+            <select
+              value={fps}
+              onChange={(e) => setFps(Number(e.target.value))}
+              disabled={busy}
+              className="w-full px-2 py-1 font-mono bg-slate-800 border border-slate-700 rounded text-slate-200"
+            >
+              {[10, 12, 15, 20, 25, 30].map((v) => (
+                <option key={v} value={v}>{v}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-slate-400">Scale</span>
+            <select
+              value={scale}
+              onChange={(e) => setScale(Number(e.target.value))}
+              disabled={busy}
+              className="w-full px-2 py-1 font-mono bg-slate-800 border border-slate-700 rounded text-slate-200"
+            >
+              {[0.25, 0.5, 0.75, 1].map((v) => (
+                <option key={v} value={v}>{v * 100}%</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {!options.timeline && (
+          <div className="flex items-center justify-between gap-2 p-2 rounded bg-slate-800/60 border border-slate-700 text-xs">
+            <span className="text-slate-400">
+              From: <span className="text-slate-200">{startSettings ? 'captured settings' : 'untouched image'}</span>
+            </span>
+            <div className="flex gap-1">
+              <button
+                onClick={() => setStartSettings({ ...settings })}
+                disabled={busy}
+                title="Use the current sliders as the start; then change them to set the end"
+                className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+              >
+                <Camera className="w-3 h-3" />
+                Capture
+              </button>
+              {startSettings && (
+                <button
+                  onClick={() => setStartSettings(null)}
+                  disabled={busy}
+                  className="px-2 py-1 rounded text-slate-400 hover:text-white"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <p className="text-[11px] text-slate-500 font-mono">
+          {frameCount} frames · {outWidth}x{outHeight}px
+        </p>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {busy ? (
+          <div className="space-y-2">
+            <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+              <div className="h-full bg-cyan-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full py-2 rounded-md bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel ({Math.round(progress * 100)}%)
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={!image}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-md bg-cyan-600 hover:bg-cyan-500 text-white font-medium disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Render & Download
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnimationExportPanel;
@@ -0,0 +1,299 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Check, Download, Layers, Loader2, Star, X } from 'lucide-react';
+import { BatchItem, ProcessorMode, ProcessorSettings } from '../types';
+import { exportBatch, renderBatchThumbnail, resolveBatchSettings } from '../utils/batch';
+import { loadExportPreferences, IMAGE_FORMATS } from '../utils/fullResolution';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  setItems: (update: (items: BatchItem[]) => BatchItem[]) => void;
+  /** Files still being decoded into items */
+  loading: number;
+  settings: ProcessorSettings;
+  mode: ProcessorMode;
+  relative: boolean;
+  setRelative: (relative: boolean) => void;
+  onReset: () => void;
+}
+
+// The overridable settings, in the order the editor lists them
+const OVERRIDES: { key: keyof ProcessorSettings; label: string }[] = [
+  { key: 'tileSize', label: 'Tile' },
+  { key: 'horizontalShift', label: 'H shift' },
+  { key: 'verticalShift', label: 'V shift' },
+  { key: 'scatterIntensity', label: 'Scatter' },
+  { key: 'seed', label: 'Seed' },
+];
+
+const Thumbnail: React.FC<{ item: BatchItem; settings: ProcessorSettings; mode: ProcessorMode }> = ({
+  item,
+  settings,
+  mode,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Settings arrive freshly resolved on every render; compare them by value
+  const settingsKey = JSON.stringify(settings);
+
+  // Debounced, so dragging a slider doesn't re-weave the whole grid every tick
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const canvas = canvasRef.current;
+      const pixels = renderBatchThumbnail(item, settings, mode);
+      if (!canvas || !pixels) return;
+      canvas.width = pixels.width;
+      canvas.height = pixels.height;
+      canvas.getContext('2d')?.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+    }, 120);
+    return () => clearTimeout(timer);
+  }, [item.thumbnail, settingsKey, mode]);
+
+  if (!item.thumbnail) {
+    return <AlertTriangle className="w-6 h-6 text-red-400" />;
+  }
+  return <canvas ref={canvasRef} className="max-w-full max-h-full object-contain" />;
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  items,
+  setItems,
+  loading,
+  settings,
+  mode,
+  relative,
+  setRelative,
+  onReset,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running export when the batch goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const reference = items.find((item) => item.thumbnail);
+  const settingsFor = (item: BatchItem) => resolveBatchSettings(settings, item, reference, relative, mode);
+  const selected = items.find((item) => item.id === selectedId) ?? null;
+  const busy = progress !== null;
+  const exportable = items.filter((item) => item.thumbnail).length;
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  const setOverride = (key: keyof ProcessorSettings, value: string) => {
+    if (!selected) return;
+    const overrides = { ...selected.overrides };
+    if (value.trim() === '' || !Number.isFinite(Number(value))) delete overrides[key];
+    else Object.assign(overrides, { [key]: Number(value) });
+    updateItem(selected.id, { overrides });
+  };
+
+  const makeReference = (id: string) =>
+    setItems((prev) => {
+      const item = prev.find((entry) => entry.id === id);
+      return item ? [item, ...prev.filter((entry) => entry.id !== id)] : prev;
+    });
+
+  const removeItem = (id: string) => {
+    items.find((item) => item.id === id)?.thumbnail?.close();
+    setItems((prev) => prev.filter((item) => item.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { format, quality } = loadExportPreferences();
+    setSummary(null);
+    setProgress(0);
+    setItems((prev) => prev.map((item) => (item.thumbnail ? { ...item, status: 'ready', error: undefined } : item)));
+
+    try {
+      const result = await exportBatch(
+        items,
+        { mode, format, quality, settingsFor },
+        (id, status, error) => updateItem(id, { status, error }),
+        (done, total) => setProgress(done / total),
+        controller.signal
+      );
+      if (result.done > 0) {
+        const url = URL.createObjectURL(result.zip);
+        const link = document.createElement('a');
+        link.download = `mosaic-weaver-batch-${mode}.zip`;
+        link.href = url;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+      setSummary(
+        `${result.done} of ${result.done + result.failed} images exported as ${IMAGE_FORMATS[format].label}` +
+          (result.failed > 0 ? `; ${result.failed} failed` : '')
+      );
+    } catch (err) {
+      setSummary(controller.signal.aborted ? 'Export cancelled' : err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-6 h-full">
+      <div className="flex justify-between items-center bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+        <div className="flex items-center gap-3">
+          <Layers className="w-4 h-4 text-cyan-400" />
+          <h3 className="font-semibold text-slate-200">
+            Batch · {items.length} image{items.length === 1 ? '' : 's'}
+            {loading > 0 && <span className="ml-2 text-xs font-normal text-slate-400">loading {loading} more…</span>}
+          </h3>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onReset}
+            disabled={busy}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-700 rounded-md transition-colors disabled:opacity-40"
+          >
+            <X className="w-4 h-4" />
+            Reset
+          </button>
+          {busy ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-4 py-2 text-sm font-medium rounded-md bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel ({Math.round(progress * 100)}%)
+            </button>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={exportable === 0 || loading > 0}
+              title="Exports at full resolution in the format chosen under Export Image"
+              className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-medium rounded-md shadow-lg shadow-cyan-900/20 transition-all disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Export Zip
+            </button>
+          )}
+        </div>
+      </div>
+
+      {busy && (
+        <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+          <div className="h-full bg-cyan-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+        </div>
+      )}
+      {summary && <p className="text-xs text-slate-400">{summary}</p>}
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={relative}
+            disabled={busy}
+            onChange={(e) => setRelative(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          Scale tile size and shifts to each image
+        </label>
+        {relative && reference && (
+          <span className="text-slate-500">
+            The controls are set for {reference.file.name} ({reference.width}x{reference.height})
+          </span>
+        )}
+        {mode === 'unweave' && (
+          <span className="text-slate-500">Images carrying their settings are unwoven with those.</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-4 gap-3">
+        {items.map((item) => {
+          const overridden = Object.keys(item.overrides).length > 0;
+          return (
+            <div
+              key={item.id}
+              onClick={() => setSelectedId(item.id === selectedId ? null : item.id)}
+              className={`relative rounded-lg border bg-slate-900 overflow-hidden cursor-pointer transition-colors ${
+                item.id === selectedId ? 'border-cyan-500' : 'border-slate-700 hover:border-slate-500'
+              }`}
+            >
+              <div className="h-32 flex items-center justify-center bg-slate-950">
+                <Thumbnail item={item} settings={settingsFor(item)} mode={mode} />
+              </div>
+              <div className="px-2 py-1.5 space-y-0.5">
+                <p className="text-xs text-slate-300 truncate flex items-center gap-1" title={item.file.name}>
+                  {item === reference && relative && <Star className="w-3 h-3 shrink-0 text-amber-400" />}
+                  {item.file.name}
+                </p>
+                <p className="text-[10px] font-mono text-slate-500">
+                  {item.thumbnail ? `${item.width}x${item.height}` : ''}
+                  {overridden && <span className="ml-1 text-cyan-400">· overrides</span>}
+                </p>
+                {item.error && <p className="text-[10px] text-red-400 truncate" title={item.error}>{item.error}</p>}
+              </div>
+              <div className="absolute top-1 right-1 flex gap-1">
+                {item.status === 'working' && <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />}
+                {item.status === 'done' && <Check className="w-4 h-4 text-green-400" />}
+                {!busy && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeItem(item.id);
+                    }}
+                    className="p-0.5 rounded bg-black/60 text-slate-400 hover:text-white"
+                    title="Remove from the batch"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {selected && selected.thumbnail && (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-3 text-xs">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-slate-300 truncate">{selected.file.name}</span>
+            <div className="flex gap-2">
+              {selected !== reference && (
+                <button
+                  onClick={() => makeReference(selected.id)}
+                  disabled={busy}
+                  className="px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700"
+                  title="Tile size and shifts scale relative to this image"
+                >
+                  Set as reference
+                </button>
+              )}
+              <button
+                onClick={() => updateItem(selected.id, { overrides: {} })}
+                disabled={busy || Object.keys(selected.overrides).length === 0}
+                className="px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+              >
+                Clear overrides
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-5 gap-2">
+            {OVERRIDES.map(({ key, label }) => (
+              <label key={key} className="space-y-1">
+                <span className="text-slate-400">{label}</span>
+                <input
+                  type="number"
+                  value={(selected.overrides[key] as number | undefined) ?? ''}
+                  placeholder={String(settingsFor({ ...selected, overrides: {} })[key])}
+                  disabled={busy}
+                  onChange={(e) => setOverride(key, e.target.value)}
+                  className="w-full px-2 py-1 font-mono bg-slate-800 border border-slate-700 rounded text-slate-200 placeholder:text-slate-600"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-500">Leave a field empty to use the shared value shown.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
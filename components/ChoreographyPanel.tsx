@@ -0,0 +1,156 @@
+import React from 'react';
+import { Play, Route } from 'lucide-react';
+import { ChoreographySettings, Easing, TilePath, TileStagger } from '../types';
+import { MAX_CHOREOGRAPHY_TILES, MAX_SPREAD } from '../utils/choreography';
+
+interface ChoreographyPanelProps {
+  choreography: ChoreographySettings;
+  setChoreography: React.Dispatch<React.SetStateAction<ChoreographySettings>>;
+  /** Tiles in the preview's grid, or null before an image is loaded */
+  tileCount: number | null;
+  /** Why the choreography can't play right now, if it can't */
+  unavailable?: string;
+  onPlay: () => void;
+}
+
+const PATHS: { id: TilePath; label: string; hint: string }[] = [
+  { id: 'straight', label: 'Straight', hint: 'Each tile slides straight to its cell' },
+  { id: 'arc', label: 'Arc', hint: 'Tiles swing round on curved paths, alternating sides' },
+  { id: 'lift', label: 'Lift & drop', hint: 'Tiles rise with a shadow, travel, then settle' },
+];
+
+const STAGGERS: { id: TileStagger; label: string }[] = [
+  { id: 'together', label: 'Together' },
+  { id: 'row', label: 'Rows' },
+  { id: 'diagonal', label: 'Diagonal' },
+  { id: 'distance', label: 'Distance' },
+  { id: 'random', label: 'Random' },
+];
+
+const EASINGS: { label: string; easing: Easing }[] = [
+  { label: 'Linear', easing: { kind: 'linear' } },
+  { label: 'Ease in-out', easing: { kind: 'ease-in-out' } },
+  { label: 'Ease out', easing: { kind: 'cubic-bezier', bezier: [0, 0, 0.58, 1] } },
+  { label: 'Overshoot', easing: { kind: 'cubic-bezier', bezier: [0.34, 1.56, 0.64, 1] } },
+  { label: 'Snap', easing: { kind: 'step' } },
+];
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1.5 text-xs font-medium rounded border transition-colors ${
+    active
+      ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+  }`;
+
+const ChoreographyPanel: React.FC<ChoreographyPanelProps> = ({
+  choreography,
+  setChoreography,
+  tileCount,
+  unavailable,
+  onPlay,
+}) => {
+  const set = <K extends keyof ChoreographySettings>(key: K, value: ChoreographySettings[K]) =>
+    setChoreography((prev) => ({ ...prev, [key]: value }));
+  const easingIndex = EASINGS.findIndex(({ easing }) => JSON.stringify(easing) === JSON.stringify(choreography.easing));
+  const tooMany = tileCount !== null && tileCount > MAX_CHOREOGRAPHY_TILES;
+  const blocked = unavailable ?? (tooMany ? `Over ${MAX_CHOREOGRAPHY_TILES.toLocaleString()} tiles; raise the tile size` : null);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-cyan-400">
+          <Route className="w-4 h-4" />
+          <h3 className="text-sm font-bold tracking-wide uppercase">Choreography</h3>
+        </div>
+        <button
+          onClick={onPlay}
+          disabled={!!blocked || tileCount === null}
+          title={blocked ?? 'Play the cut, shuffle and reassembly in the preview'}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md bg-cyan-600 hover:bg-cyan-500 text-white transition-colors disabled:opacity-40"
+        >
+          <Play className="w-3.5 h-3.5" />
+          Play
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-xs text-slate-400">Path</span>
+        <div className="grid grid-cols-3 gap-2">
+          {PATHS.map((p) => (
+            <button key={p.id} onClick={() => set('path', p.id)} title={p.hint} className={optionClass(choreography.path === p.id)}>
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-xs text-slate-400">Order</span>
+        <div className="flex flex-wrap gap-2">
+          {STAGGERS.map((s) => (
+            <button key={s.id} onClick={() => set('stagger', s.id)} className={optionClass(choreography.stagger === s.id)}>
+              {s.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <div className="flex justify-between text-xs text-slate-400">
+          <span>Duration</span>
+          <span className="font-mono text-cyan-400">{choreography.duration.toFixed(1)}s</span>
+        </div>
+        <input
+          type="range"
+          min={0.5}
+          max={10}
+          step={0.1}
+          value={choreography.duration}
+          onChange={(e) => set('duration', Number(e.target.value))}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <div className="flex justify-between text-xs text-slate-400">
+          <span>Stagger</span>
+          <span className="font-mono text-cyan-400">{Math.round(choreography.spread * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={MAX_SPREAD}
+          step={0.05}
+          value={choreography.spread}
+          disabled={choreography.stagger === 'together'}
+          onChange={(e) => set('spread', Number(e.target.value))}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-40"
+        />
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+        <span>Easing</span>
+        <select
+          value={easingIndex}
+          onChange={(e) => set('easing', EASINGS[Number(e.target.value)].easing)}
+          className="px-2 py-1 text-xs bg-slate-800 border border-slate-700 rounded text-slate-200"
+        >
+          {easingIndex < 0 && <option value={-1}>Custom</option>}
+          {EASINGS.map(({ label }, i) => (
+            <option key={label} value={i}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <p className="text-[11px] text-slate-500">
+        {blocked ??
+          (tileCount !== null &&
+            `${tileCount.toLocaleString()} tiles, each drawn exactly once in every frame. A tile starts where its top-left pixel came from.`)}
+      </p>
+    </div>
+  );
+};
+
+export default ChoreographyPanel;
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SourceImage } from '../utils/imageProcessing';
+
+export type CompareMode = 'off' | 'split' | 'wipe' | 'side';
+
+interface BeforeCanvasProps {
+  image: SourceImage;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/** The unprocessed image, drawn at the preview's own resolution. */
+export const BeforeCanvas: React.FC<BeforeCanvasProps> = ({ image, className, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = image.width;
+    canvas.height = image.height;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+  }, [image]);
+
+  return <canvas ref={canvasRef} className={className} style={style} />;
+};
+
+interface CompareOverlayProps {
+  /** The preview canvas the overlay lines up with */
+  canvas: HTMLCanvasElement;
+  image: SourceImage;
+  mode: 'split' | 'wipe';
+  labels: [before: string, after: string];
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const labelClass = 'absolute bottom-2 px-2 py-0.5 rounded bg-black/60 text-[10px] font-mono uppercase text-slate-200';
+
+// The original laid over the preview and cut off at a divider: halfway for the
+// split, wherever it is dragged for the wipe.
+const CompareOverlay: React.FC<CompareOverlayProps> = ({ canvas, image, mode, labels }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState<Box | null>(null);
+  const [position, setPosition] = useState(0.5);
+  const [dragging, setDragging] = useState(false);
+  const divider = mode === 'split' ? 0.5 : position;
+
+  // The canvas is centred and scaled to fit, so follow it through every resize
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+    const measure = () => {
+      const bounds = canvas.getBoundingClientRect();
+      const host = overlay.getBoundingClientRect();
+      setBox({ left: bounds.left - host.left, top: bounds.top - host.top, width: bounds.width, height: bounds.height });
+    };
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    observer.observe(overlay);
+    measure();
+    return () => observer.disconnect();
+  }, [canvas]);
+
+  const moveTo = (e: React.PointerEvent) => {
+    const bounds = canvas.getBoundingClientRect();
+    setPosition(Math.max(0, Math.min(1, (e.clientX - bounds.left) / bounds.width)));
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 ${mode === 'wipe' ? 'cursor-ew-resize' : 'pointer-events-none'}`}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragging(true);
+        moveTo(e);
+      }}
+      onPointerMove={(e) => dragging && moveTo(e)}
+      onPointerUp={() => setDragging(false)}
+    >
+      {box && (
+        <div className="absolute" style={box}>
+          <BeforeCanvas
+            image={image}
+            className="absolute inset-0 w-full h-full"
+            style={{ clipPath: `inset(0 ${(1 - divider) * 100}% 0 0)` }}
+          />
+          <div
+            className="absolute top-0 bottom-0 w-0.5 -ml-px bg-white/80 shadow-[0_0_6px_rgba(0,0,0,0.6)]"
+            style={{ left: `${divider * 100}%` }}
+          >
+            {mode === 'wipe' && (
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white/90 border border-slate-400 shadow" />
+            )}
+          </div>
+          <span className={`${labelClass} left-2`}>{labels[0]}</span>
+          <span className={`${labelClass} right-2`}>{labels[1]}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareOverlay;
@@ -1,31 +1,149 @@
-import React from 'react';
-import { ProcessorSettings, WeavePattern, ImageDimensions } from '../types';
-import { Sliders, Grid3X3, MoveHorizontal, MoveVertical, Shuffle, Palette, LayoutGrid } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { ProcessorSettings, ImageDimensions, ProcessorMode, WeaveDraft, BuiltInPattern, SortKey, SortPath, SortScope, TileSort } from '../types';
+import { Sliders, Grid3X3, MoveHorizontal, MoveVertical, Shuffle, Palette, LayoutGrid, Undo2, PenLine, Plus, FileUp, FileDown, Blend, AlertTriangle, Combine, ArrowDownWideNarrow } from 'lucide-react';
+import DraftEditor from './DraftEditor';
+import TileShapeControl from './TileShapeControl';
+import TileTurnsControl from './TileTurnsControl';
+import { BUILT_IN_DRAFTS, createDraft, resolveDraft } from '../utils/drafts';
+import { exportWif, parseWif } from '../utils/wif';
+import { BLEND_MODES, isLosslessComposite } from '../utils/composite';
+import { getTileAspect } from '../utils/tileLayout';
+import { DEFAULT_TILE_SORT, SORT_WINDOW_LIMITS } from '../utils/tileSort';
+import { getTileGrid } from '../utils/weaveCore';
 
 interface ControlPanelProps {
   settings: ProcessorSettings;
   setSettings: React.Dispatch<React.SetStateAction<ProcessorSettings>>;
   disabled: boolean;
   imageDimensions: ImageDimensions | null;
+  mode: ProcessorMode;
+  customDrafts: WeaveDraft[];
+  setCustomDrafts: React.Dispatch<React.SetStateAction<WeaveDraft[]>>;
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = ({ settings, setSettings, disabled, imageDimensions }) => {
+const SORT_KEYS: { id: SortKey; label: string; hint: string }[] = [
+  { id: 'luminance', label: 'Luminance', hint: 'Dark tiles first' },
+  { id: 'hue', label: 'Hue', hint: 'Round the colour wheel from red; grey tiles first' },
+  { id: 'saturation', label: 'Saturation', hint: 'Dull tiles first' },
+  { id: 'edges', label: 'Edges', hint: 'Flat tiles first, busy ones last' },
+];
+
+const SORT_PATHS: { id: SortPath; label: string; hint: string }[] = [
+  { id: 'rows', label: 'Rows', hint: 'Left to right, top to bottom' },
+  { id: 'spiral', label: 'Spiral', hint: 'Spiralling out from the centre' },
+  { id: 'radial', label: 'Radial', hint: 'Ring by ring out from the centre' },
+  { id: 'hilbert', label: 'Hilbert', hint: 'Along a space-filling curve, so neighbours stay close' },
+];
+
+const SORT_SCOPES: { id: SortScope; label: string }[] = [
+  { id: 'image', label: 'Image' },
+  { id: 'window', label: 'Windows' },
+  { id: 'row', label: 'Each row' },
+  { id: 'column', label: 'Each column' },
+];
+
+const ControlPanel: React.FC<ControlPanelProps> = ({
+  settings,
+  setSettings,
+  disabled,
+  imageDimensions,
+  mode,
+  customDrafts,
+  setCustomDrafts,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [wifMessage, setWifMessage] = useState<{ kind: 'error' | 'warning'; text: string } | null>(null);
+  const wifInputRef = useRef<HTMLInputElement>(null);
+
   const handleChange = (key: keyof ProcessorSettings, value: number | string) => {
     setSettings((prev) => ({ ...prev, [key]: value }));
   };
 
+  // `division` tiles across the image's short side, whatever their shape; a custom height keeps its proportion
   const handleGridPreset = (division: number) => {
     if (!imageDimensions) return;
-    const size = Math.floor(Math.min(imageDimensions.width, imageDimensions.height) / division);
-    handleChange('tileSize', Math.max(2, size));
+    const { width, height } = imageDimensions;
+    // Triangles sit half a tile apart, so twice as many fit along a row
+    const across = settings.tileShape === 'triangle' ? 2 : 1;
+    const size = Math.max(
+      2,
+      Math.floor(width <= height ? (across * width) / division : height / division / getTileAspect(settings))
+    );
+    setSettings((prev) => ({
+      ...prev,
+      tileSize: size,
+      tileHeight: prev.tileHeight && Math.max(2, Math.round(size * getTileAspect(prev))),
+    }));
+  };
+
+  // Any change to the rule drops an order found earlier; the preview finds the new one
+  const setSort = (sort: TileSort | undefined) => {
+    setSettings((prev) => ({ ...prev, sort: sort && { ...sort, order: undefined } }));
+  };
+  const changeSort = <K extends keyof TileSort>(key: K, value: TileSort[K]) => {
+    if (settings.sort) setSort({ ...settings.sort, [key]: value });
+  };
+  const grid = imageDimensions && getTileGrid(imageDimensions.width, imageDimensions.height, settings);
+  const sortAlongLine = settings.sort?.scope === 'row' || settings.sort?.scope === 'column';
+
+  const builtIns = Object.keys(BUILT_IN_DRAFTS) as BuiltInPattern[];
+  const activeDraftId = settings.pattern === 'custom' ? settings.draft?.id : settings.pattern;
+  const activeSaved = customDrafts.some((d) => d.id === settings.draft?.id);
+
+  // Custom drafts are carried inside the settings so the renderer needs no lookup
+  const selectDraft = (draft: WeaveDraft) => {
+    setSettings((prev) => ({ ...prev, pattern: 'custom', draft }));
+  };
+
+  const handleNewDraft = () => {
+    selectDraft(createDraft(`Draft ${customDrafts.length + 1}`, resolveDraft(settings)));
+    setEditing(true);
+  };
+
+  const handleSaveDraft = () => {
+    const draft = settings.draft;
+    if (!draft) return;
+    setCustomDrafts((prev) =>
+      prev.some((d) => d.id === draft.id) ? prev.map((d) => (d.id === draft.id ? draft : d)) : [...prev, draft]
+    );
+  };
+
+  const handleDeleteDraft = () => {
+    const id = settings.draft?.id;
+    setCustomDrafts((prev) => prev.filter((d) => d.id !== id));
+    setSettings((prev) => ({ ...prev, pattern: 'plain', draft: undefined }));
+    setEditing(false);
+  };
+
+  const handleWifImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { draft, warnings } = parseWif(await file.text(), file.name.replace(/\.wif$/i, ''));
+      selectDraft(draft);
+      setWifMessage(warnings.length ? { kind: 'warning', text: warnings.join(' ') } : null);
+    } catch (err) {
+      setWifMessage({ kind: 'error', text: err instanceof Error ? err.message : 'Could not read this WIF file' });
+    }
+  };
+
+  const handleWifExport = () => {
+    const draft = resolveDraft(settings);
+    const url = URL.createObjectURL(new Blob([exportWif(draft)], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.download = `${draft.name.replace(/[^\w-]+/g, '-') || 'draft'}.wif`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
-  const patterns: { id: WeavePattern; label: string }[] = [
-    { id: 'plain', label: 'Plain Weave' },
-    { id: 'twill', label: 'Twill' },
-    { id: 'satin', label: 'Satin' },
-    { id: 'basket', label: 'Basket' },
-  ];
+  const patternButtonClass = (active: boolean) =>
+    `px-3 py-2 text-xs font-medium rounded-lg border transition-all truncate ${
+      active
+        ? 'bg-purple-500/20 border-purple-500 text-purple-300 shadow-[0_0_10px_rgba(168,85,247,0.3)]'
+        : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:border-slate-600'
+    }`;
 
   return (
     <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-xl p-6 w-full max-w-md shadow-xl h-fit">
@@ -35,6 +153,26 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ settings, setSettings, disa
       </div>
 
       <div className="space-y-8">
+
+        {mode === 'unweave' && (
+          <div className="flex gap-2 p-3 rounded-lg bg-cyan-500/10 border border-cyan-500/30 text-xs text-cyan-200 leading-relaxed">
+            <Undo2 className="w-4 h-4 shrink-0 mt-0.5" />
+            <span>
+              Unweave mode: enter the exact pattern, tile size, shifts, scatter and seed used to weave this image.
+              The original appears once every value matches.
+            </span>
+          </div>
+        )}
+
+        {mode === 'interlace' && (
+          <div className="flex gap-2 p-3 rounded-lg bg-cyan-500/10 border border-cyan-500/30 text-xs text-cyan-200 leading-relaxed">
+            <Combine className="w-4 h-4 shrink-0 mt-0.5" />
+            <span>
+              Interlace mode: the pattern decides which image is on top at each crossing. Custom drafts use their
+              drawdown, warp cells showing the first image and weft cells the second.
+            </span>
+          </div>
+        )}
         
         {/* Pattern Selection */}
         <div className="space-y-3">
@@ -43,133 +181,382 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ settings, setSettings, disa
             <span className="font-semibold">Weave Pattern</span>
           </div>
           <div className="grid grid-cols-2 gap-2">
-            {patterns.map((p) => (
+            {builtIns.map((id) => (
               <button
-                key={p.id}
-                onClick={() => handleChange('pattern', p.id)}
+                key={id}
+                onClick={() => handleChange('pattern', id)}
                 disabled={disabled}
-                className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
-                  settings.pattern === p.id
-                    ? 'bg-purple-500/20 border-purple-500 text-purple-300 shadow-[0_0_10px_rgba(168,85,247,0.3)]'
-                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:border-slate-600'
-                }`}
+                className={patternButtonClass(activeDraftId === id)}
               >
-                {p.label}
+                {BUILT_IN_DRAFTS[id].name}
+              </button>
+            ))}
+            {customDrafts.map((d) => (
+              <button
+                key={d.id}
+                onClick={() => selectDraft(d)}
+                disabled={disabled}
+                className={patternButtonClass(activeDraftId === d.id)}
+                title={d.name}
+              >
+                {d.name}
               </button>
             ))}
           </div>
-        </div>
 
-        {/* Grid Size Presets */}
-        <div className="space-y-3">
-           <div className="flex justify-between text-sm text-slate-300">
-            <div className="flex items-center gap-2">
-              <LayoutGrid className="w-4 h-4 text-cyan-500" />
-              <span>Grid Division</span>
-            </div>
-            {imageDimensions && (
-              <span className="text-xs text-slate-500 font-mono">
-                {Math.round(imageDimensions.width / settings.tileSize)}x
-                {Math.round(imageDimensions.height / settings.tileSize)}
-              </span>
-            )}
-          </div>
-          
           <div className="flex gap-2">
-            {[2, 4, 8, 16, 32].map((div) => (
-               <button
-                key={div}
-                onClick={() => handleGridPreset(div)}
-                disabled={disabled || !imageDimensions}
-                className="flex-1 py-1.5 text-xs font-mono rounded bg-slate-800 border border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-cyan-400 transition-colors disabled:opacity-50"
+            <button
+              onClick={handleNewDraft}
+              disabled={disabled}
+              className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded bg-slate-800 border border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-purple-300 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              New Draft
+            </button>
+            {settings.pattern === 'custom' && settings.draft && !editing && (
+              <button
+                onClick={() => setEditing(true)}
+                disabled={disabled}
+                className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded bg-slate-800 border border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-purple-300 transition-colors disabled:opacity-50"
               >
-                {div}x
+                <PenLine className="w-3.5 h-3.5" />
+                Edit Draft
               </button>
-            ))}
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <input ref={wifInputRef} type="file" accept=".wif,text/plain" onChange={handleWifImport} className="hidden" />
+            <button
+              onClick={() => wifInputRef.current?.click()}
+              disabled={disabled}
+              className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded bg-slate-800 border border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-purple-300 transition-colors disabled:opacity-50"
+            >
+              <FileUp className="w-3.5 h-3.5" />
+              Import WIF
+            </button>
+            <button
+              onClick={handleWifExport}
+              disabled={disabled}
+              className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded bg-slate-800 border border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-purple-300 transition-colors disabled:opacity-50"
+            >
+              <FileDown className="w-3.5 h-3.5" />
+              Export WIF
+            </button>
           </div>
+
+          {wifMessage && (
+            <p className={`text-xs ${wifMessage.kind === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+              {wifMessage.text}
+            </p>
+          )}
+
+          {editing && settings.pattern === 'custom' && settings.draft && (
+            <DraftEditor
+              draft={settings.draft}
+              saved={activeSaved}
+              onChange={selectDraft}
+              onSave={handleSaveDraft}
+              onDelete={handleDeleteDraft}
+              onClose={() => setEditing(false)}
+            />
+          )}
+
+          {mode !== 'interlace' && (
+            <TileTurnsControl
+              turns={settings.turns}
+              onChange={(turns) => setSettings((prev) => ({ ...prev, turns }))}
+              shape={settings.tileShape}
+              disabled={disabled}
+            />
+          )}
         </div>
 
-        {/* Manual Tile Size */}
-        <div className="space-y-2">
-          <div className="flex justify-between text-sm text-slate-300">
-            <div className="flex items-center gap-2">
-              <Grid3X3 className="w-4 h-4 text-slate-400" />
-              <span>Tile Size (px)</span>
+        {/* Tile Sort: the first stage of the weave, so it sits with the patterns */}
+        {mode !== 'interlace' && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm text-slate-300">
+              <div className="flex items-center gap-2">
+                <ArrowDownWideNarrow className="w-4 h-4 text-purple-500" />
+                <span className="font-semibold">Tile Sort</span>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={!!settings.sort}
+                  onChange={(e) => setSort(e.target.checked ? DEFAULT_TILE_SORT : undefined)}
+                  disabled={disabled}
+                  className="accent-purple-500"
+                />
+                Sort tiles
+              </label>
+            </div>
+
+            {settings.sort && (
+              <>
+                <div className="grid grid-cols-4 gap-2">
+                  {SORT_KEYS.map((k) => (
+                    <button
+                      key={k.id}
+                      onClick={() => changeSort('key', k.id)}
+                      disabled={disabled}
+                      title={k.hint}
+                      className={patternButtonClass(settings.sort?.key === k.id)}
+                    >
+                      {k.label}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-4 gap-2">
+                  {SORT_PATHS.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => changeSort('path', p.id)}
+                      disabled={disabled || sortAlongLine}
+                      title={sortAlongLine ? 'Rows and columns are sorted along themselves' : p.hint}
+                      className={`${patternButtonClass(!sortAlongLine && settings.sort?.path === p.id)} disabled:opacity-50`}
+                    >
+                      {p.label}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-4 gap-2">
+                  {SORT_SCOPES.map((s) => (
+                    <button
+                      key={s.id}
+                      onClick={() => changeSort('scope', s.id)}
+                      disabled={disabled}
+                      className={patternButtonClass(settings.sort?.scope === s.id)}
+                    >
+                      {s.label}
+                    </button>
+                  ))}
+                </div>
+
+                {settings.sort.scope === 'window' && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-xs text-slate-400">
+                      <span>Window</span>
+                      <span className="font-mono text-purple-400">
+                        {settings.sort.window}×{settings.sort.window} tiles
+                      </span>
+                    </div>
+                    <input
+                      type="range"
+                      min={SORT_WINDOW_LIMITS[0]}
+                      max={SORT_WINDOW_LIMITS[1]}
+                      value={settings.sort.window}
+                      onChange={(e) => changeSort('window', Number(e.target.value))}
+                      disabled={disabled}
+                      className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                    />
+                  </div>
+                )}
+
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={settings.sort.reverse}
+                    onChange={(e) => changeSort('reverse', e.target.checked)}
+                    disabled={disabled}
+                    className="accent-purple-500"
+                  />
+                  Reverse (highest first)
+                </label>
+
+                <p className="text-[11px] text-slate-500 leading-relaxed">
+                  {mode === 'unweave'
+                    ? settings.sort.order
+                      ? 'Undoing the tile order embedded in this file.'
+                      : 'A sorted image can only be unwoven with the tile order embedded in its PNG; without it the tiles stay sorted.'
+                    : 'Sorting runs before the weave and only trades tiles of the same size, so it still unweaves exactly.'}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Interlacing cuts strips instead of tiles, so the grid and shift controls don't apply */}
+        {mode !== 'interlace' && (
+          <>
+          {/* Grid Size Presets */}
+          <div className="space-y-3">
+             <div className="flex justify-between text-sm text-slate-300">
+              <div className="flex items-center gap-2">
+                <LayoutGrid className="w-4 h-4 text-cyan-500" />
+                <span>Grid Division</span>
+              </div>
+              {imageDimensions && (
+                <span className="text-xs text-slate-500 font-mono">
+                  {grid && `${grid.cols}x${grid.rows}`}
+                </span>
+              )}
+            </div>
+          
+            <div className="flex gap-2">
+              {[2, 4, 8, 16, 32].map((div) => (
+                 <button
+                  key={div}
+                  onClick={() => handleGridPreset(div)}
+                  disabled={disabled || !imageDimensions}
+                  className="flex-1 py-1.5 text-xs font-mono rounded bg-slate-800 border border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-cyan-400 transition-colors disabled:opacity-50"
+                >
+                  {div}x
+                </button>
+              ))}
             </div>
-            <span className="font-mono text-cyan-400">{settings.tileSize}px</span>
           </div>
-          <input
-            type="range"
-            min="2"
-            max="200"
-            step="1"
-            value={settings.tileSize}
-            onChange={(e) => handleChange('tileSize', Number(e.target.value))}
-            disabled={disabled}
-            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400 transition-all"
-          />
-        </div>
 
-        {/* Shifts */}
-        <div className="space-y-4 pt-2 border-t border-slate-700/50">
+          {/* Manual Tile Size */}
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-slate-300">
               <div className="flex items-center gap-2">
-                <MoveHorizontal className="w-4 h-4 text-pink-500" />
-                <span>Horizontal Shift</span>
+                <Grid3X3 className="w-4 h-4 text-slate-400" />
+                <span>{settings.tileHeight !== undefined || settings.tileShape ? 'Tile Width' : 'Tile Size'} (px)</span>
               </div>
-              <span className="font-mono text-pink-400">{settings.horizontalShift}px</span>
+              <span className="font-mono text-cyan-400">{settings.tileSize}px</span>
             </div>
             <input
               type="range"
-              min="0"
+              min="2"
               max="200"
-              value={settings.horizontalShift}
-              onChange={(e) => handleChange('horizontalShift', Number(e.target.value))}
+              step="1"
+              value={settings.tileSize}
+              onChange={(e) => handleChange('tileSize', Number(e.target.value))}
               disabled={disabled}
-              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-pink-500 hover:accent-pink-400 transition-all"
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400 transition-all"
             />
           </div>
 
-          <div className="space-y-2">
+          <TileShapeControl
+            tiles={settings}
+            onChange={(change) => setSettings((prev) => ({ ...prev, ...change }))}
+            disabled={disabled}
+          />
+
+          {/* Shifts */}
+          <div className="space-y-4 pt-2 border-t border-slate-700/50">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-slate-300">
+                <div className="flex items-center gap-2">
+                  <MoveHorizontal className="w-4 h-4 text-pink-500" />
+                  <span>Horizontal Shift</span>
+                </div>
+                <span className="font-mono text-pink-400">{settings.horizontalShift}px</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="200"
+                value={settings.horizontalShift}
+                onChange={(e) => handleChange('horizontalShift', Number(e.target.value))}
+                disabled={disabled}
+                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-pink-500 hover:accent-pink-400 transition-all"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-slate-300">
+                <div className="flex items-center gap-2">
+                  <MoveVertical className="w-4 h-4 text-emerald-500" />
+                  <span>Vertical Shift</span>
+                </div>
+                <span className="font-mono text-emerald-400">{settings.verticalShift}px</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="200"
+                value={settings.verticalShift}
+                onChange={(e) => handleChange('verticalShift', Number(e.target.value))}
+                disabled={disabled}
+                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500 hover:accent-emerald-400 transition-all"
+              />
+            </div>
+          </div>
+
+          {/* Scatter */}
+          <div className="space-y-2 pt-2 border-t border-slate-700/50">
             <div className="flex justify-between text-sm text-slate-300">
               <div className="flex items-center gap-2">
-                <MoveVertical className="w-4 h-4 text-emerald-500" />
-                <span>Vertical Shift</span>
+                <Shuffle className="w-4 h-4 text-amber-500" />
+                <span>Scatter Intensity</span>
               </div>
-              <span className="font-mono text-emerald-400">{settings.verticalShift}px</span>
+              <span className="font-mono text-amber-400">{settings.scatterIntensity}%</span>
             </div>
             <input
               type="range"
               min="0"
-              max="200"
-              value={settings.verticalShift}
-              onChange={(e) => handleChange('verticalShift', Number(e.target.value))}
+              max="100"
+              value={settings.scatterIntensity}
+              onChange={(e) => handleChange('scatterIntensity', Number(e.target.value))}
               disabled={disabled}
-              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500 hover:accent-emerald-400 transition-all"
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500 hover:accent-amber-400 transition-all"
             />
+            <div className="flex justify-between items-center text-xs text-slate-400">
+              <span>Seed</span>
+              <input
+                type="number"
+                step="1"
+                value={settings.seed}
+                onChange={(e) => handleChange('seed', Math.floor(Number(e.target.value)) || 0)}
+                disabled={disabled}
+                className="w-24 px-2 py-1 text-right font-mono text-amber-400 bg-slate-900 border border-slate-700 rounded focus:outline-none focus:border-amber-500"
+              />
+            </div>
           </div>
-        </div>
+          </>
+        )}
 
-        {/* Scatter */}
-        <div className="space-y-2 pt-2 border-t border-slate-700/50">
-          <div className="flex justify-between text-sm text-slate-300">
-            <div className="flex items-center gap-2">
-              <Shuffle className="w-4 h-4 text-amber-500" />
-              <span>Scatter Intensity</span>
+        {/* Composite: an artistic layer after the weave, so unweave has nothing to set here */}
+        {mode === 'weave' && (
+          <div className="space-y-3 pt-2 border-t border-slate-700/50">
+            <div className="flex justify-between text-sm text-slate-300">
+              <div className="flex items-center gap-2">
+                <Blend className="w-4 h-4 text-rose-500" />
+                <span>Opacity over Original</span>
+              </div>
+              <span className="font-mono text-rose-400">{Math.round(settings.opacity)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={settings.opacity}
+              onChange={(e) => handleChange('opacity', Number(e.target.value))}
+              disabled={disabled}
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-rose-500 hover:accent-rose-400 transition-all"
+            />
+            <div className="grid grid-cols-5 gap-1">
+              {BLEND_MODES.map((blend) => (
+                <button
+                  key={blend}
+                  onClick={() => handleChange('blendMode', blend)}
+                  disabled={disabled}
+                  className={`px-1 py-1.5 text-[10px] font-medium rounded border capitalize transition-colors ${
+                    settings.blendMode === blend
+                      ? 'bg-rose-500/20 border-rose-500 text-rose-300'
+                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+                  }`}
+                >
+                  {blend}
+                </button>
+              ))}
             </div>
-            <span className="font-mono text-amber-400">{settings.scatterIntensity}%</span>
+            {!isLosslessComposite(settings) && (
+              <div className="flex gap-2 text-[11px] text-amber-300/90 leading-relaxed">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                <span>
+                  {settings.blendMode === 'normal' ? 'Partial opacity' : `The ${settings.blendMode} blend`} mixes the
+                  original back in as an artistic layer. The rearrangement underneath is still lossless, but this
+                  export can no longer be unwoven. Use Normal at 100% for a reversible weave.
+                </span>
+              </div>
+            )}
           </div>
-          <input
-            type="range"
-            min="0"
-            max="100"
-            value={settings.scatterIntensity}
-            onChange={(e) => handleChange('scatterIntensity', Number(e.target.value))}
-            disabled={disabled}
-            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500 hover:accent-amber-400 transition-all"
-          />
-        </div>
+        )}
       </div>
     </div>
   );
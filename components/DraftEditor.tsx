@@ -0,0 +1,168 @@
+import React from 'react';
+import { Minus, Plus, Save, Trash2, X } from 'lucide-react';
+import { DraftCell, WeaveDraft } from '../types';
+import { cycleCell, MAX_DRAFT_SIZE, resizeDraft } from '../utils/drafts';
+
+interface DraftEditorProps {
+  draft: WeaveDraft;
+  /** True when the draft already exists in the library */
+  saved: boolean;
+  onChange: (draft: WeaveDraft) => void;
+  onSave: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const CELL_STYLES: Record<DraftCell, string> = {
+  both: 'bg-purple-500/70 border-purple-400',
+  weft: 'bg-pink-500/70 border-pink-400',
+  warp: 'bg-emerald-500/70 border-emerald-400',
+  none: 'bg-slate-800 border-slate-700',
+};
+
+const CELL_LABELS: Record<DraftCell, string> = {
+  both: 'Both',
+  weft: 'Weft over',
+  warp: 'Warp over',
+  none: 'Fixed',
+};
+
+const Stepper: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <div className="flex items-center gap-1.5">
+    <span className="text-slate-400">{label}</span>
+    <button
+      onClick={() => onChange(value - 1)}
+      disabled={value <= 1}
+      className="p-0.5 rounded bg-slate-800 border border-slate-700 hover:bg-slate-700 disabled:opacity-40"
+    >
+      <Minus className="w-3 h-3" />
+    </button>
+    <span className="w-5 text-center font-mono text-slate-200">{value}</span>
+    <button
+      onClick={() => onChange(value + 1)}
+      disabled={value >= MAX_DRAFT_SIZE}
+      className="p-0.5 rounded bg-slate-800 border border-slate-700 hover:bg-slate-700 disabled:opacity-40"
+    >
+      <Plus className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+const factorInputClass =
+  'w-full min-w-0 px-0.5 py-0.5 text-[10px] text-center font-mono bg-slate-900 border border-slate-700 rounded focus:outline-none focus:border-purple-500';
+
+/**
+ * Draft editor: a repeat of picks x ends. Each cell says which thread floats on
+ * top, the right column is the treadling (row shift factors) and the bottom row
+ * the threading (column shift factors).
+ */
+const DraftEditor: React.FC<DraftEditorProps> = ({ draft, saved, onChange, onSave, onDelete, onClose }) => {
+  const rows = draft.weft.length;
+  const cols = draft.warp.length;
+
+  const setCell = (y: number, x: number) => {
+    const cells = draft.cells.map((row) => [...row]);
+    cells[y][x] = cycleCell(cells[y][x]);
+    onChange({ ...draft, cells });
+  };
+
+  const setFactor = (thread: 'weft' | 'warp', index: number, value: string) => {
+    const factors = [...draft[thread]];
+    const n = Number(value);
+    factors[index] = Number.isFinite(n) ? Math.max(-10, Math.min(10, n)) : 0;
+    onChange({ ...draft, [thread]: factors });
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg bg-slate-900/60 border border-purple-500/30 text-xs">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={draft.name}
+          maxLength={40}
+          onChange={(e) => onChange({ ...draft, name: e.target.value })}
+          className="flex-1 min-w-0 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-slate-200 focus:outline-none focus:border-purple-500"
+        />
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white" title="Close editor">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex justify-between">
+        <Stepper label="Picks" value={rows} onChange={(r) => onChange(resizeDraft(draft, r, cols))} />
+        <Stepper label="Ends" value={cols} onChange={(c) => onChange(resizeDraft(draft, rows, c))} />
+      </div>
+
+      <div
+        className="grid gap-0.5"
+        style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr)) 2.25rem` }}
+      >
+        {draft.cells.map((row, y) => (
+          <React.Fragment key={y}>
+            {row.map((cell, x) => (
+              <button
+                key={x}
+                onClick={() => setCell(y, x)}
+                title={CELL_LABELS[cell]}
+                className={`aspect-square rounded-sm border transition-colors ${CELL_STYLES[cell]}`}
+              />
+            ))}
+            <input
+              type="number"
+              step="0.25"
+              value={draft.weft[y]}
+              onChange={(e) => setFactor('weft', y, e.target.value)}
+              title="Treadling: horizontal shift factor of this pick"
+              className={factorInputClass}
+            />
+          </React.Fragment>
+        ))}
+        {draft.warp.map((factor, x) => (
+          <input
+            key={x}
+            type="number"
+            step="0.25"
+            value={factor}
+            onChange={(e) => setFactor('warp', x, e.target.value)}
+            title="Threading: vertical shift factor of this end"
+            className={factorInputClass}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-400">
+        {(Object.keys(CELL_LABELS) as DraftCell[]).map((cell) => (
+          <span key={cell} className="flex items-center gap-1">
+            <span className={`w-2.5 h-2.5 rounded-sm border ${CELL_STYLES[cell]}`} />
+            {CELL_LABELS[cell]}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onSave}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded bg-purple-600 hover:bg-purple-500 text-white font-medium"
+        >
+          <Save className="w-3.5 h-3.5" />
+          {saved ? 'Update Draft' : 'Save Draft'}
+        </button>
+        {saved && (
+          <button
+            onClick={onDelete}
+            className="px-2 rounded bg-slate-800 border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/50"
+            title="Delete draft"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DraftEditor;
@@ -1,21 +1,50 @@
 import React, { useCallback } from 'react';
 import { UploadCloud, Image as ImageIcon } from 'lucide-react';
+import { ProcessorMode } from '../types';
+import { readDroppedFiles } from '../utils/batch';
 
 interface DropZoneProps {
   onImageSelect: (file: File) => void;
+  mode: ProcessorMode;
+  /** When set, a second image dropped (or picked) together with the first goes here */
+  onSecondImageSelect?: (file: File) => void;
+  /** When set, several images (or a folder) go here together as a batch */
+  onBatchSelect?: (files: File[]) => void;
+  /** Small slot for adding the weft image next to the controls */
+  compact?: boolean;
 }
 
-const DropZone: React.FC<DropZoneProps> = ({ onImageSelect }) => {
+const MESSAGES: Record<ProcessorMode, [string, string]> = {
+  weave: ['Drop your image here', 'several, or a folder, for a batch — or click to browse'],
+  unweave: ['Drop a woven PNG here', 'lossless output only, one or many — or click to browse'],
+  interlace: ['Drop the warp and weft images', 'one or two images — or click to browse'],
+};
+
+const DropZone: React.FC<DropZoneProps> = ({ onImageSelect, mode, onSecondImageSelect, onBatchSelect, compact = false }) => {
+  const handleImages = useCallback(
+    (images: File[]) => {
+      if (onBatchSelect && images.length > 1) {
+        onBatchSelect(images);
+        return;
+      }
+      if (images[0]) onImageSelect(images[0]);
+      if (images[1] && onSecondImageSelect) onSecondImageSelect(images[1]);
+    },
+    [onImageSelect, onSecondImageSelect, onBatchSelect]
+  );
+
+  const handleFiles = (files: FileList | null | undefined) =>
+    handleImages(Array.from(files ?? []).filter((file) => file.type.startsWith('image/')));
+
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       e.stopPropagation();
-      const file = e.dataTransfer.files?.[0];
-      if (file && file.type.startsWith('image/')) {
-        onImageSelect(file);
-      }
+      // Folders only show up as entries, so batches walk them; single drops stay simple
+      if (onBatchSelect) readDroppedFiles(e.dataTransfer).then(handleImages, () => {});
+      else handleImages(Array.from(e.dataTransfer.files).filter((file) => file.type.startsWith('image/')));
     },
-    [onImageSelect]
+    [handleImages, onBatchSelect]
   );
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -24,12 +53,29 @@ const DropZone: React.FC<DropZoneProps> = ({ onImageSelect }) => {
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onImageSelect(file);
-    }
+    handleFiles(e.target.files);
+    e.target.value = '';
   };
 
+  if (compact) {
+    return (
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        className="group relative flex items-center justify-center gap-3 w-full h-20 border-2 border-dashed border-slate-600 rounded-lg bg-slate-800/30 hover:bg-slate-800/50 hover:border-cyan-500/50 text-slate-400 hover:text-cyan-400 transition-all cursor-pointer"
+      >
+        <input
+          type="file"
+          accept="image/*"
+          onChange={handleChange}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+        />
+        <UploadCloud className="w-5 h-5" />
+        <span className="text-xs font-medium">Drop the weft image or click</span>
+      </div>
+    );
+  }
+
   return (
     <div
       onDrop={handleDrop}
@@ -39,6 +85,7 @@ const DropZone: React.FC<DropZoneProps> = ({ onImageSelect }) => {
       <input
         type="file"
         accept="image/*"
+        multiple={!!onSecondImageSelect || !!onBatchSelect}
         onChange={handleChange}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
       />
@@ -50,8 +97,8 @@ const DropZone: React.FC<DropZoneProps> = ({ onImageSelect }) => {
           <UploadCloud className="w-10 h-10" />
         </div>
         <div className="text-center">
-          <p className="text-lg font-medium">Drop your image here</p>
-          <p className="text-sm opacity-60 mt-1">or click to browse</p>
+          <p className="text-lg font-medium">{MESSAGES[mode][0]}</p>
+          <p className="text-sm opacity-60 mt-1">{MESSAGES[mode][1]}</p>
         </div>
       </div>
 
@@ -0,0 +1,63 @@
+import React from 'react';
+import { FileCheck2, X } from 'lucide-react';
+import { EmbeddedSettings, ProcessorMode } from '../types';
+import { isLosslessComposite } from '../utils/composite';
+
+interface EmbeddedSettingsNoticeProps {
+  embedded: EmbeddedSettings;
+  mode: ProcessorMode;
+  onRestore: () => void;
+  onUnweave: () => void;
+  onDismiss: () => void;
+}
+
+const describe = ({ settings: s }: EmbeddedSettings) =>
+  `${s.pattern === 'custom' ? s.draft?.name ?? 'custom' : s.pattern} · ${s.tileShape ? `${s.tileShape} ` : ''}` +
+  `${Math.round(s.tileSize)}${s.tileHeight !== undefined ? `×${Math.round(s.tileHeight)}` : ''}px · seed ${s.seed}`;
+
+/** Offers the settings found in a dropped PNG that this app exported. */
+const EmbeddedSettingsNotice: React.FC<EmbeddedSettingsNoticeProps> = ({
+  embedded,
+  mode,
+  onRestore,
+  onUnweave,
+  onDismiss,
+}) => {
+  // Only a lossless weave can be taken apart again
+  const canUnweave = mode !== 'unweave' && embedded.mode === 'weave' && isLosslessComposite(embedded.settings);
+
+  return (
+    <div className="bg-cyan-500/10 border border-cyan-500/40 rounded-xl p-4 space-y-3 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2 text-cyan-300">
+          <FileCheck2 className="w-4 h-4 shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">This image was exported from Mosaic Weaver</p>
+            <p className="text-[11px] font-mono text-cyan-400/80">{describe(embedded)}</p>
+          </div>
+        </div>
+        <button onClick={onDismiss} className="p-1 text-slate-400 hover:text-white" title="Ignore">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={onRestore}
+          className="flex-1 px-2 py-1.5 text-xs font-medium rounded bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700"
+        >
+          Restore settings
+        </button>
+        {canUnweave && (
+          <button
+            onClick={onUnweave}
+            className="flex-1 px-2 py-1.5 text-xs font-medium rounded bg-cyan-600 hover:bg-cyan-500 text-white"
+          >
+            Unweave it
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmbeddedSettingsNotice;
@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Image as ImageIcon, X, Download, AlertTriangle } from 'lucide-react';
+import { ImageFormat, InterlaceSettings, ProcessorMode, ProcessorSettings, TextureSettings } from '../types';
+import {
+  exportContactSheet,
+  exportFullResolution,
+  FILENAME_TOKENS,
+  formatFilename,
+  IMAGE_FORMATS,
+  loadExportPreferences,
+  saveExportPreferences,
+} from '../utils/fullResolution';
+import { SourceImage } from '../utils/imageProcessing';
+
+interface ImageExportPanelProps {
+  image: SourceImage | null;
+  weft: SourceImage | null;
+  mode: ProcessorMode;
+  settings: ProcessorSettings;
+  interlace?: InterlaceSettings;
+  /** Set in texture mode, where a contact sheet of the repeat can go with the tile */
+  texture?: TextureSettings;
+  onClose: () => void;
+}
+
+const FORMAT_HINTS: Record<ImageFormat, string> = {
+  png: 'Lossless, carries the settings for a later restore',
+  jpeg: 'Small files, lossy, no transparency',
+  webp: 'Smaller files, lossy',
+};
+
+const optionClass = (active: boolean) =>
+  `flex-1 px-2 py-1.5 text-xs font-medium rounded border transition-colors disabled:opacity-40 ${
+    active
+      ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+  }`;
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ImageExportPanel: React.FC<ImageExportPanelProps> = ({
+  image,
+  weft,
+  mode,
+  settings,
+  interlace,
+  texture,
+  onClose,
+}) => {
+  const [preferences, setPreferences] = useState(loadExportPreferences);
+  const [contactSheet, setContactSheet] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { format, quality, filenameTemplate } = preferences;
+
+  useEffect(() => {
+    saveExportPreferences(preferences);
+  }, [preferences]);
+
+  // Stop any running export when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const filename = formatFilename(filenameTemplate, { mode, settings }, format);
+  const lossless = IMAGE_FORMATS[format].lossless;
+
+  const handleExport = async () => {
+    if (!image) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+
+    try {
+      // Re-renders the original at full size rather than saving the (possibly proxied) preview
+      const blob = await exportFullResolution(
+        image,
+        { mode, settings, interlace, weft, format, quality },
+        (done, total) => setProgress(done / total),
+        controller.signal
+      );
+      download(blob, filename);
+      if (texture && contactSheet) {
+        controller.signal.throwIfAborted();
+        const sheet = await exportContactSheet(blob, texture, format, quality);
+        download(sheet, filename.replace(/(\.\w+)$/, `-sheet-${texture.repeatX}x${texture.repeatY}$1`));
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Export failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const busy = progress !== null;
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4">
+      <div className="w-full max-w-sm bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-5 space-y-4 text-sm">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <ImageIcon className="w-4 h-4" />
+            <h3 className="font-bold uppercase tracking-wide">Export Image</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-1.5">
+          <span className="text-xs text-slate-400">Format</span>
+          <div className="flex gap-2">
+            {(Object.keys(IMAGE_FORMATS) as ImageFormat[]).map((id) => (
+              <button
+                key={id}
+                onClick={() => setPreferences((prev) => ({ ...prev, format: id }))}
+                disabled={busy}
+                title={FORMAT_HINTS[id]}
+                className={optionClass(format === id)}
+              >
+                {IMAGE_FORMATS[id].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-500">{FORMAT_HINTS[format]}</p>
+        </div>
+
+        {!lossless && (
+          <>
+            <label className="block space-y-1">
+              <div className="flex justify-between text-xs text-slate-400">
+                <span>Quality</span>
+                <span className="font-mono text-cyan-400">{quality}</span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={100}
+                value={quality}
+                disabled={busy}
+                onChange={(e) => setPreferences((prev) => ({ ...prev, quality: Number(e.target.value) }))}
+                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+              />
+            </label>
+            <div className="flex gap-2 p-2 rounded bg-amber-500/10 border border-amber-500/40 text-[11px] text-amber-300">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+              <span>
+                Lossy compression alters pixel values, so the output is no longer an exact rearrangement of the
+                original and can't be unwoven. The settings are only embedded in PNG exports.
+              </span>
+            </div>
+          </>
+        )}
+
+        <label className="block space-y-1">
+          <span className="text-xs text-slate-400">Filename</span>
+          <input
+            type="text"
+            value={filenameTemplate}
+            disabled={busy}
+            onChange={(e) => setPreferences((prev) => ({ ...prev, filenameTemplate: e.target.value }))}
+            className="w-full px-2 py-1 font-mono text-xs bg-slate-800 border border-slate-700 rounded text-slate-200"
+          />
+          <p className="text-[11px] text-slate-500 font-mono truncate" title={filename}>
+            {filename}
+          </p>
+          <p className="text-[10px] text-slate-600 leading-relaxed">
+            {FILENAME_TOKENS.map(([token, hint]) => (
+              <span key={token} title={hint} className="mr-2 font-mono">{`{${token}}`}</span>
+            ))}
+          </p>
+        </label>
+
+        <p className="text-[11px] text-slate-500 font-mono">
+          {image ? `${image.width}x${image.height}px` : ''}
+        </p>
+
+        {texture && (
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={contactSheet}
+              disabled={busy}
+              onChange={(e) => setContactSheet(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Also save a {texture.repeatX}x{texture.repeatY} contact sheet of the tile
+          </label>
+        )}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {busy ? (
+          <div className="space-y-2">
+            <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+              <div className="h-full bg-cyan-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full py-2 rounded-md bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel ({Math.round(progress * 100)}%)
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={!image}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-md bg-cyan-600 hover:bg-cyan-500 text-white font-medium disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Render & Download
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageExportPanel;
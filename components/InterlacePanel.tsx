@@ -0,0 +1,152 @@
+import React from 'react';
+import { Combine, X } from 'lucide-react';
+import { FitMode, InterlaceDepth, InterlaceSettings } from '../types';
+import DropZone from './DropZone';
+
+interface InterlacePanelProps {
+  interlace: InterlaceSettings;
+  setInterlace: React.Dispatch<React.SetStateAction<InterlaceSettings>>;
+  weftSrc: string | null;
+  onWeftSelect: (file: File) => void;
+  onWeftRemove: () => void;
+}
+
+const DEPTHS: { id: InterlaceDepth; label: string }[] = [
+  { id: 'none', label: 'Flat' },
+  { id: 'shadow', label: 'Shadow' },
+  { id: 'highlight', label: 'Highlight' },
+];
+
+const FITS: { id: FitMode; label: string; hint: string }[] = [
+  { id: 'cover', label: 'Cover', hint: 'Scale the weft image to fill the frame, cropping the overflow' },
+  { id: 'contain', label: 'Contain', hint: 'Show the whole weft image, leaving empty borders' },
+  { id: 'stretch', label: 'Stretch', hint: 'Fill the frame exactly, ignoring the aspect ratio' },
+];
+
+const optionClass = (active: boolean) =>
+  `flex-1 px-2 py-1.5 text-xs font-medium rounded border transition-colors ${
+    active
+      ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+  }`;
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  unit: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, unit, disabled, onChange }) => (
+  <label className="block space-y-1">
+    <div className="flex justify-between text-xs text-slate-400">
+      <span>{label}</span>
+      <span className="font-mono text-cyan-400">
+        {value}
+        {unit}
+      </span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-40"
+    />
+  </label>
+);
+
+const InterlacePanel: React.FC<InterlacePanelProps> = ({ interlace, setInterlace, weftSrc, onWeftSelect, onWeftRemove }) => {
+  const set = <K extends keyof InterlaceSettings>(key: K, value: InterlaceSettings[K]) =>
+    setInterlace((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-2 text-cyan-400">
+        <Combine className="w-4 h-4" />
+        <h3 className="text-sm font-bold tracking-wide uppercase">Interlace</h3>
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-xs text-slate-400">Weft image (horizontal strips)</span>
+        {weftSrc ? (
+          <div className="relative h-20 rounded-lg overflow-hidden border border-slate-700">
+            <img src={weftSrc} alt="Weft" className="w-full h-full object-cover" />
+            <button
+              onClick={onWeftRemove}
+              className="absolute top-1 right-1 p-1 rounded bg-black/60 text-slate-300 hover:text-white"
+              title="Remove weft image"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ) : (
+          <DropZone onImageSelect={onWeftSelect} mode="interlace" compact />
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <Slider label="Warp strip width" value={interlace.warpWidth} min={2} max={200} unit="px" onChange={(v) => set('warpWidth', v)} />
+        <Slider label="Weft strip width" value={interlace.weftWidth} min={2} max={200} unit="px" onChange={(v) => set('weftWidth', v)} />
+        <Slider label="Gap" value={interlace.gap} min={0} max={50} unit="px" onChange={(v) => set('gap', v)} />
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-xs text-slate-400">Over/under depth</span>
+        <div className="flex gap-2">
+          {DEPTHS.map((d) => (
+            <button key={d.id} onClick={() => set('depth', d.id)} className={optionClass(interlace.depth === d.id)}>
+              {d.label}
+            </button>
+          ))}
+        </div>
+        <Slider
+          label="Strength"
+          value={interlace.depthStrength}
+          min={0}
+          max={100}
+          unit="%"
+          disabled={interlace.depth === 'none'}
+          onChange={(v) => set('depthStrength', v)}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-xs text-slate-400">Weft image fit</span>
+        <div className="flex gap-2">
+          {FITS.map((f) => (
+            <button key={f.id} onClick={() => set('fit', f.id)} title={f.hint} className={optionClass(interlace.fit === f.id)}>
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <Slider
+          label="Align horizontally"
+          value={interlace.alignX}
+          min={-100}
+          max={100}
+          unit=""
+          disabled={interlace.fit === 'stretch'}
+          onChange={(v) => set('alignX', v)}
+        />
+        <Slider
+          label="Align vertically"
+          value={interlace.alignY}
+          min={-100}
+          max={100}
+          unit=""
+          disabled={interlace.fit === 'stretch'}
+          onChange={(v) => set('alignY', v)}
+        />
+        <p className="text-[11px] text-slate-500">
+          The output takes the warp image's size; the weft image is scaled into that frame.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default InterlacePanel;
@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Save, Trash2, Download, Upload, Link2, Check } from 'lucide-react';
+import { ProcessorSettings, SettingsPreset } from '../types';
+import { createPresetId, encodeSettingsHash, parsePreset, serializePreset } from '../utils/presets';
+
+interface PresetPanelProps {
+  settings: ProcessorSettings;
+  setSettings: (settings: ProcessorSettings) => void;
+  presets: SettingsPreset[];
+  setPresets: React.Dispatch<React.SetStateAction<SettingsPreset[]>>;
+}
+
+const iconButtonClass =
+  'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-40';
+
+const downloadPreset = (name: string, settings: ProcessorSettings) => {
+  const url = URL.createObjectURL(new Blob([serializePreset(name, settings)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.download = `${name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'preset'}.json`;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const summary = (s: ProcessorSettings) =>
+  `${s.pattern} · ${s.tileShape ? `${s.tileShape} ` : ''}${s.tileSize}${s.tileHeight ? `×${s.tileHeight}` : ''}px` +
+  ` · ${Math.round(s.horizontalShift)}/${Math.round(s.verticalShift)}` +
+  (s.scatterIntensity > 0 ? ` · scatter ${Math.round(s.scatterIntensity)}%` : '') +
+  (s.passes?.length ? ` · +${s.passes.length} pass${s.passes.length === 1 ? '' : 'es'}` : '');
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ settings, setSettings, presets, setPresets }) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const trimmed = name.trim().slice(0, 40) || `Preset ${presets.length + 1}`;
+    setPresets((prev) => [...prev, { id: createPresetId(), name: trimmed, settings: { ...settings } }]);
+    setName('');
+    setMessage(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parsePreset(await file.text(), file.name.replace(/\.json$/i, ''));
+      setPresets((prev) => [...prev, preset]);
+      setSettings(preset.settings);
+      setMessage({ text: `Imported "${preset.name}"`, error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not read this preset', error: true });
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${encodeSettingsHash(settings)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setMessage({ text: 'Clipboard unavailable; copy the address bar instead', error: true });
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-cyan-400">
+          <Bookmark className="w-4 h-4" />
+          <h3 className="text-sm font-bold tracking-wide uppercase">Presets</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={handleCopyLink} className={iconButtonClass} title="Copy a link to these settings">
+            {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Link2 className="w-4 h-4" />}
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Import preset">
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => downloadPreset(name.trim() || 'current-settings', settings)}
+            className={iconButtonClass}
+            title="Export current settings"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          maxLength={40}
+          placeholder="Preset name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          className="flex-1 min-w-0 px-2 py-1 text-xs bg-slate-800 border border-slate-700 rounded text-slate-200"
+        />
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded bg-cyan-600 hover:bg-cyan-500 text-white"
+        >
+          <Save className="w-3 h-3" />
+          Save
+        </button>
+      </div>
+
+      {message && <p className={`text-xs ${message.error ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>}
+
+      {presets.length > 0 ? (
+        <ul className="space-y-1 max-h-56 overflow-y-auto">
+          {presets.map((preset) => (
+            <li key={preset.id} className="group flex items-center gap-1 rounded bg-slate-900/60 border border-slate-700">
+              <button
+                onClick={() => setSettings(preset.settings)}
+                className="flex-1 min-w-0 px-2 py-1.5 text-left"
+                title="Apply preset"
+              >
+                <span className="block text-xs text-slate-200 truncate">{preset.name}</span>
+                <span className="block text-[10px] font-mono text-slate-500 truncate">{summary(preset.settings)}</span>
+              </button>
+              <button
+                onClick={() => downloadPreset(preset.name, preset.settings)}
+                className={iconButtonClass}
+                title="Export preset"
+              >
+                <Download className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => setPresets((prev) => prev.filter((p) => p.id !== preset.id))}
+                className={`${iconButtonClass} hover:text-red-400`}
+                title="Delete preset"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-500">Saved presets stay in this browser. Links and .json files carry settings elsewhere.</p>
+      )}
+    </div>
+  );
+};
+
+export default PresetPanel;
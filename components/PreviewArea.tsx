@@ -1,108 +1,355 @@
-import React, { useEffect, useRef } from 'react';
-import { Download, X, Maximize2 } from 'lucide-react';
-import { ProcessorSettings } from '../types';
-import { renderWeave } from '../utils/imageProcessing';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Download, X, Maximize2, Film, MousePointerClick, AlertTriangle, ShieldCheck } from 'lucide-react';
+import {
+  ChoreographySettings,
+  InterlaceSettings,
+  PreviewFrame,
+  ProcessorMode,
+  ProcessorSettings,
+  TextureSettings,
+  TimelineSample,
+  TimelineSequence,
+} from '../types';
+import { createPreviewProxy, getPreviewScale, toProxyFrame } from '../utils/fullResolution';
+import { readImagePixels, SourceImage } from '../utils/imageProcessing';
+import { createPreviewRenderer, PreviewRenderer, RendererBackend } from '../utils/previewRenderer';
+import { prepareTextureSource } from '../utils/texture';
+import { withTileOrder } from '../utils/tileSort';
+import { blendPasses, lerpOptional, PASS_EASED_KEYS } from '../utils/transition';
+import AnimationExportPanel from './AnimationExportPanel';
+import ImageExportPanel from './ImageExportPanel';
+import TileInspector, { TileInspectorControls } from './TileInspector';
+import CompareOverlay, { BeforeCanvas, CompareMode } from './CompareView';
+import VerificationPanel from './VerificationPanel';
+
+// Fraction of the remaining distance the preview eases each frame
+const EASE_RATE = 0.1;
+// Once every eased value is this close to its target it snaps there and the loop sleeps
+const SETTLE_EPSILON = 0.05;
+const EASED_KEYS = ['tileSize', 'horizontalShift', 'verticalShift', 'scatterIntensity', 'opacity'] as const;
+
+// A tile height only eases between two set values; otherwise it has to match
+const settledOptional = (a: number | undefined, b: number | undefined) =>
+  a === undefined || b === undefined ? a === b : Math.abs(a - b) < SETTLE_EPSILON;
+
+const COMPARE_MODES: { id: CompareMode; label: string; hint: string }[] = [
+  { id: 'off', label: 'Off', hint: 'Show the result only' },
+  { id: 'split', label: 'Split', hint: 'Original on the left half, result on the right' },
+  { id: 'wipe', label: 'Wipe', hint: 'Drag across the preview to move the divider' },
+  { id: 'side', label: 'Side', hint: 'Original and result side by side' },
+];
+
+const COMPARE_LABELS: Record<ProcessorMode, [string, string]> = {
+  weave: ['Original', 'Woven'],
+  unweave: ['Woven', 'Unwoven'],
+  interlace: ['Warp', 'Interlaced'],
+};
 
 interface PreviewAreaProps {
   originalSrc: string | null;
   settings: ProcessorSettings;
+  mode: ProcessorMode;
+  /** When set, the preview shows this timeline instant instead of easing toward `settings` */
+  timelineSample: TimelineSample | null;
+  timeline?: TimelineSequence;
+  /** Second image for interlace mode; its strips become the weft */
+  weftSrc?: string | null;
+  interlace?: InterlaceSettings;
+  /** Texture mode, when the weave is shown (and exported) as a repeating tile */
+  texture?: TextureSettings;
+  /** Tile choreography, replayed each time `choreographyRun` changes */
+  choreography?: ChoreographySettings;
+  choreographyRun?: number;
+  /** Manual swaps, when the tile inspector can be used */
+  inspector?: TileInspectorControls;
+  /** Why the manual swaps went away, until dismissed */
+  swapWarning?: string | null;
+  onDismissSwapWarning?: () => void;
   onReset: () => void;
 }
 
-const PreviewArea: React.FC<PreviewAreaProps> = ({ originalSrc, settings, onReset }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+const PreviewArea: React.FC<PreviewAreaProps> = ({
+  originalSrc,
+  settings: requestedSettings,
+  mode,
+  timelineSample,
+  timeline,
+  weftSrc = null,
+  interlace,
+  texture,
+  choreography,
+  choreographyRun = 0,
+  inspector,
+  swapWarning = null,
+  onDismissSwapWarning,
+  onReset,
+}) => {
+  const canvasHostRef = useRef<HTMLDivElement>(null);
+  const rendererRef = useRef<PreviewRenderer | null>(null);
+  const [backend, setBackend] = useState<RendererBackend | null>(null);
+  const [webgl, setWebgl] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Pending requestAnimationFrame id, or 0 while the loop sleeps
   const animationRef = useRef<number>(0);
+  const [showAnimationExport, setShowAnimationExport] = useState(false);
+  const [showImageExport, setShowImageExport] = useState(false);
+  const [inspecting, setInspecting] = useState(false);
+  const [compare, setCompare] = useState<CompareMode>('off');
+  const [showVerification, setShowVerification] = useState(false);
+  // Frames the loop finished on, so the pixel check reads back the one that stays on screen
+  const [finishedFrames, setFinishedFrames] = useState(0);
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+  // Large images are previewed on a proxy shrunk by this whole factor; settings stay in full-size pixels
+  const [previewScale, setPreviewScale] = useState(1);
+  // The same image as state, for the overlays that show or measure it
+  const [previewImage, setPreviewImage] = useState<HTMLImageElement | ImageBitmap | null>(null);
+
+  // A tile sort is found on the preview image once, so the loop, the inspector and the
+  // exports all share one order; the export lifts it from the proxy like everything else.
+  // An order restored from a file belongs to that file, so weaving always finds its own.
+  const sorting = mode === 'weave' && !!requestedSettings.sort;
+  const sortPixels = useMemo(
+    () => (sorting && previewImage ? readImagePixels(previewImage) : null),
+    [sorting, previewImage]
+  );
+  const settings = useMemo(() => {
+    const { sort } = requestedSettings;
+    if (!sortPixels || !sort) return requestedSettings;
+    return withTileOrder({ ...requestedSettings, sort: { ...sort, order: undefined } }, sortPixels, previewScale);
+  }, [requestedSettings, sortPixels, previewScale]);
   
   // We keep a "current" state for animation interpolation
   const currentSettingsRef = useRef<ProcessorSettings>({ ...settings });
   
+  // Latest props, read by the loop so waking it never needs a re-bind
+  const targetRef = useRef({ settings, mode, interlace, texture, choreography });
+  targetRef.current = { settings, mode, interlace, texture, choreography };
+  const timelineSampleRef = useRef<TimelineSample | null>(timelineSample);
+  timelineSampleRef.current = timelineSample;
+  // When the running choreography started (performance.now()), or null
+  const choreographyStartRef = useRef<number | null>(null);
+  
   // Persistent resources
-  const imageRef = useRef<HTMLImageElement | null>(null);
-  const tempCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // The image exports work from: the original, or its power-of-two texture source
+  const imageRef = useRef<SourceImage | null>(null);
+  const weftImageRef = useRef<HTMLImageElement | null>(null);
+  const previewImageRef = useRef<HTMLImageElement | ImageBitmap | null>(null);
+  const previewScaleRef = useRef(1);
+
+  const draw = (renderer: PreviewRenderer, frame: PreviewFrame) => {
+    const { texture } = targetRef.current;
+    const view = texture?.enabled
+      ? { repeatX: texture.repeatX, repeatY: texture.repeatY, offset: texture.offset }
+      : undefined;
+    renderer.render(toProxyFrame({ ...frame, texture: view }, previewScaleRef.current));
+  };
+
+  // One step of the render loop. It keeps scheduling itself only while the eased
+  // settings are still moving, so a settled preview costs no CPU or GPU at all.
+  const step = () => {
+    animationRef.current = 0;
+    const renderer = rendererRef.current;
+    const img = previewImageRef.current;
+    // Whatever is missing wakes the loop again once it arrives
+    if (!renderer || !img) return;
+
+    const { settings: target, mode, interlace, choreography } = targetRef.current;
+    const sample = timelineSampleRef.current;
+    if (mode === 'interlace') {
+      draw(renderer, { mode, settings: target, sample: null, interlace });
+      return;
+    }
+    const started = choreographyStartRef.current;
+    if (started !== null && choreography && mode === 'weave' && !sample) {
+      // The tiles fly to the target itself, so the eased settings land there too
+      const progress = Math.min(1, (performance.now() - started) / (choreography.duration * 1000));
+      currentSettingsRef.current = { ...target };
+      draw(renderer, { mode, settings: target, sample: null, choreography: { settings: choreography, progress } });
+      if (progress < 1) animationRef.current = requestAnimationFrame(step);
+      else {
+        choreographyStartRef.current = null;
+        setFinishedFrames((n) => n + 1);
+      }
+      return;
+    }
+    choreographyStartRef.current = null;
+    if (sample) {
+      // The timeline drives the settings directly; keep the lerp state in step
+      // so leaving the timeline eases from where playback stopped
+      currentSettingsRef.current = { ...sample.settings };
+      draw(renderer, { mode, settings: sample.settings, sample });
+      setFinishedFrames((n) => n + 1);
+      return;
+    }
+
+    // LERP logic for smooth transitions
+    // We interpolate numeric values. For enums (pattern), we switch instantly.
+    const current = currentSettingsRef.current;
+    // Intermediate inverse states are meaningless, so unweave jumps straight to the target
+    const passesSettled = (target.passes ?? []).every((pass) => {
+      const now = current.passes?.find((p) => p.id === pass.id);
+      return (
+        !now ||
+        (PASS_EASED_KEYS.every((key) => Math.abs(now[key] - pass[key]) < SETTLE_EPSILON) &&
+          settledOptional(now.tileHeight, pass.tileHeight))
+      );
+    });
+    const settled =
+      mode === 'unweave' ||
+      (passesSettled &&
+        settledOptional(current.tileHeight, target.tileHeight) &&
+        EASED_KEYS.every((key) => Math.abs(current[key] - target[key]) < SETTLE_EPSILON));
+    for (const key of EASED_KEYS) {
+      current[key] = settled ? target[key] : current[key] + (target[key] - current[key]) * EASE_RATE;
+    }
+    // A height set on one side only snaps straight to the target
+    current.tileHeight = settled ? target.tileHeight : lerpOptional(current.tileHeight, target.tileHeight, EASE_RATE);
+    // Passes added, removed or re-patterned switch at once; their numbers ease like the rest
+    current.passes = blendPasses(current.passes, target.passes, settled ? 1 : EASE_RATE);
+    
+    // Instant switches
+    current.pattern = target.pattern;
+    current.draft = target.draft;
+    current.seed = target.seed;
+    current.turns = target.turns;
+    current.tileShape = target.tileShape;
+    current.blendMode = target.blendMode;
+    current.swaps = target.swaps;
+    current.sort = target.sort;
+
+    // Apply render (the renderer drops this frame if a newer one overtakes it)
+    draw(renderer, { mode, settings: { ...current }, sample: null });
+    if (!settled) animationRef.current = requestAnimationFrame(step);
+    else setFinishedFrames((n) => n + 1);
+  };
 
-  // Initialize helper canvas once
+  const snapshotPreview = useCallback(
+    () => rendererRef.current?.snapshot() ?? Promise.reject(new Error('The preview is not ready')),
+    []
+  );
+
+  const wake = () => {
+    if (animationRef.current === 0) animationRef.current = requestAnimationFrame(step);
+  };
+
+  // The preview canvas is created here rather than in JSX: once transferred to
+  // the render worker it can never be transferred again, and StrictMode mounts twice
+  const hasImage = !!originalSrc;
   useEffect(() => {
-    tempCanvasRef.current = document.createElement('canvas');
+    const host = canvasHostRef.current;
+    if (!host) return;
+    const canvas = document.createElement('canvas');
+    canvas.className = 'max-w-full max-h-[80vh] object-contain shadow-2xl';
+    host.appendChild(canvas);
+    setCanvas(canvas);
+
+    const renderer = createPreviewRenderer(canvas);
+    rendererRef.current = renderer;
+    setBackend(renderer.backend);
+    setWebgl(false);
+    let live = true;
+    renderer.webgl.then((enabled) => live && setWebgl(enabled));
+    if (previewImageRef.current) renderer.setImage(previewImageRef.current);
+    if (weftImageRef.current) renderer.setWeft(weftImageRef.current);
+    wake();
+
     return () => {
-      if (tempCanvasRef.current) tempCanvasRef.current.remove();
+      live = false;
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = 0;
+      renderer.dispose();
+      rendererRef.current = null;
+      canvas.remove();
+      setCanvas(null);
     };
-  }, []);
+  }, [hasImage]);
+
+  const textureSourceKey =
+    texture?.enabled && texture.resize !== 'none' ? `${texture.resize}:${texture.width}x${texture.height}` : '';
 
   // Load image
   useEffect(() => {
     if (originalSrc) {
       const img = new Image();
       img.src = originalSrc;
-      img.onload = () => {
-        imageRef.current = img;
-        // Reset animation state to "zero" effect to show entrance animation
-        currentSettingsRef.current = {
-            ...settings,
-            horizontalShift: 0,
-            verticalShift: 0,
-            scatterIntensity: 0
-        };
+      let cancelled = false;
+      img.onload = async () => {
+        // Texture sizing happens to the source, before anything is woven
+        const source = texture?.enabled ? await prepareTextureSource(img, texture) : img;
+        const scale = getPreviewScale(source.width, source.height);
+        const preview = scale > 1 ? await createPreviewProxy(source, scale) : source;
+        if (cancelled) return;
+        imageRef.current = source;
+        previewImageRef.current = preview;
+        previewScaleRef.current = scale;
+        setPreviewScale(scale);
+        setPreviewImage(preview);
+        rendererRef.current?.setImage(preview);
+        const { settings, mode } = targetRef.current;
+        // Intermediate inverse states are meaningless, so unweave starts at the target
+        if (mode === 'unweave') {
+          currentSettingsRef.current = { ...settings };
+        } else {
+          // Reset animation state to "zero" effect to show entrance animation
+          currentSettingsRef.current = {
+              ...settings,
+              horizontalShift: 0,
+              verticalShift: 0,
+              scatterIntensity: 0
+          };
+        }
+        wake();
+      };
+      return () => {
+        cancelled = true;
       };
-    } else {
-      imageRef.current = null;
     }
-  }, [originalSrc]); // Only reload if src string changes
+    imageRef.current = null;
+    previewImageRef.current = null;
+    setPreviewImage(null);
+    // Only reload if the src string or the texture sizing changes
+  }, [originalSrc, textureSourceKey]);
 
-  // Animation Loop
+  // Load the weft image for interlace mode
   useEffect(() => {
-    const render = () => {
-      const canvas = canvasRef.current;
-      const img = imageRef.current;
-      const tempCanvas = tempCanvasRef.current;
-
-      if (canvas && img && tempCanvas) {
-        const ctx = canvas.getContext('2d', { alpha: false });
-        if (ctx) {
-          // LERP logic for smooth transitions
-          // We interpolate numeric values. For enums (pattern), we switch instantly.
-          const target = settings;
-          const current = currentSettingsRef.current;
-          
-          // Interpolation factor (speed)
-          const t = 0.1; 
-
-          // Lerp helper
-          const lerp = (a: number, b: number) => a + (b - a) * t;
-
-          // Update current state towards target
-          current.horizontalShift = lerp(current.horizontalShift, target.horizontalShift);
-          current.verticalShift = lerp(current.verticalShift, target.verticalShift);
-          current.scatterIntensity = lerp(current.scatterIntensity, target.scatterIntensity);
-          current.tileSize = lerp(current.tileSize, target.tileSize);
-          
-          // Instant switches
-          current.pattern = target.pattern;
-          current.seed = target.seed;
-
-          // Apply render
-          renderWeave(ctx, img, current, tempCanvas);
-        }
-      }
-      
-      animationRef.current = requestAnimationFrame(render);
+    weftImageRef.current = null;
+    rendererRef.current?.setWeft(null);
+    if (!weftSrc) return;
+    const img = new Image();
+    img.src = weftSrc;
+    // A slow load of an earlier weft must not replace the current one
+    let cancelled = false;
+    img.onload = () => {
+      if (cancelled) return;
+      weftImageRef.current = img;
+      rendererRef.current?.setWeft(img);
+      wake();
     };
-
-    animationRef.current = requestAnimationFrame(render);
-
     return () => {
-      cancelAnimationFrame(animationRef.current);
+      cancelled = true;
     };
-  }, [settings, originalSrc]); // Re-bind loop if dependencies change, but mostly relies on refs
-
-  const handleDownload = () => {
-    if (canvasRef.current) {
-      const link = document.createElement('a');
-      link.download = `woven-mosaic-${Date.now()}.png`;
-      link.href = canvasRef.current.toDataURL('image/png');
-      link.click();
-    }
-  };
+  }, [weftSrc]);
+
+  // Side by side, the preview gives up half the width to the original
+  const comparing = compare !== 'off' && !texture?.enabled && !!previewImage;
+  const sideBySide = comparing && compare === 'side';
+  useEffect(() => {
+    if (canvas) canvas.style.maxWidth = sideBySide ? 'calc(50% - 0.5rem)' : '';
+  }, [canvas, sideBySide]);
+
+  // Only a new run plays, not whatever run was last when the preview mounted
+  const choreographyRunRef = useRef(choreographyRun);
+  useEffect(() => {
+    if (choreographyRun === choreographyRunRef.current) return;
+    choreographyRunRef.current = choreographyRun;
+    choreographyStartRef.current = performance.now();
+    wake();
+  }, [choreographyRun]);
+
+  // Wake the loop whenever there is something new to draw
+  useEffect(() => {
+    wake();
+  }, [settings, mode, interlace, timelineSample, texture]);
 
   if (!originalSrc) {
      return (
@@ -120,7 +367,9 @@ const PreviewArea: React.FC<PreviewAreaProps> = ({ originalSrc, settings, onRese
       <div className="flex justify-between items-center bg-slate-800/50 p-4 rounded-lg border border-slate-700">
         <div className="flex items-center gap-3">
             <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse"></div>
-            <h3 className="font-semibold text-slate-200">Live Render</h3>
+            <h3 className="font-semibold text-slate-200">
+              {{ weave: 'Live Render', unweave: 'Unweave Render', interlace: 'Interlace Render' }[mode]}
+            </h3>
         </div>
         <div className="flex gap-2">
            <button
@@ -130,8 +379,47 @@ const PreviewArea: React.FC<PreviewAreaProps> = ({ originalSrc, settings, onRese
             <X className="w-4 h-4" />
             Reset
           </button>
+          {inspector && (
+            <button
+              onClick={() => {
+                setInspecting(!inspecting);
+                setCompare('off');
+              }}
+              disabled={!!timelineSample}
+              title="Hover a tile to see where it came from; drag it onto another to swap them"
+              className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors disabled:opacity-40 ${
+                inspecting && !timelineSample
+                  ? 'bg-cyan-500/20 text-cyan-300'
+                  : 'text-slate-300 bg-slate-700/60 hover:bg-slate-700'
+              }`}
+            >
+              <MousePointerClick className="w-4 h-4" />
+              Inspect
+            </button>
+          )}
+          {mode === 'weave' && (
+            <button
+              onClick={() => setShowAnimationExport(true)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-300 bg-slate-700/60 hover:bg-slate-700 rounded-md transition-colors"
+            >
+              <Film className="w-4 h-4" />
+              Export Animation
+            </button>
+          )}
+          {mode !== 'interlace' && (
+            <button
+              onClick={() => setShowVerification(!showVerification)}
+              title="Check that every pixel of the source is still there, once"
+              className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                showVerification ? 'bg-cyan-500/20 text-cyan-300' : 'text-slate-300 bg-slate-700/60 hover:bg-slate-700'
+              }`}
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Verify
+            </button>
+          )}
           <button
-            onClick={handleDownload}
+            onClick={() => setShowImageExport(true)}
             className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-medium rounded-md shadow-lg shadow-cyan-900/20 transition-all hover:scale-105 active:scale-95"
           >
             <Download className="w-4 h-4" />
@@ -140,17 +428,120 @@ const PreviewArea: React.FC<PreviewAreaProps> = ({ originalSrc, settings, onRese
         </div>
       </div>
 
-      <div className="relative group w-full flex-1 min-h-[400px] bg-slate-900 rounded-xl border border-slate-700 overflow-hidden shadow-2xl flex items-center justify-center">
+      {!texture?.enabled && (
+        <div className="flex items-center gap-2 -mt-3 text-xs text-slate-400">
+          <span>Compare</span>
+          {COMPARE_MODES.map(({ id, label, hint }) => (
+            <button
+              key={id}
+              onClick={() => {
+                setCompare(id);
+                if (id !== 'off') setInspecting(false);
+              }}
+              title={hint}
+              className={`px-2.5 py-1 rounded border transition-colors ${
+                compare === id
+                  ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div
+        className={`relative group w-full flex-1 min-h-[400px] bg-slate-900 rounded-xl border border-slate-700 overflow-hidden shadow-2xl flex items-center justify-center ${
+          sideBySide ? 'gap-4' : ''
+        }`}
+      >
+        {sideBySide && previewImage && (
+          <BeforeCanvas
+            image={previewImage}
+            className="max-w-[calc(50%-0.5rem)] max-h-[80vh] object-contain shadow-2xl"
+          />
+        )}
         {/* Canvas is centered and contained */}
-        <canvas 
-            ref={canvasRef}
-            className="max-w-full max-h-[80vh] object-contain shadow-2xl"
-        />
+        <div ref={canvasHostRef} className="contents" />
+
+        {comparing && !sideBySide && canvas && previewImage && (
+          <CompareOverlay
+            canvas={canvas}
+            image={previewImage}
+            mode={compare === 'split' ? 'split' : 'wipe'}
+            labels={COMPARE_LABELS[mode]}
+          />
+        )}
         
         <div className="absolute top-4 left-4 bg-black/60 backdrop-blur px-3 py-1.5 rounded-full text-xs font-mono text-cyan-400 border border-white/10 flex items-center gap-2">
             <span className="w-1.5 h-1.5 rounded-full bg-cyan-400"></span>
-            WEBGL-LIKE CANVAS
+            {webgl ? 'WEBGL2' : 'CANVAS 2D'} · {backend === 'worker' ? 'WORKER' : 'MAIN THREAD'}
+            {previewScale > 1 && (
+              <span title={`Previewing a proxy shrunk ${previewScale}×; tiles and shifts snap to ${previewScale}px steps and the export renders at full size`}>· PROXY 1/{previewScale}</span>
+            )}
+            {texture?.enabled && (
+              <span>
+                · TEXTURE {texture.repeatX}×{texture.repeatY}
+                {texture.offset ? ' OFFSET' : ''}
+              </span>
+            )}
+            {mode !== 'interlace' && settings.swaps && <span>· {settings.swaps.pairs.length} SWAPPED</span>}
         </div>
+
+        {inspector && inspecting && !timelineSample && previewImage && (
+          <TileInspector
+            canvas={canvas}
+            width={previewImage.width}
+            height={previewImage.height}
+            scale={previewScale}
+            settings={settings}
+            controls={inspector}
+          />
+        )}
+
+        {swapWarning && (
+          <div className="absolute bottom-4 left-4 max-w-md flex items-center gap-2 bg-amber-950/80 backdrop-blur px-3 py-2 rounded-lg border border-amber-700/60 text-xs text-amber-200">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span className="flex-1">{swapWarning}</span>
+            <button onClick={onDismissSwapWarning} className="p-0.5 rounded hover:bg-amber-900" title="Dismiss">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
+        {showVerification && mode !== 'interlace' && (
+          <VerificationPanel
+            image={previewImage}
+            scale={previewScale}
+            settings={timelineSample?.settings ?? settings}
+            mode={mode}
+            frame={finishedFrames}
+            snapshot={snapshotPreview}
+            onClose={() => setShowVerification(false)}
+          />
+        )}
+
+        {showImageExport && (
+          <ImageExportPanel
+            image={imageRef.current}
+            weft={weftImageRef.current}
+            mode={mode}
+            settings={settings}
+            interlace={interlace}
+            texture={texture?.enabled ? texture : undefined}
+            onClose={() => setShowImageExport(false)}
+          />
+        )}
+
+        {showAnimationExport && (
+          <AnimationExportPanel
+            image={imageRef.current}
+            settings={settings}
+            timeline={timeline}
+            onClose={() => setShowAnimationExport(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Grid2X2 } from 'lucide-react';
+import { ImageDimensions, TextureResize, TextureSettings } from '../types';
+import { getTextureSize, MAX_REPEAT, TEXTURE_SIDES } from '../utils/texture';
+
+interface TexturePanelProps {
+  texture: TextureSettings;
+  setTexture: React.Dispatch<React.SetStateAction<TextureSettings>>;
+  imageDimensions: ImageDimensions | null;
+}
+
+const RESIZES: { id: TextureResize; label: string; hint: string }[] = [
+  { id: 'none', label: 'As is', hint: 'Keep the image size' },
+  { id: 'crop', label: 'Crop', hint: 'Cut the centre of the image to power-of-two sides' },
+  { id: 'resample', label: 'Resample', hint: 'Scale the whole image to power-of-two sides' },
+];
+
+const optionClass = (active: boolean) =>
+  `flex-1 px-2 py-1.5 text-xs font-medium rounded border transition-colors ${
+    active
+      ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+  }`;
+
+const Slider: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <label className="block space-y-1">
+    <div className="flex justify-between text-xs text-slate-400">
+      <span>{label}</span>
+      <span className="font-mono text-cyan-400">{value}</span>
+    </div>
+    <input
+      type="range"
+      min={1}
+      max={MAX_REPEAT}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+    />
+  </label>
+);
+
+const SideSelect: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <label className="flex-1 space-y-1">
+    <span className="text-xs text-slate-400">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full px-2 py-1 text-xs bg-slate-800 border border-slate-700 rounded text-slate-200"
+    >
+      <option value={0}>Nearest</option>
+      {TEXTURE_SIDES.map((side) => (
+        <option key={side} value={side}>
+          {side}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const TexturePanel: React.FC<TexturePanelProps> = ({ texture, setTexture, imageDimensions }) => {
+  const set = <K extends keyof TextureSettings>(key: K, value: TextureSettings[K]) =>
+    setTexture((prev) => ({ ...prev, [key]: value }));
+  const size = imageDimensions && getTextureSize(imageDimensions.width, imageDimensions.height, texture);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-cyan-400">
+          <Grid2X2 className="w-4 h-4" />
+          <h3 className="text-sm font-bold tracking-wide uppercase">Texture</h3>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={texture.enabled}
+            onChange={(e) => set('enabled', e.target.checked)}
+            className="accent-cyan-500"
+          />
+          Repeat as a tile
+        </label>
+      </div>
+
+      {texture.enabled && (
+        <>
+          <div className="space-y-3">
+            <Slider label="Repeat across" value={texture.repeatX} onChange={(v) => set('repeatX', v)} />
+            <Slider label="Repeat down" value={texture.repeatY} onChange={(v) => set('repeatY', v)} />
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={texture.offset}
+                onChange={(e) => set('offset', e.target.checked)}
+                className="accent-cyan-500"
+              />
+              Offset by half a tile, putting the seams in the centre
+            </label>
+          </div>
+
+          <div className="space-y-1.5">
+            <span className="text-xs text-slate-400">Power-of-two size</span>
+            <div className="flex gap-2">
+              {RESIZES.map((r) => (
+                <button key={r.id} onClick={() => set('resize', r.id)} title={r.hint} className={optionClass(texture.resize === r.id)}>
+                  {r.label}
+                </button>
+              ))}
+            </div>
+            {texture.resize !== 'none' && (
+              <div className="flex gap-2">
+                <SideSelect label="Width" value={texture.width} onChange={(v) => set('width', v)} />
+                <SideSelect label="Height" value={texture.height} onChange={(v) => set('height', v)} />
+              </div>
+            )}
+            {size && (
+              <p className="text-[11px] text-slate-500 font-mono">
+                Tile: {size.width}x{size.height}px
+              </p>
+            )}
+          </div>
+
+          <p className="text-[11px] text-slate-500">
+            The weave wraps around every edge, so it adds no seams of its own; any that show come from the source image.
+            Sizing happens before the weave, so the woven tile still wraps.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TexturePanel;
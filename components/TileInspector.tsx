@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from 'react';
+import { Eraser, Undo2 } from 'lucide-react';
+import { ProcessorSettings, TileSwaps } from '../types';
+import { resolveDraft } from '../utils/drafts';
+import { sizeClass } from '../utils/scatter';
+import { scaleSettings } from '../utils/transition';
+import { cellAt, getCellBounds, getCellCorner, getCellOutline, getTileLayout, TileLayout } from '../utils/tileLayout';
+import { getPixelSources, getShiftFactors, getTileGrid } from '../utils/weaveCore';
+
+/** Manual swaps and their history, owned by the app so they outlive the preview. */
+export interface TileInspectorControls {
+  swaps: TileSwaps | null;
+  /** Cells `a` and `b` of a `cols`×`rows` grid, dragged onto each other */
+  onSwap: (a: number, b: number, cols: number, rows: number) => void;
+  onUndo: () => void;
+  canUndo: boolean;
+  onClear: () => void;
+}
+
+interface TileInspectorProps {
+  /** The preview canvas the overlay lines up with */
+  canvas: HTMLCanvasElement | null;
+  /** Size of the image the preview weaves, the proxy for a large one */
+  width: number;
+  height: number;
+  /** Proxy factor; coordinates are shown in full-size pixels */
+  scale: number;
+  /** Full-size settings, swaps included */
+  settings: ProcessorSettings;
+  controls: TileInspectorControls;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const DROP_HINTS: Record<TileLayout['shape'], string> = {
+  rect: 'Edge tiles only swap with tiles of the same size',
+  brick: 'Clipped edge bricks stay where they are',
+  hex: 'Clipped edge hexagons stay where they are',
+  triangle: 'Triangles only swap with whole ones pointing the same way',
+};
+
+const formatFactor = (factor: number) => `${factor > 0 ? '+' : ''}${factor}`;
+
+// Hover shows where a tile came from; dragging one tile onto another of the same
+// size and shape swaps them. Everything works on the grid the preview weaves, like the swaps.
+const TileInspector: React.FC<TileInspectorProps> = ({ canvas, width, height, scale, settings, controls }) => {
+  const [box, setBox] = useState<Box | null>(null);
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+
+  const proxySettings = scaleSettings(settings, 1 / scale);
+  const layout = getTileLayout(width, height, proxySettings);
+  const grid = getTileGrid(width, height, proxySettings);
+  const settingsKey = JSON.stringify(proxySettings);
+  const sources = useMemo(() => getPixelSources(width, height, proxySettings), [width, height, settingsKey]);
+  const draft = useMemo(() => resolveDraft(settings), [settings.pattern, settings.draft]);
+
+  const cellOf = (point: { x: number; y: number }) => cellAt(layout, point.x, point.y);
+  const sameSize = (a: number, b: number) =>
+    sizeClass(a % grid.cols, Math.floor(a / grid.cols), grid) === sizeClass(b % grid.cols, Math.floor(b / grid.cols), grid);
+
+  // The canvas is scaled to fit, so the overlay is re-measured on every move
+  const locate = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canvas) return null;
+    const bounds = canvas.getBoundingClientRect();
+    const host = e.currentTarget.getBoundingClientRect();
+    setBox({ left: bounds.left - host.left, top: bounds.top - host.top, width: bounds.width, height: bounds.height });
+    const x = Math.floor(((e.clientX - bounds.left) / bounds.width) * width);
+    const y = Math.floor(((e.clientY - bounds.top) / bounds.height) * height);
+    return x >= 0 && y >= 0 && x < width && y < height ? { x, y } : null;
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLDivElement>) => setPointer(locate(e));
+
+  const handleDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = locate(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragFrom(cellOf(point));
+  };
+
+  const handleUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = locate(e);
+    if (point && dragFrom !== null) {
+      const target = cellOf(point);
+      if (target !== dragFrom && sameSize(dragFrom, target)) controls.onSwap(dragFrom, target, grid.cols, grid.rows);
+    }
+    setDragFrom(null);
+  };
+
+  const hovered = pointer ? cellOf(pointer) : null;
+  const cell = hovered !== null ? getCellBounds(layout, hovered) : null;
+  // Shifts move whole bands of pixels, so a tile's origin is where its first pixel came from
+  const corner = hovered !== null ? getCellCorner(layout, hovered) : null;
+  const origin = corner && sources[corner[1] * width + corner[0]];
+  const dx = corner && origin !== null ? (origin % width) - corner[0] : 0;
+  const dy = corner && origin !== null ? Math.floor(origin / width) - corner[1] : 0;
+  const pixelSource = pointer && sources[pointer.y * width + pointer.x];
+  const dropAllowed = hovered !== null && dragFrom !== null && hovered !== dragFrom && sameSize(dragFrom, hovered);
+  const swapped =
+    hovered !== null && !!controls.swaps?.pairs.some(([a, b]) => a === hovered || b === hovered);
+  const count = controls.swaps?.pairs.length ?? 0;
+
+  return (
+    <div
+      className={`absolute inset-0 ${dragFrom !== null ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+      onPointerMove={handleMove}
+      onPointerDown={handleDown}
+      onPointerUp={handleUp}
+      onPointerLeave={() => dragFrom === null && setPointer(null)}
+    >
+      {box && cell && hovered !== null && origin !== null && (
+        <svg
+          className="absolute pointer-events-none"
+          style={box}
+          viewBox={`0 0 ${width} ${height}`}
+          preserveAspectRatio="none"
+        >
+          <polygon
+            points={getCellOutline(layout, hovered, dx, dy)}
+            fill="rgba(245, 158, 11, 0.15)"
+            stroke="#f59e0b"
+            strokeDasharray="4 3"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+          <line
+            x1={cell.x + cell.width / 2}
+            y1={cell.y + cell.height / 2}
+            x2={cell.x + dx + cell.width / 2}
+            y2={cell.y + dy + cell.height / 2}
+            stroke="#f59e0b"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+          {dragFrom !== null && (
+            <polygon
+              points={getCellOutline(layout, dragFrom)}
+              fill="rgba(34, 211, 238, 0.2)"
+              stroke="#22d3ee"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          <polygon
+            points={getCellOutline(layout, hovered)}
+            fill="none"
+            stroke={dragFrom === null || dropAllowed || hovered === dragFrom ? '#22d3ee' : '#f87171'}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      )}
+
+      {box && pointer && cell && origin !== null && pixelSource !== null && hovered !== null && (
+        <div
+          className="absolute pointer-events-none bg-black/80 backdrop-blur px-3 py-2 rounded-lg border border-white/10 text-[11px] font-mono text-slate-300 space-y-0.5 whitespace-nowrap"
+          style={{
+            left: box.left + ((pointer.x + 1) / width) * box.width + 12,
+            top: box.top + ((pointer.y + 1) / height) * box.height + 12,
+          }}
+        >
+          <p className="text-cyan-400">
+            Tile {hovered % grid.cols}, {Math.floor(hovered / grid.cols)}
+            {swapped && <span className="text-amber-400"> · swapped by hand</span>}
+          </p>
+          <p>
+            From {(origin % width) * scale}, {Math.floor(origin / width) * scale}
+          </p>
+          <p>
+            Pixel {pointer.x * scale}, {pointer.y * scale} ← {(pixelSource % width) * scale},{' '}
+            {Math.floor(pixelSource / width) * scale}
+          </p>
+          <p className="text-slate-500">
+            Weft {formatFactor(getShiftFactors(0, Math.floor(hovered / grid.cols), draft).xFactor)} · Warp{' '}
+            {formatFactor(getShiftFactors(hovered % grid.cols, 0, draft).yFactor)}
+          </p>
+          {dragFrom !== null && hovered !== dragFrom && !dropAllowed && (
+            <p className="text-red-400">{DROP_HINTS[layout.shape]}</p>
+          )}
+        </div>
+      )}
+
+      <div
+        className="absolute top-4 right-4 flex items-center gap-2 bg-black/60 backdrop-blur px-3 py-1.5 rounded-full text-xs text-slate-300 border border-white/10"
+        onPointerDown={(e) => e.stopPropagation()}
+        onPointerUp={(e) => e.stopPropagation()}
+      >
+        <span className="font-mono">
+          {count} swap{count === 1 ? '' : 's'}
+        </span>
+        <button
+          onClick={controls.onUndo}
+          disabled={!controls.canUndo}
+          title="Undo the last swap"
+          className="p-1 rounded hover:bg-slate-700 disabled:opacity-40"
+        >
+          <Undo2 className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={controls.onClear}
+          disabled={count === 0}
+          title="Put every tile back where the weave placed it"
+          className="p-1 rounded hover:bg-slate-700 disabled:opacity-40"
+        >
+          <Eraser className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TileInspector;
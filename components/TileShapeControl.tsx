@@ -0,0 +1,90 @@
+import React from 'react';
+import { BrickWall, Hexagon, Shapes, Square, Triangle } from 'lucide-react';
+import { TileShape } from '../types';
+import { getTileDimensions, TileSpec } from '../utils/tileLayout';
+
+interface TileShapeControlProps {
+  tiles: TileSpec;
+  onChange: (change: Partial<TileSpec>) => void;
+  disabled?: boolean;
+}
+
+const SHAPES: { id: TileShape; label: string; hint: string; Icon: typeof Square }[] = [
+  { id: 'rect', label: 'Grid', hint: 'Rows and columns of rectangles', Icon: Square },
+  { id: 'brick', label: 'Brick', hint: 'Every other row offset by half a tile', Icon: BrickWall },
+  { id: 'hex', label: 'Hex', hint: 'Hexagons; a column zigzags down the rows', Icon: Hexagon },
+  { id: 'triangle', label: 'Triangle', hint: 'Rows of triangles pointing up and down in turn', Icon: Triangle },
+];
+
+const optionClass = (active: boolean) =>
+  `flex flex-col items-center gap-0.5 px-1 py-1.5 text-[11px] font-medium rounded border transition-colors ${
+    active
+      ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+  } disabled:opacity-50`;
+
+/** Picks a pass's tile shape and optional tile height; shared by the Weave Matrix and the stack. */
+const TileShapeControl: React.FC<TileShapeControlProps> = ({ tiles, onChange, disabled }) => {
+  const shape = tiles.tileShape ?? 'rect';
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1.5 text-xs text-slate-400">
+        <Shapes className="w-3.5 h-3.5" />
+        <span>Tile shape</span>
+      </div>
+      <div className="grid grid-cols-4 gap-1.5">
+        {SHAPES.map(({ id, label, hint, Icon }) => (
+          <button
+            key={id}
+            onClick={() => onChange({ tileShape: id === 'rect' ? undefined : id })}
+            disabled={disabled}
+            title={hint}
+            className={optionClass(shape === id)}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-400">
+        <input
+          type="checkbox"
+          checked={tiles.tileHeight !== undefined}
+          // Starts from the height the tiles already have, so nothing jumps
+          onChange={(e) => onChange({ tileHeight: e.target.checked ? getTileDimensions(tiles).height : undefined })}
+          disabled={disabled}
+          className="accent-cyan-500"
+        />
+        Custom height
+      </label>
+      {tiles.tileHeight !== undefined && (
+        <label className="block space-y-1">
+          <div className="flex justify-between text-xs text-slate-400">
+            <span>Tile Height</span>
+            <span className="font-mono text-cyan-400">{Math.round(tiles.tileHeight)}px</span>
+          </div>
+          <input
+            type="range"
+            min="2"
+            max="200"
+            step="1"
+            value={tiles.tileHeight}
+            onChange={(e) => onChange({ tileHeight: Number(e.target.value) })}
+            disabled={disabled}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          />
+        </label>
+      )}
+
+      {shape !== 'rect' && (
+        <p className="text-[11px] text-slate-500 leading-relaxed">
+          {shape === 'triangle' ? 'Triangles trade places only with ones pointing the same way. ' : ''}
+          Shifts move whole tiles, snapped to the nearest one, and clipped edge tiles stay put. Previews on the CPU.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TileShapeControl;
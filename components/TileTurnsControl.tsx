@@ -0,0 +1,84 @@
+import React from 'react';
+import { RotateCw } from 'lucide-react';
+import { TileShape, TileTurns, TurnSet } from '../types';
+
+interface TileTurnsControlProps {
+  turns: TileTurns | undefined;
+  onChange: (turns: TileTurns | undefined) => void;
+  /** Hexagons and triangles don't turn into themselves, so their tiles are never turned */
+  shape?: TileShape;
+  disabled?: boolean;
+}
+
+const MODES: { id: TileTurns['by'] | 'off'; label: string; hint: string }[] = [
+  { id: 'off', label: 'Off', hint: 'Tiles are only moved' },
+  { id: 'pattern', label: 'Pattern', hint: "Each tile's place in the pattern repeat picks its turn" },
+  { id: 'seed', label: 'Seed', hint: 'The seed picks each tile a turn at random' },
+];
+
+const SETS: { id: TurnSet; label: string; hint: string }[] = [
+  { id: 'rotate', label: 'Rotate', hint: '0°, 90°, 180° and 270°' },
+  { id: 'mirror', label: 'Mirror', hint: 'Flipped left to right, top to bottom, or both' },
+  { id: 'all', label: 'All 8', hint: 'Every rotation, mirrored or not' },
+];
+
+const EDGE_NOTES: Partial<Record<TileShape, string>> = {
+  rect: "Tiles that aren't square, clipped edge tiles included, take a half turn where square ones take a quarter turn.",
+  brick: "Bricks that aren't square take a half turn where square ones take a quarter turn; clipped edge bricks stay put.",
+};
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 text-[11px] font-medium rounded border transition-colors disabled:opacity-50 ${
+    active
+      ? 'bg-purple-500/20 border-purple-500 text-purple-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+  }`;
+
+/** Picks how a pass turns and mirrors its tiles; shared by the Weave Matrix and the stack. */
+const TileTurnsControl: React.FC<TileTurnsControlProps> = ({ turns, onChange, shape = 'rect', disabled }) => {
+  const fixed = shape === 'hex' || shape === 'triangle';
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1.5 text-xs text-slate-400">
+        <RotateCw className="w-3.5 h-3.5" />
+        <span>Tile turns</span>
+      </div>
+      <div className="grid grid-cols-3 gap-1.5">
+        {MODES.map((m) => (
+          <button
+            key={m.id}
+            onClick={() => onChange(m.id === 'off' ? undefined : { by: m.id, set: turns?.set ?? 'rotate' })}
+            disabled={disabled}
+            title={m.hint}
+            className={optionClass((turns?.by ?? 'off') === m.id)}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {turns && (
+        <div className="grid grid-cols-3 gap-1.5">
+          {SETS.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => onChange({ ...turns, set: s.id })}
+              disabled={disabled}
+              title={s.hint}
+              className={optionClass(turns.set === s.id)}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {turns && fixed && (
+        <p className="text-[11px] text-slate-500">Hex and triangle tiles are only ever moved, never turned.</p>
+      )}
+      {turns && !fixed && turns.set !== 'mirror' && (
+        <p className="text-[11px] text-slate-500">{EDGE_NOTES[shape]}</p>
+      )}
+    </div>
+  );
+};
+
+export default TileTurnsControl;
@@ -0,0 +1,361 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Clock,
+  Play,
+  Pause,
+  Square,
+  Repeat,
+  Plus,
+  Trash2,
+  Download,
+  Upload,
+  ArrowDownToLine,
+  ArrowUpFromLine,
+} from 'lucide-react';
+import { EasingKind, Keyframe, PatternHandoff, ProcessorSettings, TimelineSequence } from '../types';
+import {
+  createKeyframe,
+  MAX_TIMELINE_DURATION,
+  parseTimeline,
+  serializeTimeline,
+  sortKeyframes,
+} from '../utils/timeline';
+
+interface TimelinePanelProps {
+  sequence: TimelineSequence;
+  setSequence: React.Dispatch<React.SetStateAction<TimelineSequence>>;
+  /** Seconds, or null when the preview follows the sliders instead of the timeline */
+  playhead: number | null;
+  setPlayhead: React.Dispatch<React.SetStateAction<number | null>>;
+  settings: ProcessorSettings;
+  onLoadSettings: (settings: ProcessorSettings) => void;
+}
+
+const EASINGS: { id: EasingKind; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'ease-in-out', label: 'Ease in-out' },
+  { id: 'cubic-bezier', label: 'Cubic bezier' },
+  { id: 'step', label: 'Step' },
+];
+
+const HANDOFFS: { id: PatternHandoff; label: string }[] = [
+  { id: 'cut', label: 'Cut' },
+  { id: 'crossfade', label: 'Crossfade' },
+  { id: 'stagger', label: 'Stagger' },
+];
+
+const inputClass = 'px-2 py-1 font-mono text-xs bg-slate-800 border border-slate-700 rounded text-slate-200';
+const iconButtonClass =
+  'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-40';
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  sequence,
+  setSequence,
+  playhead,
+  setPlayhead,
+  settings,
+  onLoadSettings,
+}) => {
+  const [playing, setPlaying] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { duration, loop, keyframes } = sequence;
+  const selected = keyframes.find((k) => k.id === selectedId) ?? null;
+
+  // The clock reads the playhead when playback starts, without restarting on every tick
+  const playheadRef = useRef(playhead);
+  playheadRef.current = playhead;
+
+  // Playback clock
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    let position = playheadRef.current ?? 0;
+    const tick = (now: number) => {
+      position += (now - last) / 1000;
+      last = now;
+      if (position >= duration) {
+        if (!loop) {
+          setPlayhead(duration);
+          setPlaying(false);
+          return;
+        }
+        position %= duration;
+      }
+      setPlayhead(position);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, duration, loop, setPlayhead]);
+
+  const updateKeyframe = (id: string, patch: Partial<Keyframe>) => {
+    setSequence((prev) => ({
+      ...prev,
+      keyframes: sortKeyframes(prev.keyframes.map((k) => (k.id === id ? { ...k, ...patch } : k))),
+    }));
+  };
+
+  const handleAddKeyframe = () => {
+    const time = Math.min(duration, playhead ?? 0);
+    const keyframe = createKeyframe(time, settings);
+    setSequence((prev) => ({
+      ...prev,
+      // One keyframe per instant: replace any that sits at the same time
+      keyframes: sortKeyframes([...prev.keyframes.filter((k) => Math.abs(k.time - time) > 1e-3), keyframe]),
+    }));
+    setSelectedId(keyframe.id);
+    setPlayhead(time);
+  };
+
+  const handleDeleteKeyframe = (id: string) => {
+    setSequence((prev) => ({ ...prev, keyframes: prev.keyframes.filter((k) => k.id !== id) }));
+    setSelectedId(null);
+  };
+
+  const scrubTo = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const t = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    setPlayhead(t * duration);
+  };
+
+  const handleTrackPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    setPlaying(false);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    scrubTo(e.clientX);
+  };
+
+  const handleTrackPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) scrubTo(e.clientX);
+  };
+
+  const handleStop = () => {
+    setPlaying(false);
+    setPlayhead(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializeTimeline(sequence)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.download = `weave-timeline-${Date.now()}.json`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setSequence(parseTimeline(await file.text()));
+      setSelectedId(null);
+      setPlayhead(0);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this timeline');
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-cyan-400">
+          <Clock className="w-4 h-4" />
+          <h3 className="text-sm font-bold tracking-wide uppercase">Timeline</h3>
+          <span className="text-xs font-mono text-slate-500">
+            {(playhead ?? 0).toFixed(2)}s / {duration}s
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => {
+              if (playhead === null || playhead >= duration) setPlayhead(0);
+              setPlaying((p) => !p);
+            }}
+            disabled={keyframes.length === 0}
+            className={iconButtonClass}
+            title={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button onClick={handleStop} disabled={playhead === null} className={iconButtonClass} title="Stop and return to the sliders">
+            <Square className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setSequence((prev) => ({ ...prev, loop: !prev.loop }))}
+            className={`${iconButtonClass} ${loop ? 'text-cyan-400' : ''}`}
+            title="Loop"
+          >
+            <Repeat className="w-4 h-4" />
+          </button>
+          <label className="flex items-center gap-1 ml-2 text-xs text-slate-400">
+            Length
+            <input
+              type="number"
+              min="0.5"
+              max={MAX_TIMELINE_DURATION}
+              step="0.5"
+              value={duration}
+              onChange={(e) => {
+                const value = Math.max(0.5, Math.min(MAX_TIMELINE_DURATION, Number(e.target.value) || 0.5));
+                setSequence((prev) => ({
+                  ...prev,
+                  duration: value,
+                  keyframes: prev.keyframes.map((k) => ({ ...k, time: Math.min(k.time, value) })),
+                }));
+              }}
+              className={`${inputClass} w-16`}
+            />
+          </label>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Import sequence">
+            <Upload className="w-4 h-4" />
+          </button>
+          <button onClick={handleExport} disabled={keyframes.length === 0} className={iconButtonClass} title="Export sequence">
+            <Download className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Track */}
+      <div className="flex items-center gap-3">
+        <div
+          ref={trackRef}
+          onPointerDown={handleTrackPointerDown}
+          onPointerMove={handleTrackPointerMove}
+          className="relative flex-1 h-10 rounded-lg bg-slate-900 border border-slate-700 cursor-pointer select-none touch-none"
+        >
+          {keyframes.map((k) => (
+            <button
+              key={k.id}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                setSelectedId(k.id);
+                setPlaying(false);
+                setPlayhead(k.time);
+              }}
+              title={`${k.time.toFixed(2)}s · ${k.settings.pattern}`}
+              className={`absolute top-1/2 w-3 h-3 -translate-x-1/2 -translate-y-1/2 rotate-45 border ${
+                k.id === selectedId ? 'bg-cyan-400 border-white' : 'bg-purple-500 border-purple-300'
+              }`}
+              style={{ left: `${(k.time / duration) * 100}%` }}
+            />
+          ))}
+          {playhead !== null && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-amber-400 pointer-events-none"
+              style={{ left: `${(Math.min(playhead, duration) / duration) * 100}%` }}
+            />
+          )}
+        </div>
+        <button
+          onClick={handleAddKeyframe}
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded-md bg-purple-600 hover:bg-purple-500 text-white"
+          title="Add a keyframe from the current sliders at the playhead"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Keyframe
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {keyframes.length === 0 && (
+        <p className="text-xs text-slate-500">
+          Set the sliders, move the playhead and add keyframes. Playback interpolates between them.
+        </p>
+      )}
+
+      {/* Selected keyframe */}
+      {selected && (
+        <div className="flex flex-wrap items-end gap-3 p-3 rounded-lg bg-slate-900/60 border border-slate-700 text-xs">
+          <label className="space-y-1">
+            <span className="block text-slate-400">Time (s)</span>
+            <input
+              type="number"
+              min="0"
+              max={duration}
+              step="0.1"
+              value={selected.time}
+              onChange={(e) =>
+                updateKeyframe(selected.id, { time: Math.max(0, Math.min(duration, Number(e.target.value) || 0)) })
+              }
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-slate-400">Easing in</span>
+            <select
+              value={selected.easing.kind}
+              onChange={(e) =>
+                updateKeyframe(selected.id, {
+                  easing: { kind: e.target.value as EasingKind, bezier: selected.easing.bezier ?? [0.25, 0.1, 0.25, 1] },
+                })
+              }
+              className={inputClass}
+            >
+              {EASINGS.map((o) => (
+                <option key={o.id} value={o.id}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+          {selected.easing.kind === 'cubic-bezier' && (
+            <div className="flex gap-1">
+              {(selected.easing.bezier ?? [0.25, 0.1, 0.25, 1]).map((v, i) => (
+                <input
+                  key={i}
+                  type="number"
+                  step="0.05"
+                  value={v}
+                  onChange={(e) => {
+                    const bezier = [...(selected.easing.bezier ?? [0.25, 0.1, 0.25, 1])] as [number, number, number, number];
+                    const n = Number(e.target.value) || 0;
+                    // x control points must stay within 0..1 for the curve to be a function of time
+                    bezier[i] = i % 2 === 0 ? Math.max(0, Math.min(1, n)) : n;
+                    updateKeyframe(selected.id, { easing: { kind: 'cubic-bezier', bezier } });
+                  }}
+                  className={`${inputClass} w-14`}
+                />
+              ))}
+            </div>
+          )}
+          <label className="space-y-1">
+            <span className="block text-slate-400">Pattern handoff</span>
+            <select
+              value={selected.handoff}
+              onChange={(e) => updateKeyframe(selected.id, { handoff: e.target.value as PatternHandoff })}
+              className={inputClass}
+            >
+              {HANDOFFS.map((o) => (
+                <option key={o.id} value={o.id}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-1 ml-auto">
+            <button onClick={() => onLoadSettings(selected.settings)} className={iconButtonClass} title="Load into sliders">
+              <ArrowDownToLine className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => updateKeyframe(selected.id, { settings: { ...settings } })}
+              className={iconButtonClass}
+              title="Update from sliders"
+            >
+              <ArrowUpFromLine className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDeleteKeyframe(selected.id)} className={`${iconButtonClass} hover:text-red-400`} title="Delete keyframe">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePanel;
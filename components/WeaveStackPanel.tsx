@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Layers, Plus, Trash2 } from 'lucide-react';
+import { BuiltInPattern, ProcessorSettings, WeaveDraft, WeavePass } from '../types';
+import { BUILT_IN_DRAFTS, resolveDraft } from '../utils/drafts';
+import { PASS_EASED_KEYS } from '../utils/transition';
+import TileShapeControl from './TileShapeControl';
+import TileTurnsControl from './TileTurnsControl';
+import { createPass, getStack, MAX_PASSES, setStack } from '../utils/weaveStack';
+
+interface WeaveStackPanelProps {
+  settings: ProcessorSettings;
+  setSettings: React.Dispatch<React.SetStateAction<ProcessorSettings>>;
+  customDrafts: WeaveDraft[];
+}
+
+const iconButtonClass =
+  'p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1.5 text-xs font-medium rounded border truncate transition-colors ${
+    active
+      ? 'bg-purple-500/20 border-purple-500 text-purple-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+  }`;
+
+const SLIDERS: {
+  key: (typeof PASS_EASED_KEYS)[number];
+  label: string;
+  min: number;
+  max: number;
+  unit: string;
+}[] = [
+  { key: 'tileSize', label: 'Tile Size', min: 2, max: 200, unit: 'px' },
+  { key: 'horizontalShift', label: 'Horizontal Shift', min: 0, max: 200, unit: 'px' },
+  { key: 'verticalShift', label: 'Vertical Shift', min: 0, max: 200, unit: 'px' },
+  { key: 'scatterIntensity', label: 'Scatter', min: 0, max: 100, unit: '%' },
+];
+
+// The passes as a list: the first is the Weave Matrix itself and always runs, so a
+// disabled pass can never move into its place.
+const WeaveStackPanel: React.FC<WeaveStackPanelProps> = ({ settings, setSettings, customDrafts }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const stack = getStack(settings);
+  const update = (change: (stack: WeavePass[]) => WeavePass[]) =>
+    setSettings((prev) => setStack(prev, change(getStack(prev))));
+
+  const move = (from: number, to: number) =>
+    update((list) => {
+      const next = list.slice();
+      const [pass] = next.splice(from, 1);
+      next.splice(to, 0, pass);
+      return next;
+    });
+  const edit = (id: string, change: Partial<WeavePass>) =>
+    update((list) => list.map((pass) => (pass.id === id ? { ...pass, ...change } : pass)));
+  const remove = (id: string) => update((list) => list.filter((pass) => pass.id !== id));
+
+  const handleAdd = () => {
+    const pass = createPass(stack[stack.length - 1]);
+    update((list) => [...list, pass]);
+    setSelected(pass.id);
+  };
+
+  const editing = stack.find((pass, i) => i > 0 && pass.id === selected);
+  const builtIns = Object.keys(BUILT_IN_DRAFTS) as BuiltInPattern[];
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-purple-400">
+          <Layers className="w-4 h-4" />
+          <h3 className="text-sm font-bold tracking-wide uppercase">Weave Stack</h3>
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={stack.length > MAX_PASSES}
+          title={stack.length > MAX_PASSES ? `Up to ${MAX_PASSES + 1} passes` : 'Weave the result again with its own settings'}
+          className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md bg-purple-600 hover:bg-purple-500 text-white transition-colors disabled:opacity-40"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add pass
+        </button>
+      </div>
+
+      <ol className="space-y-1.5">
+        {stack.map((pass, i) => {
+          const first = i === 0;
+          const next = stack[i + 1];
+          return (
+            <li
+              key={pass.id}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg border text-xs ${
+                pass.id === selected && !first ? 'border-purple-500/60 bg-purple-500/10' : 'border-slate-700 bg-slate-900/40'
+              } ${pass.enabled ? '' : 'opacity-60'}`}
+            >
+              <input
+                type="checkbox"
+                checked={pass.enabled}
+                disabled={first}
+                onChange={(e) => edit(pass.id, { enabled: e.target.checked })}
+                title={first ? 'The first pass always runs' : 'Run this pass'}
+                className="accent-purple-500"
+              />
+              <button
+                onClick={() => setSelected(first || pass.id === selected ? null : pass.id)}
+                className="flex-1 min-w-0 text-left truncate text-slate-300"
+                title={first ? 'Edited in the Weave Matrix above' : 'Edit this pass'}
+              >
+                <span className="font-mono text-slate-500 mr-1.5">{i + 1}</span>
+                {resolveDraft(pass).name} · {pass.tileShape ? `${pass.tileShape} ` : ''}
+                {Math.round(pass.tileSize)}
+                {pass.tileHeight !== undefined && `×${Math.round(pass.tileHeight)}`}px
+              </button>
+              <button
+                onClick={() => move(i, i - 1)}
+                disabled={first || (i === 1 && !pass.enabled)}
+                className={iconButtonClass}
+                title="Run earlier"
+              >
+                <ChevronUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => move(i, i + 1)}
+                disabled={!next || (first && !next.enabled)}
+                className={iconButtonClass}
+                title="Run later"
+              >
+                <ChevronDown className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => remove(pass.id)}
+                disabled={stack.length === 1 || (first && !next?.enabled)}
+                className={iconButtonClass}
+                title="Delete this pass"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      {editing && (
+        <div className="space-y-3 pt-3 border-t border-slate-700/50">
+          <div className="grid grid-cols-2 gap-1.5">
+            {builtIns.map((id) => (
+              <button
+                key={id}
+                onClick={() => edit(editing.id, { pattern: id, draft: undefined })}
+                className={optionClass(editing.pattern === id)}
+              >
+                {BUILT_IN_DRAFTS[id].name}
+              </button>
+            ))}
+            {customDrafts.map((d) => (
+              <button
+                key={d.id}
+                onClick={() => edit(editing.id, { pattern: 'custom', draft: d })}
+                className={optionClass(editing.pattern === 'custom' && editing.draft?.id === d.id)}
+                title={d.name}
+              >
+                {d.name}
+              </button>
+            ))}
+          </div>
+
+          <TileTurnsControl
+            turns={editing.turns}
+            onChange={(turns) => edit(editing.id, { turns })}
+            shape={editing.tileShape}
+          />
+
+          <TileShapeControl tiles={editing} onChange={(change) => edit(editing.id, change)} />
+
+          {SLIDERS.map(({ key, label, min, max, unit }) => (
+            <label key={key} className="block space-y-1">
+              <div className="flex justify-between text-xs text-slate-400">
+                <span>
+                  {key === 'tileSize' && (editing.tileHeight !== undefined || editing.tileShape) ? 'Tile Width' : label}
+                </span>
+                <span className="font-mono text-purple-400">
+                  {Math.round(editing[key])}
+                  {unit}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                value={editing[key]}
+                onChange={(e) => edit(editing.id, { [key]: Number(e.target.value) })}
+                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+              />
+            </label>
+          ))}
+
+          <label className="flex justify-between items-center text-xs text-slate-400">
+            <span>Seed</span>
+            <input
+              type="number"
+              step="1"
+              value={editing.seed}
+              onChange={(e) => edit(editing.id, { seed: Math.floor(Number(e.target.value)) || 0 })}
+              className="w-24 px-2 py-1 text-right font-mono text-purple-400 bg-slate-900 border border-slate-700 rounded focus:outline-none focus:border-purple-500"
+            />
+          </label>
+        </div>
+      )}
+
+      <p className="text-[11px] text-slate-500 leading-relaxed">
+        {stack.length === 1
+          ? 'One pass. Add more to weave the whole result again, each on its own tile grid.'
+          : 'Passes run top to bottom on the previous result; each is a permutation, so the stack still unweaves exactly. Stacks preview on the CPU.'}
+      </p>
+    </div>
+  );
+};
+
+export default WeaveStackPanel;
@@ -0,0 +1,54 @@
+import { PixelBuffer } from '../types';
+
+// Test images and the checks the conservation tests share.
+
+/** An image whose every pixel has its own colour, so any lost or doubled pixel shows. */
+export const uniqueImage = (width: number, height: number): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = i & 255;
+    data[i * 4 + 1] = (i >> 8) & 255;
+    data[i * 4 + 2] = (i >> 16) & 255;
+    data[i * 4 + 3] = 255;
+  }
+  return { data, width, height };
+};
+
+/** An image of a few colours repeated at random, so many pixels share each colour. */
+export const noiseImage = (width: number, height: number, seed = 1): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    data[i] = i % 4 === 3 ? 255 : (state >>> 29) * 32;
+  }
+  return { data, width, height };
+};
+
+const pixelKeys = ({ data }: PixelBuffer) => {
+  const view = new Uint32Array(data.buffer, data.byteOffset, data.length / 4);
+  return Uint32Array.from(view).sort();
+};
+
+/** True when `b` holds exactly the pixels of `a`, each as often, in any order. */
+export const samePixels = (a: PixelBuffer, b: PixelBuffer) => {
+  if (a.width !== b.width || a.height !== b.height) return false;
+  const keysA = pixelKeys(a);
+  const keysB = pixelKeys(b);
+  return keysA.every((key, i) => key === keysB[i]);
+};
+
+/** Counts of every value per channel, as one flat array of 4×256 bins. */
+export const histogram = ({ data }: PixelBuffer) => {
+  const bins = new Array<number>(4 * 256).fill(0);
+  for (let i = 0; i < data.length; i++) bins[(i % 4) * 256 + data[i]]++;
+  return bins;
+};
+
+/** True when both buffers hold the same bytes; cheaper than toEqual on a full-size image. */
+export const sameBytes = (a: PixelBuffer, b: PixelBuffer) =>
+  a.width === b.width &&
+  a.height === b.height &&
+  Buffer.from(a.data.buffer, a.data.byteOffset, a.data.byteLength).equals(
+    Buffer.from(b.data.buffer, b.data.byteOffset, b.data.byteLength)
+  );
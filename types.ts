@@ -1,16 +1,311 @@
-export type WeavePattern = 'plain' | 'twill' | 'satin' | 'basket';
+export type BuiltInPattern = 'plain' | 'twill' | 'satin' | 'basket';
+
+/** A built-in draft id, or 'custom' for the user-defined draft carried in `ProcessorSettings.draft`. */
+export type WeavePattern = BuiltInPattern | 'custom';
+
+/**
+ * Which thread floats on top of a draft cell, and therefore which shift moves it.
+ * 'weft' cells slide with their row, 'warp' cells with their column.
+ */
+export type DraftCell = 'both' | 'weft' | 'warp' | 'none';
+
+/**
+ * A repeat of N picks (rows) by M ends (columns), in the spirit of a weaving draft.
+ * The renderer tiles it across the image grid.
+ */
+export interface WeaveDraft {
+  id: string;
+  name: string;
+  /** Treadling: horizontal shift factor of each pick (row) in the repeat */
+  weft: number[];
+  /** Threading: vertical shift factor of each end (column) in the repeat */
+  warp: number[];
+  /** Drawdown: cells[row][col], weft.length rows by warp.length columns */
+  cells: DraftCell[][];
+}
+
+/**
+ * 'weave' scrambles a photo; 'unweave' restores a woven output from its settings;
+ * 'interlace' weaves strips of two photos through each other.
+ */
+export type ProcessorMode = 'weave' | 'unweave' | 'interlace';
+
+/**
+ * How the woven layer is composited over the original. Only 'normal' at full
+ * opacity keeps the pure rearrangement; the rest are an artistic layer on top.
+ */
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'difference';
 
 export interface ProcessorSettings {
+  /** Tile width in px, and the height too unless `tileHeight` is set */
   tileSize: number;
+  /** Tile height in px; absent keeps each shape regular (square, 2:1 brick, equilateral) */
+  tileHeight?: number;
+  /** How the image is cut into tiles; absent means the plain grid of rectangles */
+  tileShape?: TileShape;
   horizontalShift: number;
   verticalShift: number;
   scatterIntensity: number;
   pattern: WeavePattern;
+  /** The user-defined draft, used when `pattern` is 'custom' */
+  draft?: WeaveDraft;
+  /** Percent (0-100) of the woven layer shown over the original */
   opacity: number;
+  blendMode: BlendMode;
+  seed: number;
+  /** Tiles swapped by hand in the inspector, applied after the weave */
+  swaps?: TileSwaps;
+  /** Content-aware tile sorting, applied before the weave */
+  sort?: TileSort;
+  /** Further passes, each weaving the whole result of the ones before */
+  passes?: WeavePass[];
+  /** Tiles turned or mirrored in place at the end of the pass */
+  turns?: TileTurns;
+}
+
+/**
+ * Tilings the weave can cut an image into. Each has its own rows and columns:
+ * brick rows are offset by half a tile, hex rows interlock, and a row of
+ * triangles alternates between ones pointing up and down.
+ */
+export type TileShape = 'rect' | 'brick' | 'hex' | 'triangle';
+
+/** Which of the square's eight symmetries tiles may take. */
+export type TurnSet = 'rotate' | 'mirror' | 'all';
+
+export interface TileTurns {
+  /** What picks each tile's symmetry: its place in the pattern's repeat, or the seed */
+  by: 'pattern' | 'seed';
+  set: TurnSet;
+}
+
+/**
+ * One extra pass of a multi-pass weave. The settings above are the first pass;
+ * sorting runs once, before the first pass, and the manual swaps after the last.
+ */
+export interface WeavePass {
+  id: string;
+  enabled: boolean;
+  pattern: WeavePattern;
+  /** The user-defined draft, used when `pattern` is 'custom' */
+  draft?: WeaveDraft;
+  tileSize: number;
+  tileHeight?: number;
+  tileShape?: TileShape;
+  horizontalShift: number;
+  verticalShift: number;
+  scatterIntensity: number;
   seed: number;
+  turns?: TileTurns;
+}
+
+/** Per-tile statistic that tile sorting orders by. */
+export type SortKey = 'luminance' | 'hue' | 'saturation' | 'edges';
+
+/** Path through the grid (or window) that sorted tiles are laid along. */
+export type SortPath = 'rows' | 'spiral' | 'radial' | 'hilbert';
+
+/** Where tiles are sorted: across the image, or only within windows, rows or columns. */
+export type SortScope = 'image' | 'window' | 'row' | 'column';
+
+export interface TileSort {
+  key: SortKey;
+  path: SortPath;
+  scope: SortScope;
+  /** Side of a window, in tiles */
+  window: number;
+  /** Highest values first */
+  reverse: boolean;
+  /** The order found in the image, filled in from its pixels before weaving */
+  order?: TileOrder;
+}
+
+/**
+ * A resolved sort: the source cell of every cell of a `cols`×`rows` grid, row-major.
+ * Like manual swaps, it only applies while the grid has exactly these dimensions.
+ */
+export interface TileOrder {
+  cols: number;
+  rows: number;
+  sources: number[];
+}
+
+/**
+ * Manual tile swaps, as pairs of output cell indices (row-major) on the grid they
+ * were made on. They only apply while the weave's grid has exactly these dimensions.
+ */
+export interface TileSwaps {
+  cols: number;
+  rows: number;
+  pairs: [number, number][];
+}
+
+/** How the weft image is fitted into the warp image's frame when their sizes differ. */
+export type FitMode = 'cover' | 'contain' | 'stretch';
+
+/** Shading that suggests which strip passes over and which under. */
+export type InterlaceDepth = 'none' | 'shadow' | 'highlight';
+
+export interface InterlaceSettings {
+  /** Width in px of each vertical strip cut from the warp (first) image */
+  warpWidth: number;
+  /** Height in px of each horizontal strip cut from the weft (second) image */
+  weftWidth: number;
+  /** Empty px between neighbouring strips */
+  gap: number;
+  depth: InterlaceDepth;
+  /** Percent (0-100) */
+  depthStrength: number;
+  fit: FitMode;
+  /** Which part of the weft image is kept (cover) or where it sits (contain): -100 left/top .. 100 right/bottom */
+  alignX: number;
+  alignY: number;
+}
+
+/** How a texture's source is brought to power-of-two sides before weaving */
+export type TextureResize = 'none' | 'crop' | 'resample';
+
+/** Texture mode: the woven image as a repeating tile */
+export interface TextureSettings {
+  enabled: boolean;
+  /** Copies shown across and down in the preview and the contact sheet */
+  repeatX: number;
+  repeatY: number;
+  /** Shift the view by half a tile so the wrap seams meet in the middle */
+  offset: boolean;
+  resize: TextureResize;
+  /** Target sides in px (powers of two); 0 picks the nearest one for the image */
+  width: number;
+  height: number;
 }
 
+/** The part of the texture settings each preview frame needs */
+export type TextureView = Pick<TextureSettings, 'repeatX' | 'repeatY' | 'offset'>;
+
 export interface ImageDimensions {
   width: number;
   height: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Raw RGBA pixels, shaped like ImageData so either can be passed around.
+ * `data` holds 4 bytes per pixel in row-major order.
+ */
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Incremental encoder for animated exports: frames go in one by one, a file comes out. */
+export interface FrameEncoder {
+  addFrame: (frame: PixelBuffer) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+export type EasingKind = 'linear' | 'ease-in-out' | 'cubic-bezier' | 'step';
+
+export interface Easing {
+  kind: EasingKind;
+  /** Control points (x1, y1, x2, y2) when kind is 'cubic-bezier' */
+  bezier?: [number, number, number, number];
+}
+
+/**
+ * How a keyframe takes over when its pattern, draft or seed differs from the previous one:
+ * an instant cut, a crossfade of both looks, or a tile-by-tile staggered swap.
+ */
+export type PatternHandoff = 'cut' | 'crossfade' | 'stagger';
+
+export interface Keyframe {
+  id: string;
+  /** Seconds from the start of the sequence */
+  time: number;
+  settings: ProcessorSettings;
+  /** Curve used on the way in from the previous keyframe */
+  easing: Easing;
+  handoff: PatternHandoff;
+}
+
+export interface TimelineSequence {
+  version: 1;
+  /** Seconds */
+  duration: number;
+  loop: boolean;
+  keyframes: Keyframe[];
+}
+
+/** The state of a timeline at one instant. */
+export interface TimelineSample {
+  settings: ProcessorSettings;
+  /** Present while a pattern handoff is in progress: the outgoing look and how far it has faded */
+  handoff?: {
+    mode: Exclude<PatternHandoff, 'cut'>;
+    from: ProcessorSettings;
+    amount: number;
+  };
+}
+
+/** A named ProcessorSettings snapshot in the user's preset library. */
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: ProcessorSettings;
+}
+
+/** Settings recovered from an image this app exported */
+export interface EmbeddedSettings {
+  /** What the image was exported as; only a woven image can be unwoven */
+  mode: ProcessorMode;
+  settings: ProcessorSettings;
+}
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export type BatchStatus = 'ready' | 'working' | 'done' | 'error';
+
+/** One image of a batch, with the settings it doesn't share with the rest */
+export interface BatchItem {
+  id: string;
+  file: File;
+  width: number;
+  height: number;
+  /** Downscaled copy for the grid; null when the file couldn't be decoded */
+  thumbnail: ImageBitmap | null;
+  embedded: EmbeddedSettings | null;
+  /** Applied last, over the shared (and possibly size-scaled) settings */
+  overrides: Partial<ProcessorSettings>;
+  status: BatchStatus;
+  error?: string;
+}
+
+/** Route a tile takes from where its pixels came from to its woven cell. */
+export type TilePath = 'straight' | 'arc' | 'lift';
+
+/** What decides which tiles set off first. */
+export type TileStagger = 'together' | 'row' | 'diagonal' | 'distance' | 'random';
+
+/** Replayable per-tile animation of the cut, shuffle and reassembly. */
+export interface ChoreographySettings {
+  path: TilePath;
+  stagger: TileStagger;
+  /** Seconds, from the first tile leaving to the last one landing */
+  duration: number;
+  /** Fraction of the duration over which departures are spread (0..0.9) */
+  spread: number;
+  /** Curve each tile follows along its own flight */
+  easing: Easing;
+}
+
+/** Everything the preview needs to draw one frame, wherever it is rendered. */
+export interface PreviewFrame {
+  mode: ProcessorMode;
+  settings: ProcessorSettings;
+  /** A timeline instant, drawn instead of `settings` when set */
+  sample: TimelineSample | null;
+  interlace?: InterlaceSettings;
+  /** Repeats the frame as a texture when set */
+  texture?: TextureView;
+  /** Draws the woven tiles part-way along their flights, 0 at the start and 1 landed */
+  choreography?: { settings: ChoreographySettings; progress: number };
+}
@@ -0,0 +1,109 @@
+import { FrameEncoder, PixelBuffer, ProcessorSettings, TimelineSample, TimelineSequence } from '../types';
+import { createApngEncoder } from './apngEncoder';
+import { createGifEncoder } from './gifEncoder';
+import { renderTimelineSample, sampleTimeline } from './timeline';
+import { easeInOutCubic, interpolateSettings, scaleSettings } from './transition';
+import { createWebmEncoder } from './webmEncoder';
+
+export type AnimationFormat = 'gif' | 'apng' | 'webm';
+export type AnimationPlayback = 'loop' | 'pingpong' | 'once';
+
+export interface AnimationExportOptions {
+  format: AnimationFormat;
+  /** Seconds for one pass from `from` to `to` */
+  duration: number;
+  fps: number;
+  playback: AnimationPlayback;
+  /** Output size relative to the original; the source buffer must already be this size */
+  scale: number;
+  from: ProcessorSettings;
+  to: ProcessorSettings;
+  /** Export this keyframe sequence instead of the from -> to transition (duration is ignored) */
+  timeline?: TimelineSequence;
+}
+
+export const ANIMATION_EXTENSIONS: Record<AnimationFormat, string> = {
+  gif: 'gif',
+  apng: 'png',
+  webm: 'webm',
+};
+
+const withPlayback = <T>(forward: T[], playback: AnimationPlayback) =>
+  playback === 'pingpong' ? [...forward, ...forward.slice(1, -1).reverse()] : forward;
+
+/**
+ * Eased progress (0..1) of every output frame. Ping-pong appends the way back,
+ * without repeating the two end frames.
+ */
+export const getFrameSchedule = (duration: number, fps: number, playback: AnimationPlayback) => {
+  const count = Math.max(2, Math.round(duration * fps));
+  const forward = Array.from({ length: count }, (_, i) => easeInOutCubic(i / (count - 1)));
+  return withPlayback(forward, playback);
+};
+
+/** Every output frame as a timeline sample, with settings already scaled to the output size. */
+export const getFrameSamples = (options: AnimationExportOptions): TimelineSample[] => {
+  const { timeline, fps, playback, scale } = options;
+  if (!timeline || timeline.keyframes.length === 0) {
+    const from = scaleSettings(options.from, scale);
+    const to = scaleSettings(options.to, scale);
+    return getFrameSchedule(options.duration, fps, playback).map((t) => ({
+      settings: interpolateSettings(from, to, t),
+    }));
+  }
+
+  const scaled: TimelineSequence = {
+    ...timeline,
+    keyframes: timeline.keyframes.map((k) => ({ ...k, settings: scaleSettings(k.settings, scale) })),
+  };
+  // A looping sequence ends where it starts, so its last instant is left out
+  const count = Math.max(1, Math.round(timeline.duration * fps)) + (timeline.loop ? 0 : 1);
+  const forward = Array.from(
+    { length: count },
+    (_, i) => sampleTimeline(scaled, Math.min(timeline.duration, i / fps)) as TimelineSample
+  );
+  return withPlayback(forward, playback);
+};
+
+const createEncoder = (
+  source: PixelBuffer,
+  options: AnimationExportOptions,
+  frameCount: number
+): FrameEncoder => {
+  const { width, height } = source;
+  const loop = options.playback !== 'once';
+  switch (options.format) {
+    case 'gif':
+      return createGifEncoder({ width, height, fps: options.fps, paletteSource: source, loop });
+    case 'apng':
+      return createApngEncoder({ width, height, fps: options.fps, frameCount, plays: loop ? 0 : 1 });
+    case 'webm':
+      return createWebmEncoder({ width, height, fps: options.fps });
+  }
+};
+
+/**
+ * Renders the transition (or timeline) frame by frame with the pure weave core and encodes it.
+ * Each frame is computed from its index alone, so the result is deterministic
+ * and independent of how fast the browser happens to run.
+ */
+export const exportAnimation = async (
+  source: PixelBuffer,
+  options: AnimationExportOptions,
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const samples = getFrameSamples(options);
+  const encoder = createEncoder(source, options, samples.length);
+
+  for (let i = 0; i < samples.length; i++) {
+    signal?.throwIfAborted();
+    await encoder.addFrame(renderTimelineSample(source, samples[i]));
+    onProgress(i + 1, samples.length);
+    // Let the UI breathe between frames
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  signal?.throwIfAborted();
+  return encoder.finish();
+};
@@ -0,0 +1,58 @@
+import { FrameEncoder, PixelBuffer } from '../types';
+import { filterScanlines, ihdr, PNG_SIGNATURE, pngChunk, zlibDeflate } from './png';
+
+interface ApngOptions {
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  /** 0 plays forever */
+  plays: number;
+}
+
+/**
+ * Animated PNG encoder. Lossless, so every frame stays an exact rearrangement,
+ * and frame timing is stored as an exact 1/fps fraction.
+ */
+export const createApngEncoder = ({ width, height, fps, frameCount, plays }: ApngOptions): FrameEncoder => {
+  const parts: Uint8Array[] = [PNG_SIGNATURE, pngChunk('IHDR', ihdr(width, height))];
+  let sequence = 0;
+  let index = 0;
+
+  const actl = new Uint8Array(8);
+  new DataView(actl.buffer).setUint32(0, frameCount);
+  new DataView(actl.buffer).setUint32(4, plays);
+  parts.push(pngChunk('acTL', actl));
+
+  return {
+    async addFrame(frame: PixelBuffer) {
+      const fctl = new Uint8Array(26);
+      const view = new DataView(fctl.buffer);
+      view.setUint32(0, sequence++);
+      view.setUint32(4, width);
+      view.setUint32(8, height);
+      // x/y offsets stay 0: every frame covers the full canvas
+      view.setUint16(20, 1); // delay numerator
+      view.setUint16(22, fps); // delay denominator
+      fctl[24] = 0; // dispose: none
+      fctl[25] = 0; // blend: source
+      parts.push(pngChunk('fcTL', fctl));
+
+      const compressed = await zlibDeflate(filterScanlines(frame));
+      if (index === 0) {
+        // The first frame doubles as the static fallback image
+        parts.push(pngChunk('IDAT', compressed));
+      } else {
+        const fdat = new Uint8Array(4 + compressed.length);
+        new DataView(fdat.buffer).setUint32(0, sequence++);
+        fdat.set(compressed, 4);
+        parts.push(pngChunk('fdAT', fdat));
+      }
+      index++;
+    },
+    async finish() {
+      parts.push(pngChunk('IEND', new Uint8Array(0)));
+      return new Blob(parts, { type: 'image/apng' });
+    },
+  };
+};
@@ -0,0 +1,198 @@
+import { BatchItem, ImageFormat, PixelBuffer, ProcessorMode, ProcessorSettings, WeavePass } from '../types';
+import { exportFullResolution, IMAGE_FORMATS } from './fullResolution';
+import { readImagePixels } from './imageProcessing';
+import { readEmbeddedSettings, validateSettings } from './presets';
+import { withTileOrder } from './tileSort';
+import { scaleSettings } from './transition';
+import { weavePixels } from './weaveCore';
+import { createZipWriter } from './zip';
+
+// Batch mode: many images, one set of settings, one zip.
+
+const THUMBNAIL_SIDE = 160;
+
+const isImage = (file: File) => file.type.startsWith('image/');
+
+/** Files dropped as-is or inside (nested) folders, in a stable order. */
+export const readDroppedFiles = async (transfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously, before the drop event returns
+  const entries = Array.from(transfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(transfer.files).filter(isImage);
+
+  const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      return isImage(file) ? [file] : [];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries hands back at most ~100 entries per call
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    return (await Promise.all(children.map(readEntry))).flat();
+  };
+
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+// Whole-number steps, like the preview proxy, so a thumbnail shows what the export will
+const getThumbnailScale = (width: number, height: number) =>
+  Math.max(1, Math.ceil(Math.max(width, height) / THUMBNAIL_SIDE));
+
+let nextId = 0;
+
+/** Decodes a file once for its size and thumbnail; failures become an item in the error state. */
+export const loadBatchItem = async (file: File): Promise<BatchItem> => {
+  const item: BatchItem = {
+    id: `batch-${nextId++}`,
+    file,
+    width: 0,
+    height: 0,
+    thumbnail: null,
+    embedded: null,
+    overrides: {},
+    status: 'ready',
+  };
+  try {
+    const full = await createImageBitmap(file);
+    const scale = getThumbnailScale(full.width, full.height);
+    try {
+      item.width = full.width;
+      item.height = full.height;
+      item.thumbnail = await createImageBitmap(full, {
+        resizeWidth: Math.max(1, Math.floor(full.width / scale)),
+        resizeHeight: Math.max(1, Math.floor(full.height / scale)),
+        resizeQuality: 'medium',
+      });
+    } finally {
+      full.close();
+    }
+    item.embedded = await readEmbeddedSettings(file).catch(() => null);
+  } catch {
+    return { ...item, status: 'error', error: 'Not an image this browser can decode' };
+  }
+  return item;
+};
+
+/**
+ * The settings one image is exported with.
+ * With `relative` on, tile sizes and shifts follow the image's size as a proportion of the
+ * reference image's, the same way the size-based defaults do. Settings embedded in a woven
+ * input win when unweaving, since they are what made it; per-image overrides win over all.
+ */
+export const resolveBatchSettings = (
+  settings: ProcessorSettings,
+  item: BatchItem,
+  reference: BatchItem | undefined,
+  relative: boolean,
+  mode: ProcessorMode
+): ProcessorSettings => {
+  let base = settings;
+  if (mode === 'unweave' && item.embedded?.mode === 'weave') {
+    base = item.embedded.settings;
+  } else if (relative && reference && reference.width > 0) {
+    const tileScale = Math.min(item.width, item.height) / Math.min(reference.width, reference.height);
+    const relativeTo = <T extends ProcessorSettings | WeavePass>(pass: T): T => ({
+      ...pass,
+      tileSize: pass.tileSize * tileScale,
+      tileHeight: pass.tileHeight && pass.tileHeight * tileScale,
+      horizontalShift: Math.round((pass.horizontalShift * item.width) / reference.width),
+      verticalShift: Math.round((pass.verticalShift * item.height) / reference.height),
+    });
+    base = { ...relativeTo(settings), passes: settings.passes?.map(relativeTo) };
+  }
+  const resolved = validateSettings({ ...base, ...item.overrides });
+  // Each image is sorted by its own content when woven; an order carried in from elsewhere doesn't apply
+  return mode === 'weave' && resolved.sort ? { ...resolved, sort: { ...resolved.sort, order: undefined } } : resolved;
+};
+
+/** The woven thumbnail; unwoven ones stay as they are, as a small copy can't be unwoven faithfully. */
+export const renderBatchThumbnail = (item: BatchItem, settings: ProcessorSettings, mode: ProcessorMode): PixelBuffer | null => {
+  if (!item.thumbnail) return null;
+  const pixels = readImagePixels(item.thumbnail);
+  if (mode !== 'weave') return pixels;
+  // A sort is found on the thumbnail itself, so it can only approximate the export's order
+  const scaled = scaleSettings(settings, 1 / getThumbnailScale(item.width, item.height));
+  return weavePixels(pixels, withTileOrder(scaled, pixels));
+};
+
+/** Zip entry names: the source name with the mode appended, numbered when two collide. */
+const createEntryNamer = (mode: ProcessorMode, format: ImageFormat) => {
+  const used = new Set<string>();
+  return (file: File) => {
+    const base = file.name.replace(/\.[^.]*$/, '') || 'image';
+    const extension = IMAGE_FORMATS[format].extension;
+    let name = `${base}-${mode}.${extension}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${mode}-${n}.${extension}`;
+    used.add(name.toLowerCase());
+    return name;
+  };
+};
+
+export interface BatchJob {
+  mode: ProcessorMode;
+  format: ImageFormat;
+  quality: number;
+  settingsFor: (item: BatchItem) => ProcessorSettings;
+}
+
+export interface BatchResult {
+  zip: Blob;
+  done: number;
+  failed: number;
+}
+
+/**
+ * Exports every decodable item at full resolution into one zip, one image at a time.
+ * A failing image is reported through `onStatus` and skipped; aborting stops the whole batch.
+ */
+export const exportBatch = async (
+  items: BatchItem[],
+  job: BatchJob,
+  onStatus: (id: string, status: BatchItem['status'], error?: string) => void,
+  onProgress: (done: number, total: number) => void,
+  signal: AbortSignal
+): Promise<BatchResult> => {
+  const zip = createZipWriter();
+  const nameEntry = createEntryNamer(job.mode, job.format);
+  const queue = items.filter((item) => item.thumbnail);
+  let done = 0;
+  let failed = 0;
+
+  for (let i = 0; i < queue.length; i++) {
+    signal.throwIfAborted();
+    const item = queue[i];
+    onStatus(item.id, 'working');
+    let bitmap: ImageBitmap | null = null;
+    try {
+      bitmap = await createImageBitmap(item.file);
+      const blob = await exportFullResolution(
+        bitmap,
+        { mode: job.mode, settings: job.settingsFor(item), format: job.format, quality: job.quality },
+        (bands, total) => onProgress(i + bands / total, queue.length),
+        signal
+      );
+      await zip.add(nameEntry(item.file), blob);
+      onStatus(item.id, 'done');
+      done++;
+    } catch (err) {
+      if (signal.aborted) {
+        onStatus(item.id, 'ready');
+        throw err;
+      }
+      onStatus(item.id, 'error', err instanceof Error ? err.message : 'Export failed');
+      failed++;
+    } finally {
+      bitmap?.close();
+    }
+    onProgress(i + 1, queue.length);
+  }
+
+  return { zip: zip.finish(), done, failed };
+};
@@ -0,0 +1,272 @@
+import { ChoreographySettings, ProcessorSettings } from '../types';
+import type { Context2D, ScratchCanvas } from './imageProcessing';
+import { createRng } from './scatter';
+import { getCellBounds, getCellCorner, getCellMap, getTileLayout, TileLayout } from './tileLayout';
+import { evaluateEasing } from './timeline';
+import { getPixelSources } from './weaveCore';
+
+// Tile choreography: the weave played as every tile flying from where its pixels
+// came from to the cell it ends up in. A tile's origin is the source of its
+// top-left pixel, which for a tile the shifts didn't split is exactly where its
+// pixels sat in the original. Each frame draws every woven tile exactly once,
+// wherever it is on its way, so nothing is ever duplicated or left out.
+//
+// Hexagons and triangles aren't rectangles, so their tiles are cut from masked
+// copies of the weave. Each copy keeps a set of cells whose boxes never overlap
+// (a parity of hex rows, or the triangles pointing one way), so a tile's box
+// holds only its own pixels there.
+
+export const DEFAULT_CHOREOGRAPHY: ChoreographySettings = {
+  path: 'arc',
+  stagger: 'diagonal',
+  duration: 3,
+  spread: 0.6,
+  easing: { kind: 'ease-in-out' },
+};
+
+export const MAX_SPREAD = 0.9;
+
+/** Beyond this many tiles a frame takes too long to draw; the tile size must grow first */
+export const MAX_CHOREOGRAPHY_TILES = 20_000;
+
+// How far an arc bows out, as a fraction of the distance travelled
+const ARC_BOW = 0.3;
+// Share of a lift-and-drop flight spent rising, and again settling
+const LIFT_PHASE = 0.25;
+const LIFT_SCALE = 0.15;
+
+export interface TileFlight {
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+  width: number;
+  height: number;
+  /** Departure and flight time, as fractions of the whole choreography */
+  start: number;
+  span: number;
+  /** Which side an arc bows to */
+  side: 1 | -1;
+  /** The masked copy the tile is cut from; -1 for a plain rectangle */
+  sheet: number;
+}
+
+export interface ChoreographyPlan {
+  width: number;
+  height: number;
+  /** The layout the sheets are masked with; null when every tile is a rectangle */
+  layout: TileLayout | null;
+  sheets: number;
+  /** One per output cell */
+  flights: TileFlight[];
+}
+
+interface TilePose {
+  x: number;
+  y: number;
+  scale: number;
+  /** 0 on the ground, 1 at the top of a lift */
+  lift: number;
+  moving: boolean;
+}
+
+// Departure order, as a key per tile; equal keys leave together
+const staggerKeys = (
+  flights: Omit<TileFlight, 'start' | 'span'>[],
+  cols: number,
+  { stagger }: ChoreographySettings,
+  seed: number
+) => {
+  switch (stagger) {
+    case 'together':
+      return flights.map(() => 0);
+    case 'row':
+      return flights.map((_, cell) => Math.floor(cell / cols));
+    case 'diagonal':
+      return flights.map((_, cell) => (cell % cols) + Math.floor(cell / cols));
+    case 'distance':
+      return flights.map((f) => Math.hypot(f.toX - f.fromX, f.toY - f.fromY));
+    case 'random': {
+      const rng = createRng(seed);
+      return flights.map(() => rng());
+    }
+  }
+};
+
+// Hex rows of one parity never touch each other's boxes, nor do triangles pointing one way
+const sheetOf = (layout: TileLayout, cell: number) =>
+  layout.shape === 'hex' ? (layout.firstRow + Math.floor(cell / layout.cols)) & 1 : layout.kindOf[cell];
+
+/** Builds every tile's flight for a weave of a `width`×`height` image. */
+export const planChoreography = (
+  width: number,
+  height: number,
+  settings: ProcessorSettings,
+  choreography: ChoreographySettings
+): ChoreographyPlan => {
+  const layout = getTileLayout(width, height, settings);
+  const masked = layout.shape === 'hex' || layout.shape === 'triangle';
+  const sources = getPixelSources(width, height, settings);
+
+  // A shaped tiling's grid can hold cells the image misses; they get empty flights
+  const routes = Array.from({ length: layout.cols * layout.rows }, (_, cell) => {
+    const to = getCellBounds(layout, cell);
+    const corner = getCellCorner(layout, cell);
+    const source = corner ? sources[corner[1] * width + corner[0]] : 0;
+    return {
+      fromX: corner ? (source % width) - corner[0] + to.x : to.x,
+      fromY: corner ? Math.floor(source / width) - corner[1] + to.y : to.y,
+      toX: to.x,
+      toY: to.y,
+      width: corner ? to.width : 0,
+      height: corner ? to.height : 0,
+      side: (cell % 2 === 0 ? 1 : -1) as 1 | -1,
+      sheet: masked ? sheetOf(layout, cell) : -1,
+    };
+  });
+
+  const keys = staggerKeys(routes, layout.cols, choreography, settings.seed);
+  const maxKey = Math.max(0, ...keys);
+  const spread = choreography.stagger === 'together' ? 0 : Math.max(0, Math.min(MAX_SPREAD, choreography.spread));
+  const flights = routes.map((route, i) => ({
+    ...route,
+    start: maxKey > 0 ? (keys[i] / maxKey) * spread : 0,
+    span: 1 - spread,
+  }));
+  return { width, height, layout: masked ? layout : null, sheets: masked ? 2 : 0, flights };
+};
+
+// A replay draws the same plan every frame, so only the latest one is kept
+let cachedKey = '';
+let cachedPlan: ChoreographyPlan | null = null;
+
+const getPlan = (width: number, height: number, settings: ProcessorSettings, choreography: ChoreographySettings) => {
+  const key = JSON.stringify([width, height, settings, choreography.stagger, choreography.spread]);
+  if (key !== cachedKey || !cachedPlan) {
+    cachedPlan = planChoreography(width, height, settings, choreography);
+    cachedKey = key;
+  }
+  return cachedPlan;
+};
+
+/** Where a tile is at `progress` (0..1) through the whole choreography. */
+export const getTilePose = (flight: TileFlight, progress: number, choreography: ChoreographySettings): TilePose => {
+  const t = Math.max(0, Math.min(1, (progress - flight.start) / flight.span));
+  const moving = t > 0 && t < 1;
+  const lifting = choreography.path === 'lift';
+  // Lift-and-drop rises in place, travels, then settles; the others travel the whole way
+  const travel = lifting ? Math.max(0, Math.min(1, (t - LIFT_PHASE) / (1 - 2 * LIFT_PHASE))) : t;
+  const e = evaluateEasing(choreography.easing, travel);
+
+  const dx = flight.toX - flight.fromX;
+  const dy = flight.toY - flight.fromY;
+  let x = flight.fromX + dx * e;
+  let y = flight.fromY + dy * e;
+  if (choreography.path === 'arc') {
+    const bow = Math.sin(Math.PI * e) * ARC_BOW * flight.side;
+    x -= dy * bow;
+    y += dx * bow;
+  }
+  const lift = lifting ? Math.min(1, t / LIFT_PHASE, (1 - t) / LIFT_PHASE) : 0;
+  return { x, y, scale: 1 + LIFT_SCALE * lift, lift, moving };
+};
+
+const createSheetCanvas = (width: number, height: number): ScratchCanvas => {
+  const canvas =
+    typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(width, height) : document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// The masks of the latest masked plan, and the copies cut with them every frame
+let maskLayout = '';
+let masks: ScratchCanvas[] = [];
+const sheetCanvases: ScratchCanvas[] = [];
+
+const getMasks = (layout: TileLayout, sheets: number) => {
+  if (maskLayout === layout.id) return masks;
+  const cells = getCellMap(layout);
+  masks = Array.from({ length: sheets }, (_, sheet) => {
+    const canvas = createSheetCanvas(layout.width, layout.height);
+    const maskCtx = canvas.getContext('2d') as Context2D | null;
+    if (!maskCtx) return canvas;
+    const mask = maskCtx.createImageData(layout.width, layout.height);
+    for (let i = 0; i < cells.length; i++) {
+      if (sheetOf(layout, cells[i]) === sheet) mask.data[i * 4 + 3] = 255;
+    }
+    maskCtx.putImageData(mask, 0, 0);
+    return canvas;
+  });
+  maskLayout = layout.id;
+  return masks;
+};
+
+// Copies of `woven`, each keeping only the pixels of its sheet's cells
+const cutSheets = (woven: CanvasImageSource, layout: TileLayout, sheets: number) =>
+  getMasks(layout, sheets).map((mask, i) => {
+    const canvas = (sheetCanvases[i] ??= createSheetCanvas(layout.width, layout.height));
+    if (canvas.width !== layout.width) canvas.width = layout.width;
+    if (canvas.height !== layout.height) canvas.height = layout.height;
+    const sheetCtx = canvas.getContext('2d') as Context2D | null;
+    if (sheetCtx) {
+      sheetCtx.clearRect(0, 0, layout.width, layout.height);
+      sheetCtx.drawImage(woven, 0, 0);
+      sheetCtx.globalCompositeOperation = 'destination-in';
+      sheetCtx.drawImage(mask, 0, 0);
+      sheetCtx.globalCompositeOperation = 'source-over';
+    }
+    return canvas;
+  });
+
+/**
+ * Redraws `ctx` as the choreography at `progress`, taking the tiles from `woven`,
+ * a copy of the finished weave of the same size.
+ */
+export const drawChoreography = (
+  ctx: Context2D,
+  woven: CanvasImageSource,
+  settings: ProcessorSettings,
+  choreography: ChoreographySettings,
+  progress: number
+) => {
+  const { width, height } = ctx.canvas;
+  const plan = getPlan(width, height, settings, choreography);
+  const poses = plan.flights.map((flight) => getTilePose(flight, progress, choreography));
+  const sheets = plan.layout ? cutSheets(woven, plan.layout, plan.sheets) : [];
+  ctx.clearRect(0, 0, width, height);
+
+  // Resting tiles first, then those in the air, highest last so it passes over the rest
+  const order = plan.flights.map((_, i) => i);
+  order.sort((a, b) => Number(poses[a].moving) - Number(poses[b].moving) || poses[a].lift - poses[b].lift);
+
+  for (const i of order) {
+    const flight = plan.flights[i];
+    if (flight.width === 0) continue;
+    const { x, y, scale, lift } = poses[i];
+    const w = flight.width * scale;
+    const h = flight.height * scale;
+    if (lift > 0) {
+      const reach = Math.max(flight.width, flight.height);
+      ctx.shadowColor = `rgba(0, 0, 0, ${0.55 * lift})`;
+      ctx.shadowBlur = reach * 0.4 * lift;
+      ctx.shadowOffsetY = reach * 0.15 * lift;
+    }
+    ctx.drawImage(
+      flight.sheet < 0 ? woven : sheets[flight.sheet],
+      flight.toX,
+      flight.toY,
+      flight.width,
+      flight.height,
+      x - (w - flight.width) / 2,
+      y - (h - flight.height) / 2,
+      w,
+      h
+    );
+    if (lift > 0) {
+      ctx.shadowColor = 'transparent';
+      ctx.shadowBlur = 0;
+      ctx.shadowOffsetY = 0;
+    }
+  }
+};
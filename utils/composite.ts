@@ -0,0 +1,70 @@
+import { BlendMode, PixelBuffer, ProcessorSettings } from '../types';
+
+// Composite stage: the woven layer drawn over a base layer (normally the
+// original image) with an opacity and a blend mode. This runs after the weave
+// and is not part of it, so it never affects whether a weave can be undone.
+
+export const BLEND_MODES: BlendMode[] = ['normal', 'multiply', 'screen', 'overlay', 'difference'];
+
+/** True when the composite leaves the woven pixels untouched. */
+export const isLosslessComposite = (settings: Pick<ProcessorSettings, 'opacity' | 'blendMode'>) =>
+  settings.blendMode === 'normal' && settings.opacity >= 100;
+
+// Separable blend functions on 0..255 channels (W3C compositing spec)
+const blend = (mode: BlendMode, base: number, layer: number) => {
+  switch (mode) {
+    case 'normal':
+      return layer;
+    case 'multiply':
+      return (base * layer) / 255;
+    case 'screen':
+      return base + layer - (base * layer) / 255;
+    case 'overlay':
+      return base < 128 ? (2 * base * layer) / 255 : 255 - (2 * (255 - base) * (255 - layer)) / 255;
+    case 'difference':
+      return Math.abs(base - layer);
+  }
+};
+
+// 256x256 lookup per blend mode, indexed by (base << 8) | layer
+const tables = new Map<BlendMode, Float32Array>();
+const getBlendTable = (mode: BlendMode) => {
+  let table = tables.get(mode);
+  if (!table) {
+    table = new Float32Array(256 * 256);
+    for (let b = 0; b < 256; b++) {
+      for (let l = 0; l < 256; l++) table[(b << 8) | l] = blend(mode, b, l);
+    }
+    tables.set(mode, table);
+  }
+  return table;
+};
+
+/**
+ * Draws `layer` over `base` (same size) with `opacity` percent and a blend mode.
+ * Alpha is mixed linearly, so transparent regions fade the same way as colour.
+ */
+export const compositePixels = (
+  layer: PixelBuffer,
+  base: PixelBuffer,
+  opacity: number,
+  mode: BlendMode
+): PixelBuffer => {
+  const { width, height } = layer;
+  const a = Math.max(0, Math.min(100, opacity)) / 100;
+  const data = new Uint8ClampedArray(layer.data.length);
+  const table = getBlendTable(mode);
+
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const b = base.data[i + c];
+      data[i + c] = b + (table[(b << 8) | layer.data[i + c]] - b) * a;
+    }
+    data[i + 3] = base.data[i + 3] + (layer.data[i + 3] - base.data[i + 3]) * a;
+  }
+  return { data, width, height };
+};
+
+/** Applies the settings' composite to a woven buffer; returns it unchanged when lossless. */
+export const applyComposite = (woven: PixelBuffer, base: PixelBuffer, settings: ProcessorSettings): PixelBuffer =>
+  isLosslessComposite(settings) ? woven : compositePixels(woven, base, settings.opacity, settings.blendMode);
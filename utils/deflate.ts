@@ -0,0 +1,392 @@
+// Deterministic zlib (RFC 1950/1951) compressor.
+//
+// The browser's CompressionStream and Node's zlib emit different, version
+// dependent bytes for the same input, but an export has to come out byte for
+// byte the same wherever it runs. So PNG data goes through this instead:
+// greedy LZ77 over a 32 KiB window, one dynamic Huffman block per 64 KiB of
+// input. Block boundaries depend only on input offsets, never on how the input
+// was split into writes, so the output is a pure function of the bytes.
+
+const WINDOW = 1 << 15;
+const WINDOW_MASK = WINDOW - 1;
+// A whole number of windows, so positions keep their hash slots when the buffer slides
+const BLOCK_INPUT = 1 << 16;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const HASH_BITS = 15;
+const HASH_MASK = (1 << HASH_BITS) - 1;
+// Candidates tried per position; more compresses a little better and runs a lot slower
+const MAX_CHAIN = 32;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// Length (3..258) -> length code index (0..28), distance (1..32768) -> distance code
+const LENGTH_CODE = new Uint8Array(MAX_MATCH + 1);
+const DIST_CODE = new Uint8Array(WINDOW + 1);
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+  for (let len = LENGTH_BASE[code]; len < LENGTH_BASE[code] + (1 << LENGTH_EXTRA[code]) && len <= MAX_MATCH; len++) {
+    LENGTH_CODE[len] = code;
+  }
+}
+for (let code = 0; code < DIST_BASE.length; code++) {
+  for (let d = DIST_BASE[code]; d < DIST_BASE[code] + (1 << DIST_EXTRA[code]) && d <= WINDOW; d++) DIST_CODE[d] = code;
+}
+
+/**
+ * Huffman code lengths for `freqs`, none longer than `limit`. Plain Huffman
+ * first; package-merge only when that runs too deep. Every code is complete,
+ * which zlib insists on, so fewer than two used symbols get a partner.
+ */
+const codeLengths = (freqs: Uint32Array, limit: number): Uint8Array => {
+  const weights = Array.from(freqs);
+  let used = weights.filter((w) => w > 0).length;
+  for (let s = 0; used < 2; s++) {
+    if (weights[s] === 0) {
+      weights[s] = 1;
+      used++;
+    }
+  }
+
+  // Least frequent first; ties by symbol keep the result deterministic
+  const leaves = weights
+    .map((weight, symbol) => ({ weight, symbol }))
+    .filter((leaf) => leaf.weight > 0)
+    .sort((a, b) => a.weight - b.weight || a.symbol - b.symbol);
+  const n = leaves.length;
+  const lengths = new Uint8Array(freqs.length);
+
+  // Two-queue Huffman over the sorted leaves
+  const weight = new Float64Array(2 * n - 1);
+  const parent = new Int32Array(2 * n - 1);
+  leaves.forEach((leaf, i) => (weight[i] = leaf.weight));
+  let nextLeaf = 0;
+  let nextNode = n;
+  const takeSmallest = (built: number) =>
+    nextLeaf < n && (nextNode >= built || weight[nextLeaf] <= weight[nextNode]) ? nextLeaf++ : nextNode++;
+  for (let node = n; node < 2 * n - 1; node++) {
+    const a = takeSmallest(node);
+    const b = takeSmallest(node);
+    weight[node] = weight[a] + weight[b];
+    parent[a] = node;
+    parent[b] = node;
+  }
+  const depth = new Uint8Array(2 * n - 1);
+  let deepest = 0;
+  for (let node = 2 * n - 3; node >= 0; node--) {
+    depth[node] = depth[parent[node]] + 1;
+    if (node < n) deepest = Math.max(deepest, depth[node]);
+  }
+  if (deepest <= limit) {
+    leaves.forEach((leaf, i) => (lengths[leaf.symbol] = depth[i]));
+    return lengths;
+  }
+
+  // Package-merge: the first 2n - 2 items of the last list give each symbol's length
+  type Item = { weight: number; symbols: number[] };
+  const leafItems: Item[] = leaves.map((leaf) => ({ weight: leaf.weight, symbols: [leaf.symbol] }));
+  let list = leafItems;
+  for (let level = 1; level < limit; level++) {
+    const packages: Item[] = [];
+    for (let i = 0; i + 1 < list.length; i += 2) {
+      packages.push({ weight: list[i].weight + list[i + 1].weight, symbols: list[i].symbols.concat(list[i + 1].symbols) });
+    }
+    const merged: Item[] = [];
+    let a = 0;
+    let b = 0;
+    while (a < leafItems.length || b < packages.length) {
+      if (b >= packages.length || (a < leafItems.length && leafItems[a].weight <= packages[b].weight)) {
+        merged.push(leafItems[a++]);
+      } else {
+        merged.push(packages[b++]);
+      }
+    }
+    list = merged;
+  }
+  for (let i = 0; i < 2 * n - 2; i++) for (const symbol of list[i].symbols) lengths[symbol]++;
+  return lengths;
+};
+
+// Canonical codes, bit-reversed because deflate writes Huffman codes MSB first into an LSB-first stream
+const canonicalCodes = (lengths: Uint8Array): Uint16Array => {
+  const count = new Uint16Array(16);
+  for (const len of lengths) if (len) count[len]++;
+  const next = new Uint16Array(16);
+  for (let len = 1, code = 0; len < 16; len++) {
+    code = (code + count[len - 1]) << 1;
+    next[len] = code;
+  }
+  const codes = new Uint16Array(lengths.length);
+  lengths.forEach((len, symbol) => {
+    if (!len) return;
+    let code = next[len]++;
+    let reversed = 0;
+    for (let i = 0; i < len; i++) {
+      reversed = (reversed << 1) | (code & 1);
+      code >>= 1;
+    }
+    codes[symbol] = reversed;
+  });
+  return codes;
+};
+
+const createBitWriter = () => {
+  let out = new Uint8Array(1 << 16);
+  let size = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const pushByte = (byte: number) => {
+    if (size === out.length) {
+      const grown = new Uint8Array(out.length * 2);
+      grown.set(out);
+      out = grown;
+    }
+    out[size++] = byte;
+  };
+
+  return {
+    write: (value: number, bits: number) => {
+      bitBuffer |= value << bitCount;
+      bitCount += bits;
+      while (bitCount >= 8) {
+        pushByte(bitBuffer & 0xff);
+        bitBuffer >>>= 8;
+        bitCount -= 8;
+      }
+    },
+    /** Pads the last partial byte with zero bits */
+    align: () => {
+      if (bitCount > 0) pushByte(bitBuffer & 0xff);
+      bitBuffer = 0;
+      bitCount = 0;
+    },
+    pushByte,
+    /** Whole bytes written since the last take */
+    take: () => {
+      const bytes = out.slice(0, size);
+      size = 0;
+      return bytes;
+    },
+  };
+};
+
+export interface Deflater {
+  /** Feeds input; returns whatever compressed bytes are complete so far */
+  write: (bytes: Uint8Array) => Uint8Array;
+  /** Ends the stream; returns the remaining bytes, Adler-32 trailer included */
+  finish: () => Uint8Array;
+}
+
+export const createDeflater = (): Deflater => {
+  // [WINDOW bytes of history | BLOCK_INPUT bytes being gathered]
+  const buffer = new Uint8Array(WINDOW + BLOCK_INPUT);
+  let filled = 0;
+  let started = false;
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const prev = new Int32Array(WINDOW).fill(-1);
+  const bits = createBitWriter();
+  let adlerA = 1;
+  let adlerB = 0;
+
+  // One block's symbols: literal/length code, length extra value, distance (0 for literals)
+  const symbols = new Uint16Array(BLOCK_INPUT + 1);
+  const extras = new Uint16Array(BLOCK_INPUT + 1);
+  const distances = new Uint16Array(BLOCK_INPUT + 1);
+
+  const hashAt = (p: number) => ((buffer[p] << 10) ^ (buffer[p + 1] << 5) ^ buffer[p + 2]) & HASH_MASK;
+
+  const compressBlock = (final: boolean) => {
+    const start = WINDOW;
+    const end = WINDOW + filled;
+    let count = 0;
+    const litFreq = new Uint32Array(286);
+    const distFreq = new Uint32Array(30);
+
+    const insert = (p: number) => {
+      if (p + MIN_MATCH > end) return;
+      const h = hashAt(p);
+      prev[p & WINDOW_MASK] = head[h];
+      head[h] = p;
+    };
+
+    for (let p = start; p < end; ) {
+      // Matches stop at the block edge so block contents never depend on later writes
+      const maxLength = Math.min(MAX_MATCH, end - p);
+      let bestLength = 0;
+      let bestDistance = 0;
+      if (maxLength >= MIN_MATCH) {
+        let candidate = head[hashAt(p)];
+        for (let chain = MAX_CHAIN; candidate >= 0 && chain > 0; chain--) {
+          const distance = p - candidate;
+          if (distance <= 0 || distance > WINDOW) break;
+          if (buffer[candidate + bestLength] === buffer[p + bestLength]) {
+            let length = 0;
+            while (length < maxLength && buffer[candidate + length] === buffer[p + length]) length++;
+            if (length > bestLength) {
+              bestLength = length;
+              bestDistance = distance;
+              if (length === maxLength) break;
+            }
+          }
+          candidate = prev[candidate & WINDOW_MASK];
+        }
+      }
+
+      if (bestLength >= MIN_MATCH) {
+        const code = LENGTH_CODE[bestLength];
+        symbols[count] = 257 + code;
+        extras[count] = bestLength - LENGTH_BASE[code];
+        distances[count] = bestDistance;
+        litFreq[257 + code]++;
+        distFreq[DIST_CODE[bestDistance]]++;
+        count++;
+        for (let i = 0; i < bestLength; i++) insert(p + i);
+        p += bestLength;
+      } else {
+        symbols[count] = buffer[p];
+        distances[count] = 0;
+        litFreq[buffer[p]]++;
+        count++;
+        insert(p);
+        p++;
+      }
+    }
+    symbols[count] = 256;
+    distances[count] = 0;
+    litFreq[256]++;
+    count++;
+
+    writeBlock(count, litFreq, distFreq, final);
+
+    // Slide: the tail of this block becomes the history of the next
+    buffer.copyWithin(0, BLOCK_INPUT, BLOCK_INPUT + WINDOW);
+    for (let i = 0; i < head.length; i++) head[i] = head[i] >= BLOCK_INPUT ? head[i] - BLOCK_INPUT : -1;
+    for (let i = 0; i < prev.length; i++) prev[i] = prev[i] >= BLOCK_INPUT ? prev[i] - BLOCK_INPUT : -1;
+    filled = 0;
+  };
+
+  const writeBlock = (count: number, litFreq: Uint32Array, distFreq: Uint32Array, final: boolean) => {
+    const litLengths = codeLengths(litFreq, 15);
+    const distLengths = codeLengths(distFreq, 15);
+    const litCodes = canonicalCodes(litLengths);
+    const distCodes = canonicalCodes(distLengths);
+
+    let hlit = 286;
+    while (hlit > 257 && litLengths[hlit - 1] === 0) hlit--;
+    let hdist = 30;
+    while (hdist > 1 && distLengths[hdist - 1] === 0) hdist--;
+
+    // Run-length encode both length tables together (codes 16, 17, 18)
+    const all = [...litLengths.subarray(0, hlit), ...distLengths.subarray(0, hdist)];
+    const runs: [number, number][] = [];
+    for (let i = 0; i < all.length; ) {
+      const len = all[i];
+      let run = 1;
+      while (i + run < all.length && all[i + run] === len) run++;
+      i += run;
+      if (len === 0) {
+        while (run >= 11) {
+          const n = Math.min(run, 138);
+          runs.push([18, n - 11]);
+          run -= n;
+        }
+        if (run >= 3) {
+          runs.push([17, run - 3]);
+          run = 0;
+        }
+      } else {
+        runs.push([len, 0]);
+        run--;
+        while (run >= 3) {
+          const n = Math.min(run, 6);
+          runs.push([16, n - 3]);
+          run -= n;
+        }
+      }
+      for (; run > 0; run--) runs.push([len, 0]);
+    }
+
+    const clFreq = new Uint32Array(19);
+    for (const [code] of runs) clFreq[code]++;
+    const clLengths = codeLengths(clFreq, 7);
+    const clCodes = canonicalCodes(clLengths);
+    let hclen = 19;
+    while (hclen > 4 && clLengths[CODE_LENGTH_ORDER[hclen - 1]] === 0) hclen--;
+
+    bits.write(final ? 1 : 0, 1);
+    bits.write(2, 2);
+    bits.write(hlit - 257, 5);
+    bits.write(hdist - 1, 5);
+    bits.write(hclen - 4, 4);
+    for (let i = 0; i < hclen; i++) bits.write(clLengths[CODE_LENGTH_ORDER[i]], 3);
+    for (const [code, extra] of runs) {
+      bits.write(clCodes[code], clLengths[code]);
+      if (code === 16) bits.write(extra, 2);
+      else if (code === 17) bits.write(extra, 3);
+      else if (code === 18) bits.write(extra, 7);
+    }
+
+    for (let i = 0; i < count; i++) {
+      const symbol = symbols[i];
+      bits.write(litCodes[symbol], litLengths[symbol]);
+      if (symbol > 256) {
+        const code = symbol - 257;
+        if (LENGTH_EXTRA[code]) bits.write(extras[i], LENGTH_EXTRA[code]);
+        const distance = distances[i];
+        const dcode = DIST_CODE[distance];
+        bits.write(distCodes[dcode], distLengths[dcode]);
+        if (DIST_EXTRA[dcode]) bits.write(distance - DIST_BASE[dcode], DIST_EXTRA[dcode]);
+      }
+    }
+  };
+
+  const begin = () => {
+    if (started) return;
+    started = true;
+    // CMF/FLG: deflate with a 32 KiB window, default compression level
+    bits.pushByte(0x78);
+    bits.pushByte(0x9c);
+  };
+
+  return {
+    write: (bytes) => {
+      begin();
+      for (let offset = 0; offset < bytes.length; ) {
+        const n = Math.min(BLOCK_INPUT - filled, bytes.length - offset);
+        const chunk = bytes.subarray(offset, offset + n);
+        buffer.set(chunk, WINDOW + filled);
+        // 5552 bytes is the most that can be summed before the modulo must be taken
+        for (let i = 0; i < n; ) {
+          const stop = Math.min(n, i + 5552);
+          for (; i < stop; i++) {
+            adlerA += chunk[i];
+            adlerB += adlerA;
+          }
+          adlerA %= 65521;
+          adlerB %= 65521;
+        }
+        filled += n;
+        offset += n;
+        if (filled === BLOCK_INPUT) compressBlock(false);
+      }
+      return bits.take();
+    },
+    finish: () => {
+      begin();
+      compressBlock(true);
+      bits.align();
+      const adler = ((adlerB << 16) | adlerA) >>> 0;
+      for (let shift = 24; shift >= 0; shift -= 8) bits.pushByte((adler >>> shift) & 0xff);
+      return bits.take();
+    },
+  };
+};
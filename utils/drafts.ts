@@ -0,0 +1,120 @@
+import { BuiltInPattern, DraftCell, ProcessorSettings, WeaveDraft } from '../types';
+
+// Largest repeat the editor (and the renderers) accept, in picks and ends
+export const MAX_DRAFT_SIZE = 16;
+
+const STORAGE_KEY = 'mosaic-weaver:drafts';
+
+const DRAFT_CELLS: DraftCell[] = ['both', 'weft', 'warp', 'none'];
+
+const fill = (rows: number, cols: number, cell: DraftCell): DraftCell[][] =>
+  Array.from({ length: rows }, () => Array.from({ length: cols }, () => cell));
+
+// Shift factors of the original hard-coded patterns, one per pick/end of the repeat.
+// Every cell floats both ways, so these reproduce the classic look exactly.
+const builtIn = (id: BuiltInPattern, name: string, factors: number[]): WeaveDraft => ({
+  id,
+  name,
+  weft: factors,
+  warp: factors,
+  cells: fill(factors.length, factors.length, 'both'),
+});
+
+export const BUILT_IN_DRAFTS: Record<BuiltInPattern, WeaveDraft> = {
+  // Checkerboard-like opposing shifts
+  plain: builtIn('plain', 'Plain Weave', [1, -1]),
+  // Diagonal progression, standard 2/2 twill-like effect
+  twill: builtIn('twill', 'Twill', [-2.25, -0.75, 0.75, 2.25]),
+  // Irregular spacing (3-step over 5) to avoid diagonal lines
+  satin: builtIn('satin', 'Satin', [-2, 1, -1, 2, 0]),
+  // 2x2 blocks move together
+  basket: builtIn('basket', 'Basket', [1, 1, -1, -1]),
+};
+
+/** The draft the renderer should use for these settings. */
+export const resolveDraft = (settings: Pick<ProcessorSettings, 'pattern' | 'draft'>): WeaveDraft => {
+  if (settings.pattern === 'custom') {
+    return settings.draft ?? BUILT_IN_DRAFTS.plain;
+  }
+  return BUILT_IN_DRAFTS[settings.pattern] ?? BUILT_IN_DRAFTS.plain;
+};
+
+export const rides = (cell: DraftCell, thread: 'weft' | 'warp') => cell === 'both' || cell === thread;
+
+/** Next state when a drawdown cell is clicked in the editor. */
+export const cycleCell = (cell: DraftCell): DraftCell =>
+  DRAFT_CELLS[(DRAFT_CELLS.indexOf(cell) + 1) % DRAFT_CELLS.length];
+
+export const createDraft = (name: string, source: WeaveDraft = BUILT_IN_DRAFTS.plain): WeaveDraft => ({
+  id: `custom-${Date.now().toString(36)}`,
+  name,
+  weft: [...source.weft],
+  warp: [...source.warp],
+  cells: source.cells.map((row) => [...row]),
+});
+
+/** Grows or shrinks a draft repeat, keeping the overlapping cells. */
+export const resizeDraft = (draft: WeaveDraft, rows: number, cols: number): WeaveDraft => {
+  const r = Math.max(1, Math.min(MAX_DRAFT_SIZE, rows));
+  const c = Math.max(1, Math.min(MAX_DRAFT_SIZE, cols));
+  return {
+    ...draft,
+    weft: Array.from({ length: r }, (_, i) => draft.weft[i] ?? 0),
+    warp: Array.from({ length: c }, (_, i) => draft.warp[i] ?? 0),
+    cells: Array.from({ length: r }, (_, y) =>
+      Array.from({ length: c }, (_, x) => draft.cells[y]?.[x] ?? 'both')
+    ),
+  };
+};
+
+const toFactor = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(-10, Math.min(10, n)) : 0;
+};
+
+/**
+ * Coerces untrusted data (localStorage, files) into a well-formed draft.
+ * Returns null when there is nothing usable.
+ */
+export const normalizeDraft = (value: unknown): WeaveDraft | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<WeaveDraft>;
+  if (!Array.isArray(raw.weft) || !Array.isArray(raw.warp) || raw.weft.length === 0 || raw.warp.length === 0) {
+    return null;
+  }
+
+  const rows = Math.min(MAX_DRAFT_SIZE, raw.weft.length);
+  const cols = Math.min(MAX_DRAFT_SIZE, raw.warp.length);
+  const cells = Array.isArray(raw.cells) ? raw.cells : [];
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `custom-${Date.now().toString(36)}`,
+    name: typeof raw.name === 'string' && raw.name ? raw.name.slice(0, 40) : 'Untitled Draft',
+    weft: raw.weft.slice(0, rows).map(toFactor),
+    warp: raw.warp.slice(0, cols).map(toFactor),
+    cells: Array.from({ length: rows }, (_, y) =>
+      Array.from({ length: cols }, (_, x) => {
+        const cell = Array.isArray(cells[y]) ? cells[y][x] : undefined;
+        return DRAFT_CELLS.includes(cell as DraftCell) ? (cell as DraftCell) : 'both';
+      })
+    ),
+  };
+};
+
+export const loadCustomDrafts = (): WeaveDraft[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeDraft).filter((d): d is WeaveDraft => d !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomDrafts = (drafts: WeaveDraft[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  } catch {
+    // Storage may be full or disabled (private mode); the library just won't persist
+  }
+};
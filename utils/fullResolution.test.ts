@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { decodePng } from '../cli/decodePng';
+import { noiseImage, sameBytes, samePixels, uniqueImage } from '../test/pixels';
+import { PixelBuffer, ProcessorMode, ProcessorSettings } from '../types';
+import { exportPixelsAsPng, getPreviewGrid, getPreviewScale, getProxySize } from './fullResolution';
+import { DEFAULT_SETTINGS } from './presets';
+import { scaleSettings } from './transition';
+import { weavePixels } from './weaveCore';
+
+const crop = (image: PixelBuffer, left: number, top: number, width: number, height: number): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((top + y) * image.width + left) * 4;
+    data.set(image.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  return { data, width, height };
+};
+
+const paste = (target: PixelBuffer, image: PixelBuffer, left: number, top: number) => {
+  for (let y = 0; y < image.height; y++) {
+    const start = ((top + y) * target.width + left) * 4;
+    target.data.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), start);
+  }
+};
+
+// Every pixel of `image` as a k×k block
+const upscale = (image: PixelBuffer, k: number): PixelBuffer => {
+  const width = image.width * k;
+  const data = new Uint8ClampedArray(width * image.height * k * 4);
+  const from = new Uint32Array(image.data.buffer);
+  const to = new Uint32Array(data.buffer);
+  for (let y = 0; y < image.height * k; y++) {
+    for (let x = 0; x < width; x++) to[y * width + x] = from[Math.floor(y / k) * image.width + Math.floor(x / k)];
+  }
+  return { data, width, height: image.height * k };
+};
+
+const exportPng = async (pixels: PixelBuffer, mode: ProcessorMode, settings: ProcessorSettings) =>
+  decodePng(new Uint8Array(await (await exportPixelsAsPng(pixels, { mode, settings })).arrayBuffer()));
+
+// 2003×1001 previews at half size and 3001×2999 at a third, each leaving strips past the last whole block
+const SIZES: [number, number, number][] = [
+  [2003, 1001, 2],
+  [3001, 2999, 3],
+];
+
+// Nine-megapixel PNGs take a few seconds each to encode and decode
+const TIMEOUT = 30_000;
+
+describe('exportPixelsAsPng', () => {
+  it.each(SIZES)('matches the proxy weave scaled up on %ix%i, weaving the edge strips on their own', async (width, height, k) => {
+    expect(getPreviewScale(width, height)).toBe(k);
+    const proxy = getProxySize(width, height, k);
+    const settings: ProcessorSettings = {
+      ...DEFAULT_SETTINGS,
+      pattern: 'twill',
+      tileSize: 24,
+      horizontalShift: 30,
+      verticalShift: 18,
+      scatterIntensity: 40,
+      seed: 5,
+      turns: { by: 'seed', set: 'all' },
+    };
+    const grid = getPreviewGrid(width, height, settings);
+    settings.swaps = { cols: grid.cols, rows: grid.rows, pairs: [[0, 5], [3, grid.cols + 2]] };
+
+    // Whole blocks of one colour each, and noise past them
+    const blocks = uniqueImage(proxy.width, proxy.height);
+    const source = noiseImage(width, height, 3);
+    paste(source, upscale(blocks, k), 0, 0);
+
+    const blocksWidth = proxy.width * k;
+    const blocksHeight = proxy.height * k;
+    const strip = { ...settings, swaps: undefined };
+    const expected = { data: new Uint8ClampedArray(width * height * 4), width, height };
+    paste(expected, upscale(weavePixels(blocks, scaleSettings(settings, 1 / k)), k), 0, 0);
+    paste(expected, weavePixels(crop(source, blocksWidth, 0, width - blocksWidth, blocksHeight), strip), blocksWidth, 0);
+    paste(expected, weavePixels(crop(source, 0, blocksHeight, width, height - blocksHeight), strip), 0, blocksHeight);
+
+    const woven = await exportPng(source, 'weave', settings);
+    expect(sameBytes(woven, expected)).toBe(true);
+    expect(sameBytes(await exportPng(woven, 'unweave', settings), source)).toBe(true);
+  }, TIMEOUT);
+
+  // Settings that scale exactly, so the whole blocks must match a weave run at full size
+  it('turns the inside of every block that lands in a turned tile', async () => {
+    const [width, height, k] = SIZES[0];
+    const settings: ProcessorSettings = {
+      ...DEFAULT_SETTINGS,
+      pattern: 'plain',
+      tileSize: 6 * k,
+      horizontalShift: 7 * k,
+      verticalShift: -4 * k,
+      scatterIntensity: 50,
+      seed: 11,
+      turns: { by: 'seed', set: 'all' },
+    };
+    const source = uniqueImage(width, height);
+    const proxy = getProxySize(width, height, k);
+    const blocks = crop(source, 0, 0, proxy.width * k, proxy.height * k);
+
+    const woven = await exportPng(source, 'weave', settings);
+    expect(samePixels(woven, source)).toBe(true);
+    expect(sameBytes(crop(woven, 0, 0, blocks.width, blocks.height), weavePixels(blocks, settings))).toBe(true);
+    expect(sameBytes(await exportPng(woven, 'unweave', settings), source)).toBe(true);
+  }, TIMEOUT);
+});
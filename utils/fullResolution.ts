@@ -0,0 +1,565 @@
+import {
+  ImageFormat,
+  InterlaceSettings,
+  PixelBuffer,
+  PreviewFrame,
+  ProcessorMode,
+  ProcessorSettings,
+  TextureView,
+} from '../types';
+import { applyComposite } from './composite';
+import { PLACEHOLDER_WEFT, readImagePixels, SourceImage } from './imageProcessing';
+import { getFitRect, getLiftPlan, interlacePixels } from './interlace';
+import { createPngStream } from './png';
+import { METADATA_KEYWORD, serializeImageMetadata } from './presets';
+import { TileSpec } from './tileLayout';
+import { needsTileOrder, withTileOrder } from './tileSort';
+import { scaleSettings } from './transition';
+import { getTileMoves } from './tileTurns';
+import { getPixelSources, getPixelTurns, getTileGrid, unweavePixels, weavePixels } from './weaveCore';
+
+// Preview proxies for large images, and the full-resolution export that matches them.
+//
+// An image over PREVIEW_MAX_PIXELS is previewed on a proxy shrunk by a whole
+// factor k, with its settings scaled to match. The export doesn't re-run the
+// weave at full size with rounded-up settings; it lifts the proxy's permutation
+// instead: every k×k block of the original moves to where its proxy pixel moved.
+// So the export is exactly the preview at scale, and still a rearrangement of
+// the original's pixels. A block that lands in a turned tile is turned inside
+// too, so a turned tile is the whole tile turned; hex and triangle tiles keep
+// the proxy's outlines, stepped in k×k blocks. The columns and rows past the
+// last whole block (fewer than k) aren't in the proxy: the strip down the right
+// and the strip along the bottom are each woven on their own, at full size with
+// the full-size settings, so they wrap within themselves.
+//
+// The export reads and writes the image in horizontal bands and streams them
+// into a PNG, so no canvas or buffer ever has to hold the whole image. JPEG and
+// WebP go through the browser's encoders, which need one canvas of the full size.
+
+/** Largest preview the live loop works on */
+export const PREVIEW_MAX_PIXELS = 2_000_000;
+// Pixels per export band; bands are also whole multiples of k rows
+const BAND_PIXELS = 4_000_000;
+// Source bands kept decoded while a band gathers its blocks
+const SOURCE_BAND_CACHE = 3;
+// Beyond these browsers refuse to create a canvas, so lossy formats can't be encoded
+const MAX_CANVAS_SIDE = 32767;
+const MAX_CANVAS_PIXELS = 268_000_000;
+
+export const IMAGE_FORMATS: Record<ImageFormat, { label: string; mime: string; extension: string; lossless: boolean }> = {
+  png: { label: 'PNG', mime: 'image/png', extension: 'png', lossless: true },
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', extension: 'jpg', lossless: false },
+  webp: { label: 'WebP', mime: 'image/webp', extension: 'webp', lossless: false },
+};
+
+/** Whole factor the preview proxy is shrunk by; 1 means the preview is full size. */
+export const getPreviewScale = (width: number, height: number) =>
+  Math.max(1, Math.min(width, height, Math.ceil(Math.sqrt((width * height) / PREVIEW_MAX_PIXELS))));
+
+/** The proxy covers whole k×k blocks only. */
+export const getProxySize = (width: number, height: number, scale: number) => ({
+  width: Math.floor(width / scale),
+  height: Math.floor(height / scale),
+});
+
+/**
+ * The tile grid the preview weaves on for a `width`×`height` image. The export lifts
+ * the proxy's permutation, so this is also the grid manual swaps are recorded against.
+ */
+export const getPreviewGrid = (width: number, height: number, tiles: TileSpec) => {
+  const scale = getPreviewScale(width, height);
+  const proxy = getProxySize(width, height, scale);
+  return getTileGrid(proxy.width, proxy.height, tiles, scale);
+};
+
+/** Downscales the whole-block part of `image` into the preview proxy. */
+export const createPreviewProxy = async (image: SourceImage, scale: number): Promise<ImageBitmap> => {
+  const { width, height } = getProxySize(image.width, image.height, scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width * scale, height * scale, 0, 0, width, height);
+  return createImageBitmap(canvas);
+};
+
+// Strip widths the proxy uses, and the same strips at full size
+const scaleStrips = (interlace: InterlaceSettings, factor: number): InterlaceSettings => ({
+  ...interlace,
+  warpWidth: interlace.warpWidth * factor,
+  weftWidth: interlace.weftWidth * factor,
+  gap: interlace.gap * factor,
+});
+
+const liftStrips = (interlace: InterlaceSettings, scale: number): InterlaceSettings => ({
+  ...interlace,
+  warpWidth: Math.max(1, Math.round(interlace.warpWidth / scale)) * scale,
+  weftWidth: Math.max(1, Math.round(interlace.weftWidth / scale)) * scale,
+  gap: Math.max(0, Math.round(interlace.gap / scale)) * scale,
+});
+
+/** A frame described in full-size pixels, restated for a proxy shrunk by `scale`. */
+export const toProxyFrame = (frame: PreviewFrame, scale: number): PreviewFrame => {
+  if (scale === 1) return frame;
+  const shrink = (settings: ProcessorSettings) => scaleSettings(settings, 1 / scale);
+  const { sample } = frame;
+  return {
+    ...frame,
+    settings: shrink(frame.settings),
+    sample: sample && {
+      settings: shrink(sample.settings),
+      handoff: sample.handoff && { ...sample.handoff, from: shrink(sample.handoff.from) },
+    },
+    interlace: frame.interlace && scaleStrips(frame.interlace, 1 / scale),
+  };
+};
+
+// The proxy of a decoded buffer, each pixel the mean of its k×k block, for where no canvas can shrink it
+const averageBlocks = (pixels: PixelBuffer, scale: number): PixelBuffer => {
+  const { width, height } = getProxySize(pixels.width, pixels.height, scale);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const area = scale * scale;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let channel = 0; channel < 4; channel++) {
+        let sum = 0;
+        for (let r = 0; r < scale; r++) {
+          const row = ((y * scale + r) * pixels.width + x * scale) * 4 + channel;
+          for (let c = 0; c < scale; c++) sum += pixels.data[row + c * 4];
+        }
+        data[(y * width + x) * 4 + channel] = Math.round(sum / area);
+      }
+    }
+  }
+  return { data, width, height };
+};
+
+const asWords = (data: Uint8ClampedArray) => new Uint32Array(data.buffer, data.byteOffset, data.byteLength >> 2);
+
+export interface FullResolutionJob {
+  mode: ProcessorMode;
+  /** In full-size pixels, as the controls show them */
+  settings: ProcessorSettings;
+  interlace?: InterlaceSettings;
+  weft?: SourceImage | null;
+  /** Defaults to PNG, the only format that keeps every pixel and carries the settings */
+  format?: ImageFormat;
+  /** 0-100, for the lossy formats */
+  quality?: number;
+}
+
+// Where finished bands go: a streamed PNG, or one big canvas for the browser's lossy encoders
+interface BandSink {
+  addRows: (rows: PixelBuffer, top: number) => void;
+  finish: () => Promise<Blob>;
+  abort?: () => void;
+}
+
+const fitsCanvas = (width: number, height: number) =>
+  width <= MAX_CANVAS_SIDE && height <= MAX_CANVAS_SIDE && width * height <= MAX_CANVAS_PIXELS;
+
+// Empties the canvas once encoded, so its memory goes back straight away
+const encodeCanvas = (canvas: HTMLCanvasElement, format: ImageFormat, quality: number) => {
+  const { label, mime } = IMAGE_FORMATS[format];
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => {
+        canvas.width = 0;
+        // Browsers without an encoder for the type silently hand back a PNG
+        if (blob && blob.type === mime) resolve(blob);
+        else reject(new Error(`This browser can't encode ${label}`));
+      },
+      mime,
+      Math.max(0, Math.min(100, quality)) / 100
+    )
+  );
+};
+
+const createCanvasSink = (width: number, height: number, format: ImageFormat, quality: number): BandSink => {
+  const { label } = IMAGE_FORMATS[format];
+  if (!fitsCanvas(width, height)) {
+    throw new Error(`This image is too large to encode as ${label}; export it as PNG instead`);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(`The browser could not allocate a canvas for ${label}; export it as PNG instead`);
+
+  return {
+    addRows: (rows, top) => ctx.putImageData(new ImageData(rows.data, rows.width, rows.height), 0, top),
+    finish: () => encodeCanvas(canvas, format, quality),
+    abort: () => {
+      canvas.width = 0;
+    },
+  };
+};
+
+const createPngSink = (width: number, height: number, job: FullResolutionJob): BandSink =>
+  createPngStream(width, height, { [METADATA_KEYWORD]: serializeImageMetadata(job.settings, job.mode) });
+
+/** Reads the `width`×`height` region of the original at (left, top) */
+type RegionReader = (left: number, top: number, width: number, height: number) => PixelBuffer;
+
+// Bands span whole k×k blocks, so a block never straddles two of them
+const getBandHeight = (width: number, scale: number) => Math.max(1, Math.floor(BAND_PIXELS / width / scale)) * scale;
+
+// Source bands by index, keeping the last few decoded
+const createBandReader = (readRegion: RegionReader, width: number, height: number, bandHeight: number) => {
+  const cache = new Map<number, PixelBuffer>();
+  return (band: number): PixelBuffer => {
+    const cached = cache.get(band);
+    if (cached) return cached;
+    const top = band * bandHeight;
+    const pixels = readRegion(0, top, width, Math.min(bandHeight, height - top));
+    cache.set(band, pixels);
+    if (cache.size > SOURCE_BAND_CACHE) cache.delete(cache.keys().next().value as number);
+    return pixels;
+  };
+};
+
+// A strip past the last whole block, woven on its own. The swaps and the sort
+// order belong to the proxy's grid, so the strip leaves them out.
+const weaveStrip = (strip: PixelBuffer, settings: ProcessorSettings, mode: ProcessorMode) => {
+  const own = { ...settings, swaps: undefined, sort: undefined };
+  return mode === 'unweave' ? unweavePixels(strip, own) : weavePixels(strip, own);
+};
+
+// Weave or unweave bands: the proxy's permutation lifted to k×k blocks, and the edge strips
+const createWeaveBands = (
+  width: number,
+  height: number,
+  readRegion: RegionReader,
+  bandHeight: number,
+  { mode, settings }: FullResolutionJob
+) => {
+  const scale = getPreviewScale(width, height);
+  const proxy = getProxySize(width, height, scale);
+  const direction = mode === 'unweave' ? 'unweave' : 'weave';
+  const proxySettings = scaleSettings(settings, 1 / scale);
+  const sources = getPixelSources(proxy.width, proxy.height, proxySettings, direction);
+  const turns = scale > 1 ? getPixelTurns(proxy.width, proxy.height, proxySettings, direction) : null;
+  const readBand = createBandReader(readRegion, width, height, bandHeight);
+
+  // The right strip runs the height of the blocks and the bottom one the full width,
+  // read a band at a time so no canvas has to be as tall as the image
+  const blocksWidth = proxy.width * scale;
+  const blocksHeight = proxy.height * scale;
+  let right: PixelBuffer | null = null;
+  if (blocksWidth < width && blocksHeight > 0) {
+    const columns = width - blocksWidth;
+    const data = new Uint8ClampedArray(columns * blocksHeight * 4);
+    for (let top = 0; top < blocksHeight; top += bandHeight) {
+      const part = readRegion(blocksWidth, top, columns, Math.min(bandHeight, blocksHeight - top));
+      data.set(part.data, top * columns * 4);
+    }
+    right = weaveStrip({ data, width: columns, height: blocksHeight }, settings, mode);
+  }
+  const bottom =
+    blocksHeight < height ? weaveStrip(readRegion(0, blocksHeight, width, height - blocksHeight), settings, mode) : null;
+
+  return (band: number): PixelBuffer => {
+    const top = band * bandHeight;
+    const base = readBand(band);
+    const rows = base.height;
+    const data = new Uint8ClampedArray(base.data);
+    const out = asWords(data);
+
+    // Group this band's blocks by the source band they come from
+    const bySource = new Map<number, number[]>();
+    const lastBlockRow = Math.min(proxy.height, Math.floor((top + rows) / scale));
+    for (let by = top / scale; by < lastBlockRow; by++) {
+      for (let bx = 0; bx < proxy.width; bx++) {
+        const block = by * proxy.width + bx;
+        const sourceBand = Math.floor((Math.floor(sources[block] / proxy.width) * scale) / bandHeight);
+        const blocks = bySource.get(sourceBand);
+        if (blocks) blocks.push(block);
+        else bySource.set(sourceBand, [block]);
+      }
+    }
+
+    for (const [sourceBand, blocks] of bySource) {
+      const src = asWords(readBand(sourceBand).data);
+      const sourceTop = sourceBand * bandHeight;
+      for (const block of blocks) {
+        const from = sources[block];
+        const sx = (from % proxy.width) * scale;
+        const sy = Math.floor(from / proxy.width) * scale - sourceTop;
+        const dx = (block % proxy.width) * scale;
+        const dy = Math.floor(block / proxy.width) * scale - top;
+        const turn = turns ? turns[block] : 0;
+        if (turn === 0) {
+          for (let r = 0; r < scale; r++) {
+            const start = (sy + r) * width + sx;
+            out.set(src.subarray(start, start + scale), (dy + r) * width + dx);
+          }
+          continue;
+        }
+        // The block lands in a turned tile, so its inside turns the same way
+        const moves = getTileMoves(turn, scale, scale);
+        for (let i = 0; i < moves.length; i++) {
+          const to = moves[i];
+          out[(dy + Math.floor(to / scale)) * width + dx + (to % scale)] =
+            src[(sy + Math.floor(i / scale)) * width + sx + (i % scale)];
+        }
+      }
+    }
+
+    if (right) {
+      const strip = asWords(right.data);
+      for (let y = top; y < Math.min(top + rows, blocksHeight); y++) {
+        out.set(strip.subarray(y * right.width, (y + 1) * right.width), (y - top) * width + blocksWidth);
+      }
+    }
+    if (bottom && top + rows > blocksHeight) {
+      const from = Math.max(top, blocksHeight);
+      const strip = bottom.data.subarray((from - blocksHeight) * width * 4);
+      data.set(strip.subarray(0, (top + rows - from) * width * 4), (from - top) * width * 4);
+    }
+
+    const woven = { data, width, height: rows };
+    return mode === 'weave' ? applyComposite(woven, base, settings) : woven;
+  };
+};
+
+const writeBands = async (
+  renderBand: (band: number) => PixelBuffer,
+  height: number,
+  bandHeight: number,
+  sink: BandSink,
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const bandCount = Math.ceil(height / bandHeight);
+  try {
+    for (let band = 0; band < bandCount; band++) {
+      signal?.throwIfAborted();
+      sink.addRows(renderBand(band), band * bandHeight);
+      onProgress(band + 1, bandCount);
+      // Let the UI breathe between bands
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    signal?.throwIfAborted();
+    return await sink.finish();
+  } catch (err) {
+    sink.abort?.();
+    throw err;
+  }
+};
+
+/**
+ * Renders `image` at full size, band by band, and encodes it.
+ * The result matches the preview proxy exactly at scale (see the top of this file).
+ */
+export const exportFullResolution = async (
+  image: SourceImage,
+  job: FullResolutionJob,
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { width, height } = image;
+  const scale = getPreviewScale(width, height);
+  const bandHeight = getBandHeight(width, scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = bandHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D is not available');
+
+  // The preview hands over its sort order; batches and restored settings find it on the same proxy here
+  const proxy = getProxySize(width, height, scale);
+  if (job.mode === 'weave' && needsTileOrder(job.settings, proxy.width, proxy.height, scale)) {
+    const proxyImage = scale > 1 ? await createPreviewProxy(image, scale) : image;
+    job = { ...job, settings: withTileOrder(job.settings, readImagePixels(proxyImage), scale) };
+  }
+
+  // Regions are never wider than the image nor taller than a band
+  const readRegion: RegionReader = (left, top, w, h) => {
+    ctx.clearRect(0, 0, w, h);
+    ctx.drawImage(image, left, top, w, h, 0, 0, w, h);
+    return ctx.getImageData(0, 0, w, h);
+  };
+
+  let renderBand: (band: number) => PixelBuffer;
+
+  if (job.mode === 'interlace') {
+    const readBand = createBandReader(readRegion, width, height, bandHeight);
+    const { interlace, weft } = job;
+    if (!interlace) throw new Error('Interlace settings are missing');
+    const strips = liftStrips(interlace, scale);
+    const lift = getLiftPlan(job.settings);
+    const rect = weft && getFitRect(weft.width, weft.height, width, height, interlace.fit, interlace.alignX, interlace.alignY);
+
+    const weftCanvas = document.createElement('canvas');
+    weftCanvas.width = width;
+    weftCanvas.height = bandHeight;
+    const weftCtx = weftCanvas.getContext('2d', { willReadFrequently: true });
+    if (!weftCtx) throw new Error('Canvas 2D is not available');
+
+    renderBand = (band) => {
+      const top = band * bandHeight;
+      const warp = readBand(band);
+      weftCtx.clearRect(0, 0, width, bandHeight);
+      if (weft && rect) {
+        weftCtx.drawImage(weft, rect.x, rect.y - top, rect.width, rect.height);
+      } else {
+        weftCtx.fillStyle = PLACEHOLDER_WEFT;
+        weftCtx.fillRect(0, 0, width, bandHeight);
+      }
+      return interlacePixels(warp, weftCtx.getImageData(0, 0, width, warp.height), lift, strips, top);
+    };
+  } else {
+    renderBand = createWeaveBands(width, height, readRegion, bandHeight, job);
+  }
+
+  const format = job.format ?? 'png';
+  const sink =
+    format === 'png' ? createPngSink(width, height, job) : createCanvasSink(width, height, format, job.quality ?? 92);
+  return writeBands(renderBand, height, bandHeight, sink, onProgress, signal);
+};
+
+/**
+ * The PNG export for pixels that are already decoded, with no DOM at all (the
+ * command-line weaver uses this). Same pixels and job, same bytes as `exportFullResolution`,
+ * except that a tile sort on a large image is found on a box-averaged proxy rather
+ * than the browser's, so tiles of near-equal value may order differently.
+ */
+export const exportPixelsAsPng = (
+  pixels: PixelBuffer,
+  job: FullResolutionJob,
+  onProgress: (done: number, total: number) => void = () => {}
+): Promise<Blob> => {
+  if (job.mode === 'interlace') throw new Error('Interlacing needs a browser');
+  const { width, height } = pixels;
+  const scale = getPreviewScale(width, height);
+  const bandHeight = getBandHeight(width, scale);
+  const proxy = getProxySize(width, height, scale);
+  if (job.mode === 'weave' && needsTileOrder(job.settings, proxy.width, proxy.height, scale)) {
+    job = { ...job, settings: withTileOrder(job.settings, scale > 1 ? averageBlocks(pixels, scale) : pixels, scale) };
+  }
+  const readRegion: RegionReader = (left, top, w, h) => {
+    if (left === 0 && w === width) {
+      return { data: pixels.data.subarray(top * width * 4, (top + h) * width * 4), width, height: h };
+    }
+    const data = new Uint8ClampedArray(w * h * 4);
+    for (let y = 0; y < h; y++) {
+      const start = ((top + y) * width + left) * 4;
+      data.set(pixels.data.subarray(start, start + w * 4), y * w * 4);
+    }
+    return { data, width: w, height: h };
+  };
+  const renderBand = createWeaveBands(width, height, readRegion, bandHeight, job);
+  return writeBands(renderBand, height, bandHeight, createPngSink(width, height, job), onProgress);
+};
+
+/** A texture's contact sheet: the exported tile repeated `repeatX`×`repeatY` times at full size. */
+export const exportContactSheet = async (
+  tile: Blob,
+  { repeatX, repeatY }: TextureView,
+  format: ImageFormat,
+  quality: number
+): Promise<Blob> => {
+  const bitmap = await createImageBitmap(tile);
+  try {
+    const width = bitmap.width * repeatX;
+    const height = bitmap.height * repeatY;
+    if (!fitsCanvas(width, height)) {
+      throw new Error(`A ${repeatX}x${repeatY} sheet of this tile is too large for the browser to encode`);
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('The browser could not allocate a canvas for the contact sheet');
+    for (let y = 0; y < repeatY; y++) {
+      for (let x = 0; x < repeatX; x++) ctx.drawImage(bitmap, x * bitmap.width, y * bitmap.height);
+    }
+    return await encodeCanvas(canvas, format, quality);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// --- Filenames and preferences ---
+
+export const DEFAULT_FILENAME_TEMPLATE = '{mode}-{pattern}-{tile}px-seed{seed}';
+
+/** Placeholders a filename template may use, with what they stand for */
+export const FILENAME_TOKENS: [string, string][] = [
+  ['mode', 'woven, unwoven or interlaced'],
+  ['pattern', 'pattern or draft name'],
+  ['tile', 'tile size, as width x height when a height is set'],
+  ['shape', 'rect, brick, hex or triangle'],
+  ['hshift', 'horizontal shift'],
+  ['vshift', 'vertical shift'],
+  ['scatter', 'scatter %'],
+  ['seed', 'seed'],
+  ['date', 'YYYY-MM-DD'],
+  ['time', 'HHMMSS'],
+];
+
+/** Fills in a filename template. Unknown placeholders keep their name; unsafe characters become dashes. */
+export const formatFilename = (
+  template: string,
+  { mode, settings }: Pick<FullResolutionJob, 'mode' | 'settings'>,
+  format: ImageFormat,
+  now = new Date()
+) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const values: Record<string, string> = {
+    mode: { weave: 'woven', unweave: 'unwoven', interlace: 'interlaced' }[mode],
+    pattern: settings.pattern === 'custom' ? settings.draft?.name ?? 'custom' : settings.pattern,
+    tile:
+      settings.tileHeight !== undefined
+        ? `${Math.round(settings.tileSize)}x${Math.round(settings.tileHeight)}`
+        : String(Math.round(settings.tileSize)),
+    shape: settings.tileShape ?? 'rect',
+    hshift: String(Math.round(settings.horizontalShift)),
+    vshift: String(Math.round(settings.verticalShift)),
+    scatter: String(Math.round(settings.scatterIntensity)),
+    seed: String(settings.seed),
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+  };
+  const name = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => values[token] ?? match)
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '');
+  return `${name || 'mosaic'}.${IMAGE_FORMATS[format].extension}`;
+};
+
+export interface ExportPreferences {
+  format: ImageFormat;
+  quality: number;
+  filenameTemplate: string;
+}
+
+const PREFERENCES_KEY = 'mosaic-weaver:export';
+
+export const loadExportPreferences = (): ExportPreferences => {
+  const defaults: ExportPreferences = { format: 'png', quality: 92, filenameTemplate: DEFAULT_FILENAME_TEMPLATE };
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? '{}');
+    return {
+      format: stored.format in IMAGE_FORMATS ? stored.format : defaults.format,
+      quality: Number.isFinite(stored.quality) ? Math.max(1, Math.min(100, stored.quality)) : defaults.quality,
+      filenameTemplate:
+        typeof stored.filenameTemplate === 'string' && stored.filenameTemplate.trim()
+          ? stored.filenameTemplate
+          : defaults.filenameTemplate,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveExportPreferences = (preferences: ExportPreferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage may be full or disabled; the preferences just won't persist
+  }
+};
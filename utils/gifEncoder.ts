@@ -0,0 +1,238 @@
+import { FrameEncoder, PixelBuffer } from '../types';
+
+// Animated GIF encoder with a single global palette.
+//
+// A weave never changes which colours are present, only where they are, so a
+// palette built from the source image fits every frame of the animation.
+// Colours are mapped to their nearest palette entry without dithering; dithering
+// would sprinkle new pixel patterns over the rearrangement.
+
+interface GifOptions {
+  width: number;
+  height: number;
+  fps: number;
+  /** Image the global palette is built from (usually the untouched source) */
+  paletteSource: PixelBuffer;
+  /** false writes no loop extension, so viewers play it once */
+  loop: boolean;
+}
+
+// Colours are bucketed to 5 bits per channel for palette building and lookup
+const key15 = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+interface ColourBox {
+  keys: number[];
+}
+
+/** Median-cut quantisation over a 15-bit colour histogram. */
+const buildPalette = ({ data }: PixelBuffer, size = 256) => {
+  const counts = new Uint32Array(32768);
+  // Sampling keeps palette building fast on very large sources
+  const step = Math.max(1, Math.floor(data.length / 4 / 250000)) * 4;
+  for (let i = 0; i < data.length; i += step) counts[key15(data[i], data[i + 1], data[i + 2])]++;
+
+  const used: number[] = [];
+  for (let k = 0; k < counts.length; k++) if (counts[k]) used.push(k);
+
+  const channel = (k: number, c: number) => (k >> (10 - c * 5)) & 31;
+  const boxes: ColourBox[] = [{ keys: used }];
+
+  while (boxes.length < size) {
+    // Split the box with the widest channel range
+    let best = -1;
+    let bestChannel = 0;
+    let bestRange = 0;
+    boxes.forEach((box, i) => {
+      if (box.keys.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 31;
+        let max = 0;
+        for (const k of box.keys) {
+          const v = channel(k, c);
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+        if (max - min > bestRange) {
+          bestRange = max - min;
+          best = i;
+          bestChannel = c;
+        }
+      }
+    });
+    if (best < 0) break;
+
+    const keys = boxes[best].keys.sort((a, b) => channel(a, bestChannel) - channel(b, bestChannel));
+    // Cut at the weighted median so busy colour regions get more entries
+    const total = keys.reduce((sum, k) => sum + counts[k], 0);
+    let acc = 0;
+    let cut = 1;
+    for (; cut < keys.length - 1; cut++) {
+      acc += counts[keys[cut - 1]];
+      if (acc >= total / 2) break;
+    }
+    boxes.splice(best, 1, { keys: keys.slice(0, cut) }, { keys: keys.slice(cut) });
+  }
+
+  const palette = new Uint8Array(size * 3);
+  boxes.forEach((box, i) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let n = 0;
+    for (const k of box.keys) {
+      const w = counts[k];
+      r += (channel(k, 0) * 8 + 4) * w;
+      g += (channel(k, 1) * 8 + 4) * w;
+      b += (channel(k, 2) * 8 + 4) * w;
+      n += w;
+    }
+    if (n === 0) return;
+    palette[i * 3] = Math.round(r / n);
+    palette[i * 3 + 1] = Math.round(g / n);
+    palette[i * 3 + 2] = Math.round(b / n);
+  });
+  return { palette, entries: Math.max(1, boxes.length) };
+};
+
+const createColourLookup = (palette: Uint8Array, entries: number) => {
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const k = key15(r, g, b);
+    if (cache[k] >= 0) return cache[k];
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < entries; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const dist = dr * dr + dg * dg + db * db;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    }
+    cache[k] = best;
+    return best;
+  };
+};
+
+// GIF LZW with variable code width (min code size 8), packed into 255-byte sub-blocks
+const lzwEncode = (indices: Uint8Array) => {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  const out: number[] = [minCodeSize];
+  let block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const writeCode = (code: number, width: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += width;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.push(255, ...block);
+        block = [];
+      }
+    }
+  };
+
+  // Dictionary keyed by (prefix code, next index); generations avoid clearing the table
+  const codes = new Int16Array(4096 * 256);
+  const stamps = new Uint32Array(4096 * 256);
+  let generation = 1;
+  let nextCode = endCode + 1;
+  let codeWidth = minCodeSize + 1;
+
+  writeCode(clearCode, codeWidth);
+  let prefix = indices[0];
+
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const slot = (prefix << 8) | k;
+    if (stamps[slot] === generation) {
+      prefix = codes[slot];
+      continue;
+    }
+
+    writeCode(prefix, codeWidth);
+    if (nextCode < 4096) {
+      codes[slot] = nextCode;
+      stamps[slot] = generation;
+      if (nextCode === 1 << codeWidth) codeWidth++;
+      nextCode++;
+    } else {
+      // Table full: start over
+      writeCode(clearCode, codeWidth);
+      generation++;
+      nextCode = endCode + 1;
+      codeWidth = minCodeSize + 1;
+    }
+    prefix = k;
+  }
+
+  writeCode(prefix, codeWidth);
+  writeCode(endCode, codeWidth);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length) out.push(block.length, ...block);
+  out.push(0);
+  return Uint8Array.from(out);
+};
+
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+
+export const createGifEncoder = ({ width, height, fps, paletteSource, loop }: GifOptions): FrameEncoder => {
+  const { palette, entries } = buildPalette(paletteSource);
+  const lookup = createColourLookup(palette, entries);
+  const parts: Uint8Array[] = [];
+  let index = 0;
+
+  parts.push(
+    Uint8Array.from([
+      ...'GIF89a'.split('').map((c) => c.charCodeAt(0)),
+      ...u16(width),
+      ...u16(height),
+      0xf7, // global colour table, 8 bits per channel, 256 entries
+      0,
+      0,
+    ]),
+    palette
+  );
+  if (loop) {
+    parts.push(
+      Uint8Array.from([
+        0x21, 0xff, 0x0b,
+        ...'NETSCAPE2.0'.split('').map((c) => c.charCodeAt(0)),
+        0x03, 0x01, 0, 0, // loop forever
+        0,
+      ])
+    );
+  }
+
+  return {
+    async addFrame({ data }: PixelBuffer) {
+      // GIF delays are in centiseconds; spread the rounding so the total stays exact
+      const delay = Math.round(((index + 1) * 100) / fps) - Math.round((index * 100) / fps);
+      index++;
+
+      const indices = new Uint8Array(width * height);
+      for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+        indices[i] = lookup(data[p], data[p + 1], data[p + 2]);
+      }
+
+      parts.push(
+        Uint8Array.from([0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0, 0]),
+        Uint8Array.from([0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0]),
+        lzwEncode(indices)
+      );
+    },
+    async finish() {
+      parts.push(Uint8Array.from([0x3b]));
+      return new Blob(parts, { type: 'image/gif' });
+    },
+  };
+};
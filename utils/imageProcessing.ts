@@ -1,52 +1,66 @@
-import { ProcessorSettings, WeavePattern } from '../types';
+import {
+  InterlaceSettings,
+  PixelBuffer,
+  PreviewFrame,
+  ProcessorMode,
+  ProcessorSettings,
+  TextureView,
+  TimelineSample,
+} from '../types';
+import { drawChoreography } from './choreography';
+import { applyComposite, isLosslessComposite } from './composite';
+import { getFitRect, getLiftPlan, interlacePixels } from './interlace';
+import { drawTextureRepeat } from './texture';
+import { withTileOrder } from './tileSort';
+import { renderTimelineSample } from './timeline';
+import { unweavePixels, weavePixels } from './weaveCore';
+import { WebglWeaver } from './webglWeaver';
 
-// Simple deterministic random based on position and seed
-const pseudoRandom = (x: number, y: number, seed: number) => {
-  const v = Math.sin(x * 12.9898 + y * 78.233 + seed) * 43758.5453;
-  return v - Math.floor(v);
-};
+// The adapters below run on the main thread and inside the render worker alike,
+// so they accept both DOM and offscreen canvases.
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type ScratchCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type SourceImage = HTMLImageElement | ImageBitmap;
 
-// Pattern logic for shifting
-const getShiftFactors = (xIndex: number, yIndex: number, pattern: WeavePattern) => {
-  let xFactor = 1;
-  let yFactor = 1;
-
-  switch (pattern) {
-    case 'plain':
-      // Checkerboard-like opposing shifts
-      xFactor = yIndex % 2 === 0 ? 1 : -1;
-      yFactor = xIndex % 2 === 0 ? 1 : -1;
-      break;
-    case 'twill':
-      // Diagonal progression
-      // Standard 2/2 twill-like effect
-      xFactor = ((yIndex % 4) - 1.5) * 1.5; 
-      yFactor = ((xIndex % 4) - 1.5) * 1.5;
-      break;
-    case 'satin':
-      // Irregular spacing to avoid diagonal lines
-      xFactor = ((yIndex * 3) % 5) - 2;
-      yFactor = ((xIndex * 3) % 5) - 2;
-      break;
-    case 'basket':
-      // 2x2 blocks move together
-      xFactor = Math.floor(yIndex / 2) % 2 === 0 ? 1 : -1;
-      yFactor = Math.floor(xIndex / 2) % 2 === 0 ? 1 : -1;
-      break;
-  }
+const getScratchContext = (canvas: ScratchCanvas) =>
+  canvas.getContext('2d', { willReadFrequently: true }) as Context2D | null;
+
+// Decoded pixels of each image, read back once and shared by every frame after
+const sourceCache = new WeakMap<SourceImage, PixelBuffer>();
+
+/** The raw pixels of `img`, read through `tempCanvas` the first time only. */
+export const getSourcePixels = (img: SourceImage, tempCanvas: ScratchCanvas): PixelBuffer | null => {
+  const cached = sourceCache.get(img);
+  if (cached) return cached;
+
+  const { width, height } = img;
+  if (tempCanvas.width !== width) tempCanvas.width = width;
+  if (tempCanvas.height !== height) tempCanvas.height = height;
+  const tempCtx = getScratchContext(tempCanvas);
+  if (!tempCtx) return null;
 
-  return { xFactor, yFactor };
+  tempCtx.clearRect(0, 0, width, height);
+  tempCtx.drawImage(img, 0, 0);
+  const pixels = tempCtx.getImageData(0, 0, width, height);
+  sourceCache.set(img, pixels);
+  return pixels;
 };
 
 /**
  * Renders the woven mosaic effect onto the provided canvas context.
- * Designed to be called inside an animation loop.
+ * Designed to be called inside an animation loop: the source pixels are read
+ * once per image and the weave geometry once per settings snapshot.
+ * In 'unweave' mode the image is treated as a woven output and restored instead.
+ * The opacity/blend composite only applies when weaving.
+ *
+ * This is only the canvas adapter: the pixel math lives in utils/weaveCore.ts.
  */
 export const renderWeave = (
-  ctx: CanvasRenderingContext2D,
-  img: HTMLImageElement,
+  ctx: Context2D,
+  img: SourceImage,
   settings: ProcessorSettings,
-  tempCanvas: HTMLCanvasElement
+  tempCanvas: ScratchCanvas,
+  mode: ProcessorMode = 'weave'
 ) => {
   const { width, height } = img;
 
@@ -54,125 +68,212 @@ export const renderWeave = (
   if (ctx.canvas.width !== width) ctx.canvas.width = width;
   if (ctx.canvas.height !== height) ctx.canvas.height = height;
 
+  // Clear destination
+  ctx.clearRect(0, 0, width, height);
+
+  const noDisplacement =
+    Math.abs(settings.horizontalShift) < 0.5 &&
+    Math.abs(settings.verticalShift) < 0.5 &&
+    settings.scatterIntensity < 0.5 &&
+    !settings.swaps?.pairs.length &&
+    !settings.sort?.order &&
+    !settings.turns &&
+    !settings.passes?.some((pass) => pass.enabled);
+
+  // If practically no effect, just draw original
+  if (noDisplacement && (mode === 'unweave' || isLosslessComposite(settings))) {
+    ctx.drawImage(img, 0, 0);
+    return;
+  }
+
+  const source = getSourcePixels(img, tempCanvas);
+  if (!source) return;
+
+  const result =
+    mode === 'unweave'
+      ? unweavePixels(source, settings)
+      : applyComposite(noDisplacement ? source : weavePixels(source, settings), source, settings);
+  ctx.putImageData(new ImageData(result.data, width, height), 0, 0);
+};
+
+/**
+ * Renders one instant of a keyframe timeline, including pattern handoffs,
+ * which need both the outgoing and the incoming weave.
+ */
+export const renderTimelineFrame = (
+  ctx: Context2D,
+  img: SourceImage,
+  sample: TimelineSample,
+  tempCanvas: ScratchCanvas
+) => {
+  if (!sample.handoff) {
+    renderWeave(ctx, img, sample.settings, tempCanvas);
+    return;
+  }
+
+  const { width, height } = img;
+  if (ctx.canvas.width !== width) ctx.canvas.width = width;
+  if (ctx.canvas.height !== height) ctx.canvas.height = height;
+
+  const source = getSourcePixels(img, tempCanvas);
+  if (!source) return;
+  const result = renderTimelineSample(source, sample);
+  ctx.putImageData(new ImageData(result.data, width, height), 0, 0);
+};
+
+// Stands in for the weft until a second image is dropped, so the pattern still reads
+export const PLACEHOLDER_WEFT = '#475569';
+
+/**
+ * Interlaces strips of `warpImg` with strips of `weftImg`, fitted into the warp
+ * image's frame. The output always has the warp image's size.
+ */
+export const renderInterlace = (
+  ctx: Context2D,
+  warpImg: SourceImage,
+  weftImg: SourceImage | null,
+  settings: ProcessorSettings,
+  interlace: InterlaceSettings,
+  tempCanvas: ScratchCanvas
+) => {
+  const { width, height } = warpImg;
+  if (ctx.canvas.width !== width) ctx.canvas.width = width;
+  if (ctx.canvas.height !== height) ctx.canvas.height = height;
   if (tempCanvas.width !== width) tempCanvas.width = width;
   if (tempCanvas.height !== height) tempCanvas.height = height;
 
-  const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-  if (!tempCtx) return;
+  const warp = getSourcePixels(warpImg, tempCanvas);
+  const tempCtx = getScratchContext(tempCanvas);
+  if (!warp || !tempCtx) return;
 
-  // Draw source to temp buffer
+  // The fitted weft depends on the fit settings, so it is redrawn per render
   tempCtx.clearRect(0, 0, width, height);
-  tempCtx.drawImage(img, 0, 0);
+  if (weftImg) {
+    const rect = getFitRect(weftImg.width, weftImg.height, width, height, interlace.fit, interlace.alignX, interlace.alignY);
+    tempCtx.drawImage(weftImg, rect.x, rect.y, rect.width, rect.height);
+  } else {
+    tempCtx.fillStyle = PLACEHOLDER_WEFT;
+    tempCtx.fillRect(0, 0, width, height);
+  }
+  const weft = tempCtx.getImageData(0, 0, width, height);
 
-  // Clear destination
+  const result = interlacePixels(warp, weft, getLiftPlan(settings), interlace);
   ctx.clearRect(0, 0, width, height);
+  ctx.putImageData(new ImageData(result.data, width, height), 0, 0);
+};
 
-  // If practically no effect, just draw original
-  if (
-    Math.abs(settings.horizontalShift) < 0.5 &&
-    Math.abs(settings.verticalShift) < 0.5 &&
-    settings.scatterIntensity < 0.5
-  ) {
-    ctx.drawImage(img, 0, 0);
-    return;
+// The image each weaver currently holds as its texture, so it is uploaded once
+const gpuSources = new WeakMap<WebglWeaver, SourceImage>();
+
+/**
+ * WebGL2 counterpart of `renderWeave` for the pure rearrangement.
+ * Returns false when the GPU can't take this image or grid; the caller then uses `renderWeave`.
+ */
+export const renderWeaveGpu = (
+  ctx: Context2D,
+  img: SourceImage,
+  settings: ProcessorSettings,
+  gpu: WebglWeaver,
+  tempCanvas: ScratchCanvas,
+  mode: 'weave' | 'unweave' = 'weave'
+) => {
+  const { width, height } = img;
+  if (gpuSources.get(gpu) !== img) {
+    const source = getSourcePixels(img, tempCanvas);
+    if (!source || !gpu.setSource(source)) return false;
+    gpuSources.set(gpu, img);
   }
+  if (!gpu.render(settings, mode)) return false;
 
-  const tileSize = Math.max(2, settings.tileSize);
-  const rows = Math.ceil(height / tileSize);
-  const cols = Math.ceil(width / tileSize);
-
-  // --- STAGE 1: Weave (Coordinate Mapping) ---
-  // Instead of drawing strips, we iterate tiles to support complex patterns easily.
-  // Performance Note: For very small tiles (e.g. 2px) this loop is heavy.
-  // Optimization: We draw to a secondary offscreen buffer for the weave pass if needed,
-  // but for "2x2, 4x4, 8x8" grids or moderate tile sizes, direct draw is fine.
-  
-  // We use the tempCanvas as the source. 
-  // We need to calculate where each tile COMES FROM or GOES TO.
-  // Let's calculate destination positions for source tiles.
-
-  for (let y = 0; y < rows; y++) {
-    for (let x = 0; x < cols; x++) {
-      const sx = x * tileSize;
-      const sy = y * tileSize;
-      const w = Math.min(tileSize, width - sx);
-      const h = Math.min(tileSize, height - sy);
-
-      // 1. Calculate Shift
-      const { xFactor, yFactor } = getShiftFactors(x, y, settings.pattern);
-      
-      const shiftX = settings.horizontalShift * xFactor;
-      const shiftY = settings.verticalShift * yFactor;
-
-      let destX = sx + shiftX;
-      let destY = sy + shiftY;
-
-      // Wrap coordinates (Toroidal)
-      destX = ((destX % width) + width) % width;
-      destY = ((destY % height) + height) % height;
-
-      // 2. Calculate Scatter (Swap Logic)
-      // To keep it stable during animation, we use the hash.
-      // We see if this tile should swap with a neighbor.
-      const hash = pseudoRandom(x, y, settings.seed);
-      const threshold = settings.scatterIntensity / 100;
-
-      // Note: True swaps in a loop are hard to make strictly bijective without a full shuffle map.
-      // For visual stability and performance, we apply a deterministic offset based on hash.
-      // This preserves pixels "locally" but might overlap slightly if not careful.
-      // To strictly preserve pixels, we would need a permutation array.
-      // Given the requirement "no elements removed/added", strict permutation is best.
-      // BUT, generating a permutation array every frame is slow if randomized.
-      // Hybrid: We determine a "swap partner" deterministically.
-      
-      let finalDestX = destX;
-      let finalDestY = destY;
-
-      if (hash < threshold) {
-        // Swap with right or down neighbor based on hash decimal
-        const swapDirection = (hash * 10) % 2 < 1 ? 'right' : 'down';
-        
-        // We only move IF we are the "primary" in the pair to avoid double moving?
-        // Simpler visual trick: Just offset by one tile size in direction.
-        // It's not 100% bijective but very close for visual "mosaic".
-        // To be strict:
-        // We really just want to render the tile at destX, destY.
-        
-        // Let's implement the scatter as a position jitter that snaps to grid
-        // This is a "Scatter" effect.
-        if (swapDirection === 'right') finalDestX = (destX + tileSize) % width;
-        else finalDestY = (destY + tileSize) % height;
+  if (ctx.canvas.width !== width) ctx.canvas.width = width;
+  if (ctx.canvas.height !== height) ctx.canvas.height = height;
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(gpu.canvas, 0, 0);
+  return true;
+};
+
+/**
+ * Draws one preview frame with whichever adapter its mode needs. Plain
+ * rearrangements go to the GPU when one is available; blends, handoffs and
+ * interlacing always take the Canvas2D path. Choreographed frames then scatter the
+ * woven tiles along their flights, and texture frames are repeated.
+ */
+export const drawPreviewFrame = (
+  ctx: Context2D,
+  img: SourceImage,
+  weftImg: SourceImage | null,
+  frame: PreviewFrame,
+  tempCanvas: ScratchCanvas,
+  gpu: WebglWeaver | null = null
+) => {
+  // A sort is resolved on the image itself; frames from the preview usually carry it already
+  const source = frame.mode === 'weave' && frame.settings.sort ? getSourcePixels(img, tempCanvas) : null;
+  const resolved: PreviewFrame = source
+    ? {
+        ...frame,
+        settings: withTileOrder(frame.settings, source),
+        sample: frame.sample && { ...frame.sample, settings: withTileOrder(frame.sample.settings, source) },
       }
+    : frame;
+  drawFrameContent(ctx, img, weftImg, resolved, tempCanvas, gpu);
+  if (resolved.choreography) {
+    const { settings, progress } = resolved.choreography;
+    drawChoreography(ctx, snapshotFrame(ctx), resolved.settings, settings, progress);
+  }
+  if (resolved.texture) repeatFrame(ctx, resolved.texture);
+};
 
-      // Handle wrapping splits for drawing
-      // If a tile wraps around the edge, we need to draw it in two parts (or 4 for corners).
-      
-      const drawWrapped = (dx: number, dy: number) => {
-        // Main body
-        if (dx + w <= width && dy + h <= height) {
-          ctx.drawImage(tempCanvas, sx, sy, w, h, dx, dy, w, h);
-        } else {
-          // It wraps. Simplified wrapping logic:
-          // Just draw it 4 times at relative offsets (-width, +width, etc) and let clip handle it?
-          // No, canvas doesn't auto-wrap.
-          // We manually draw the 4 quadrants.
-          
-          const positions = [
-            { x: dx, y: dy },
-            { x: dx - width, y: dy },
-            { x: dx, y: dy - height },
-            { x: dx - width, y: dy - height }
-          ];
-
-          positions.forEach(pos => {
-            if (pos.x + w > 0 && pos.x < width && pos.y + h > 0 && pos.y < height) {
-               ctx.drawImage(tempCanvas, sx, sy, w, h, pos.x, pos.y, w, h);
-            }
-          });
-        }
-      };
-
-      drawWrapped(finalDestX, finalDestY);
-    }
+const drawFrameContent = (
+  ctx: Context2D,
+  img: SourceImage,
+  weftImg: SourceImage | null,
+  frame: PreviewFrame,
+  tempCanvas: ScratchCanvas,
+  gpu: WebglWeaver | null
+) => {
+  if (frame.mode === 'interlace') {
+    if (frame.interlace) renderInterlace(ctx, img, weftImg, frame.settings, frame.interlace, tempCanvas);
+    return;
   }
+  if (frame.sample?.handoff) {
+    renderTimelineFrame(ctx, img, frame.sample, tempCanvas);
+    return;
+  }
+  const settings = frame.sample?.settings ?? frame.settings;
+  const pure = frame.mode === 'unweave' || isLosslessComposite(settings);
+  if (gpu && pure && renderWeaveGpu(ctx, img, settings, gpu, tempCanvas, frame.mode)) return;
+  renderWeave(ctx, img, settings, tempCanvas, frame.mode);
+};
+
+// Holds a copy of the drawn frame while it is redrawn from it; works on the main thread and in workers
+let snapshotCanvas: ScratchCanvas | null = null;
+
+const snapshotFrame = (ctx: Context2D): ScratchCanvas => {
+  const { width, height } = ctx.canvas;
+  snapshotCanvas ??=
+    typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(width, height) : document.createElement('canvas');
+  if (snapshotCanvas.width !== width) snapshotCanvas.width = width;
+  if (snapshotCanvas.height !== height) snapshotCanvas.height = height;
+  const snapshotCtx = snapshotCanvas.getContext('2d') as Context2D | null;
+  snapshotCtx?.clearRect(0, 0, width, height);
+  snapshotCtx?.drawImage(ctx.canvas, 0, 0);
+  return snapshotCanvas;
+};
+
+const repeatFrame = (ctx: Context2D, view: TextureView) => {
+  const { width, height } = ctx.canvas;
+  drawTextureRepeat(ctx, snapshotFrame(ctx), width, height, view);
+};
+
+/** Reads an image's pixels through a scratch canvas, optionally resized by `scale`. */
+export const readImagePixels = (img: SourceImage, scale = 1): PixelBuffer => {
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
 };
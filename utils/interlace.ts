@@ -0,0 +1,149 @@
+import { BuiltInPattern, FitMode, InterlaceSettings, PixelBuffer, ProcessorSettings } from '../types';
+import { resolveDraft } from './drafts';
+
+// Two-image interlacing: vertical strips of the first image (warp) and
+// horizontal strips of the second (weft) pass over and under each other.
+// The weave pattern decides, at every crossing, which strip is on top.
+
+export const DEFAULT_INTERLACE_SETTINGS: InterlaceSettings = {
+  warpWidth: 32,
+  weftWidth: 32,
+  gap: 0,
+  depth: 'shadow',
+  depthStrength: 50,
+  fit: 'cover',
+  alignX: 0,
+  alignY: 0,
+};
+
+/** lift[row][col] is true where the warp strip is on top */
+export type LiftPlan = boolean[][];
+
+const liftPlan = (rows: number, cols: number, up: (r: number, c: number) => boolean): LiftPlan =>
+  Array.from({ length: rows }, (_, r) => Array.from({ length: cols }, (_, c) => up(r, c)));
+
+// Textbook structures for the built-ins: their drafts only carry shift factors,
+// which say nothing about over/under
+const BUILT_IN_LIFT_PLANS: Record<BuiltInPattern, LiftPlan> = {
+  plain: liftPlan(2, 2, (r, c) => (r + c) % 2 === 0),
+  // 2/2 twill, stepping one end per pick
+  twill: liftPlan(4, 4, (r, c) => (c - r + 4) % 4 < 2),
+  // 5-end satin with a move of 2
+  satin: liftPlan(5, 5, (r, c) => c === (2 * r) % 5),
+  basket: liftPlan(4, 4, (r, c) => (Math.floor(r / 2) + Math.floor(c / 2)) % 2 === 0),
+};
+
+/**
+ * Over/under plan for the settings' pattern. Custom drafts use their drawdown:
+ * 'warp' cells show warp, 'weft' cells show weft, and cells floating both (or
+ * neither) way fall back to plain weave.
+ */
+export const getLiftPlan = (settings: Pick<ProcessorSettings, 'pattern' | 'draft'>): LiftPlan => {
+  if (settings.pattern !== 'custom') return BUILT_IN_LIFT_PLANS[settings.pattern] ?? BUILT_IN_LIFT_PLANS.plain;
+  const draft = resolveDraft(settings);
+  return draft.cells.map((row, r) =>
+    row.map((cell, c) => (cell === 'warp' ? true : cell === 'weft' ? false : (r + c) % 2 === 0))
+  );
+};
+
+/**
+ * Where an image of `width` x `height` is drawn inside a `frameWidth` x `frameHeight` frame.
+ * Cover crops the overflow, contain leaves empty borders, stretch ignores the aspect ratio.
+ * Alignment (-100..100) picks which side the crop or the border favours.
+ */
+export const getFitRect = (
+  width: number,
+  height: number,
+  frameWidth: number,
+  frameHeight: number,
+  fit: FitMode,
+  alignX = 0,
+  alignY = 0
+) => {
+  if (fit === 'stretch') return { x: 0, y: 0, width: frameWidth, height: frameHeight };
+  const scale =
+    fit === 'cover'
+      ? Math.max(frameWidth / width, frameHeight / height)
+      : Math.min(frameWidth / width, frameHeight / height);
+  const w = width * scale;
+  const h = height * scale;
+  const place = (free: number, align: number) => (free * (Math.max(-100, Math.min(100, align)) + 100)) / 200;
+  return { x: place(frameWidth - w, alignX), y: place(frameHeight - h, alignY), width: w, height: h };
+};
+
+/**
+ * Interlaces `warp` and `weft` (same size; fit the weft first with `getFitRect`).
+ * Gaps between strips are left transparent. `top` is the frame row the buffers
+ * start at, so a tall frame can be interlaced one band at a time.
+ */
+export const interlacePixels = (
+  warp: PixelBuffer,
+  weft: PixelBuffer,
+  lift: LiftPlan,
+  settings: InterlaceSettings,
+  top = 0
+): PixelBuffer => {
+  const { width, height } = warp;
+  const warpWidth = Math.max(1, Math.round(settings.warpWidth));
+  const weftWidth = Math.max(1, Math.round(settings.weftWidth));
+  const gap = Math.max(0, Math.round(settings.gap));
+  const colPeriod = warpWidth + gap;
+  const rowPeriod = weftWidth + gap;
+  const R = lift.length;
+  const C = lift[0].length;
+  const warpUp = (r: number, c: number) => lift[((r % R) + R) % R][((c % C) + C) % C];
+
+  const strength = settings.depth === 'none' ? 0 : Math.max(0, Math.min(100, settings.depthStrength)) / 100;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  // Height (0 under .. 1 over) of a strip at `pos` along its length, eased
+  // linearly between the centres of the crossings it passes
+  const strandHeight = (pos: number, period: number, across: number, isUp: (i: number) => boolean) => {
+    const t = (pos - (across - 1) / 2) / period;
+    const i = Math.floor(t);
+    const a = isUp(i) ? 1 : 0;
+    const b = isUp(i + 1) ? 1 : 0;
+    return a + (b - a) * (t - i);
+  };
+
+  for (let y = 0; y < height; y++) {
+    const fy = y + top;
+    const r = Math.floor(fy / rowPeriod);
+    const oy = fy - r * rowPeriod;
+    const inWeft = oy < weftWidth;
+
+    for (let x = 0; x < width; x++) {
+      const c = Math.floor(x / colPeriod);
+      const ox = x - c * colPeriod;
+      const inWarp = ox < warpWidth;
+      if (!inWarp && !inWeft) continue;
+
+      const showWarp = inWarp && (!inWeft || warpUp(r, c));
+      const p = (y * width + x) * 4;
+      const src = showWarp ? warp.data : weft.data;
+      let shade = 1;
+      let light = 0;
+
+      if (strength > 0) {
+        const h = showWarp
+          ? strandHeight(fy, rowPeriod, weftWidth, (i) => warpUp(i, c))
+          : strandHeight(x, colPeriod, warpWidth, (i) => !warpUp(r, i));
+        if (settings.depth === 'shadow') {
+          // Darker where the strip dives under its neighbour
+          shade = 1 - strength * 0.7 * (1 - h);
+        } else {
+          // A rounded sheen across the strip, strongest where it is on top
+          const across = showWarp ? (ox + 0.5) / warpWidth : (oy + 0.5) / weftWidth;
+          light = strength * 0.5 * h * Math.sin(Math.PI * across);
+        }
+      }
+
+      for (let k = 0; k < 3; k++) {
+        const v = src[p + k] * shade;
+        data[p + k] = v + (255 - v) * light;
+      }
+      data[p + 3] = src[p + 3];
+    }
+  }
+  return { data, width, height };
+};
@@ -0,0 +1,165 @@
+import { PixelBuffer } from '../types';
+import { createDeflater } from './deflate';
+
+// Low-level PNG building blocks: CRC, chunk framing, scanline filtering and zlib.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, crc = 0xffffffff) => {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return c;
+};
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/** Frames `data` as a PNG chunk: length, type, data, CRC over type + data. */
+export const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, (crc32(chunk.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0);
+  return chunk;
+};
+
+/** IHDR payload for 8-bit RGBA. */
+export const ihdr = (width: number, height: number) => {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  data[8] = 8; // bit depth
+  data[9] = 6; // colour type: RGBA
+  return data;
+};
+
+/** An uncompressed iTXt chunk: UTF-8 text under a Latin-1 keyword. */
+export const itxtChunk = (keyword: string, text: string) => {
+  const key = Uint8Array.from(keyword, (c) => c.charCodeAt(0) & 0xff);
+  const body = new TextEncoder().encode(text);
+  // keyword, NUL, compression flag + method, empty language tag and translated keyword (NUL each)
+  const data = new Uint8Array(key.length + 5 + body.length);
+  data.set(key);
+  data.set(body, key.length + 5);
+  return pngChunk('iTXt', data);
+};
+
+/**
+ * Text stored in a PNG's tEXt and uncompressed iTXt chunks, by keyword.
+ * Returns an empty object for anything that isn't a PNG.
+ */
+export const readPngText = (bytes: Uint8Array): Record<string, string> => {
+  const text: Record<string, string> = {};
+  if (bytes.length < 8 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) return text;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const latin1Decoder = new TextDecoder('latin1');
+  const latin1 = (data: Uint8Array) => latin1Decoder.decode(data);
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + length));
+    if (type === 'IEND') break;
+
+    const nul = data.indexOf(0);
+    if (nul > 0 && type === 'tEXt') {
+      text[latin1(data.subarray(0, nul))] = latin1(data.subarray(nul + 1));
+    } else if (nul > 0 && type === 'iTXt' && data[nul + 1] === 0) {
+      // Skip the language tag and translated keyword
+      const language = data.indexOf(0, nul + 3);
+      const translated = language < 0 ? -1 : data.indexOf(0, language + 1);
+      if (translated >= 0) text[latin1(data.subarray(0, nul))] = new TextDecoder().decode(data.subarray(translated + 1));
+    }
+    offset += 12 + length;
+  }
+  return text;
+};
+
+/**
+ * Raw scanlines with a filter byte per row. Uses the Sub filter, which is cheap
+ * and compresses woven images (long runs of similar neighbours) well.
+ */
+export const filterScanlines = ({ data, width, height }: PixelBuffer) => {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const o = y * (stride + 1);
+    out[o] = 1;
+    for (let i = 0; i < stride; i++) {
+      out[o + 1 + i] = (data[row + i] - (i >= 4 ? data[row + i - 4] : 0)) & 0xff;
+    }
+  }
+  return out;
+};
+
+/** zlib-wrapped deflate through the browser's CompressionStream. */
+export const zlibDeflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Finished chunks are folded into a Blob past this size, so the browser can keep them off the JS heap
+const FLUSH_BYTES = 64 * 1024 * 1024;
+// Fixed IDAT size, so chunk boundaries never depend on how the rows were fed in
+const IDAT_BYTES = 1 << 16;
+
+/**
+ * Writes an RGBA PNG one band of rows at a time, for images too large to hold
+ * in a single buffer. Compression is deterministic (see deflate.ts), so the
+ * same pixels and text always give the same file, in the browser or in Node.
+ */
+export const createPngStream = (width: number, height: number, text: Record<string, string> = {}) => {
+  const deflater = createDeflater();
+  let parts: BlobPart[] = [
+    PNG_SIGNATURE,
+    pngChunk('IHDR', ihdr(width, height)),
+    ...Object.entries(text).map(([keyword, value]) => itxtChunk(keyword, value)),
+  ];
+  let pending = 0;
+  const idat = new Uint8Array(IDAT_BYTES);
+  let idatSize = 0;
+
+  const flushIdat = () => {
+    if (idatSize === 0) return;
+    parts.push(pngChunk('IDAT', idat.subarray(0, idatSize)));
+    pending += idatSize;
+    idatSize = 0;
+    if (pending > FLUSH_BYTES) {
+      parts = [new Blob(parts)];
+      pending = 0;
+    }
+  };
+
+  const emit = (bytes: Uint8Array) => {
+    for (let offset = 0; offset < bytes.length; ) {
+      const n = Math.min(IDAT_BYTES - idatSize, bytes.length - offset);
+      idat.set(bytes.subarray(offset, offset + n), idatSize);
+      idatSize += n;
+      offset += n;
+      if (idatSize === IDAT_BYTES) flushIdat();
+    }
+  };
+
+  return {
+    /** Rows must arrive top to bottom, full width */
+    addRows: (rows: PixelBuffer) => emit(deflater.write(filterScanlines(rows))),
+    finish: async () => {
+      emit(deflater.finish());
+      flushIdat();
+      parts.push(pngChunk('IEND', new Uint8Array(0)));
+      return new Blob(parts, { type: 'image/png' });
+    },
+  };
+};
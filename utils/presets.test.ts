@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSettingsHash, DEFAULT_SETTINGS, encodeSettingsHash, parsePreset, serializePreset } from './presets';
+
+describe('parsePreset', () => {
+  it('reads a preset file written by serializePreset', () => {
+    const settings = { ...DEFAULT_SETTINGS, pattern: 'twill' as const, tileSize: 12 };
+    const preset = parsePreset(serializePreset('Twill', settings));
+    expect(preset.name).toBe('Twill');
+    expect(preset.settings).toMatchObject({ pattern: 'twill', tileSize: 12 });
+  });
+
+  it('accepts bare settings objects', () => {
+    expect(parsePreset('{"tileSize": 24}').settings.tileSize).toBe(24);
+  });
+
+  it('rejects JSON that holds no settings', () => {
+    expect(() => parsePreset('{}')).toThrow('Not a preset file');
+    expect(() => parsePreset('{"name": "x", "items": [1, 2]}')).toThrow('Not a preset file');
+    expect(() => parsePreset('[1, 2]')).toThrow('Not a preset file');
+    expect(() => parsePreset('not json')).toThrow('Not a valid JSON file');
+  });
+});
+
+describe('settings hash', () => {
+  it('carries manual swaps, so a link opens the same look', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      pattern: 'satin' as const,
+      swaps: { cols: 8, rows: 5, pairs: [[0, 9], [9, 20], [7, 39]] as [number, number][] },
+    };
+    const decoded = decodeSettingsHash(encodeSettingsHash(settings));
+    expect(decoded?.swaps).toEqual(settings.swaps);
+    expect(decoded?.pattern).toBe('satin');
+  });
+
+  it('drops malformed swap pairs', () => {
+    const hash = encodeSettingsHash(DEFAULT_SETTINGS) + '&swaps=8,5,0-9,x-3,4,-1-2,6-7';
+    expect(decodeSettingsHash(hash)?.swaps).toEqual({ cols: 8, rows: 5, pairs: [[0, 9], [6, 7]] });
+  });
+});
@@ -0,0 +1,419 @@
+import {
+  BlendMode,
+  EmbeddedSettings,
+  ProcessorMode,
+  ProcessorSettings,
+  SettingsPreset,
+  SortKey,
+  SortPath,
+  SortScope,
+  TileOrder,
+  TileSort,
+  TileShape,
+  TileSwaps,
+  TileTurns,
+  TurnSet,
+  WeavePass,
+  WeavePattern,
+} from '../types';
+import { BLEND_MODES } from './composite';
+import { normalizeDraft } from './drafts';
+import { readPngText } from './png';
+import { TILE_SHAPES } from './tileLayout';
+import { DEFAULT_TILE_SORT, SORT_WINDOW_LIMITS } from './tileSort';
+import { MAX_PASSES } from './weaveStack';
+
+// Versioned settings schema shared by URL hashes, preset files and the preset library.
+//
+// Everything coming from outside (links, files, storage) goes through
+// `migrateSettings` and then `validateSettings`, so renderWeave only ever sees
+// complete, in-range settings.
+
+export const SETTINGS_SCHEMA = 'mosaic-weaver/settings';
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SETTINGS: ProcessorSettings = {
+  tileSize: 40,
+  horizontalShift: 20,
+  verticalShift: 20,
+  scatterIntensity: 0,
+  opacity: 100,
+  blendMode: 'normal',
+  pattern: 'plain',
+  seed: 123,
+};
+
+/** Starting settings scaled to an image: a tenth of the short side per tile, a twentieth per shift. */
+export const getSizedDefaults = (width: number, height: number): ProcessorSettings => ({
+  ...DEFAULT_SETTINGS,
+  tileSize: Math.floor(Math.min(width, height) / 10),
+  horizontalShift: Math.floor(width / 20),
+  verticalShift: Math.floor(height / 20),
+});
+
+/** Accepted ranges; anything outside is clamped rather than rejected. */
+export const SETTINGS_LIMITS = {
+  tileSize: [2, 4096],
+  tileHeight: [2, 4096],
+  horizontalShift: [-4096, 4096],
+  verticalShift: [-4096, 4096],
+  scatterIntensity: [0, 100],
+  opacity: [0, 100],
+  seed: [-2147483648, 2147483647],
+} as const;
+
+const PATTERNS: WeavePattern[] = ['plain', 'twill', 'satin', 'basket', 'custom'];
+
+type RawSettings = Record<string, unknown>;
+
+// Each entry upgrades data of version N to N + 1. Version 0 is a bare,
+// unversioned ProcessorSettings object, which already matches version 1.
+const MIGRATIONS: Record<number, (raw: RawSettings) => RawSettings> = {
+  0: (raw) => raw,
+};
+
+/** Upgrades settings written by any earlier schema version to the current one. */
+export const migrateSettings = (raw: RawSettings, version: number): RawSettings => {
+  if (version > SETTINGS_VERSION) {
+    throw new Error(`These settings come from a newer version of Mosaic Weaver (schema v${version})`);
+  }
+  let data = raw;
+  for (let v = Math.max(0, Math.floor(version)); v < SETTINGS_VERSION; v++) data = MIGRATIONS[v](data);
+  return data;
+};
+
+const clampNumber = (value: unknown, key: keyof typeof SETTINGS_LIMITS, fallback: number) => {
+  const n = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  const [min, max] = SETTINGS_LIMITS[key];
+  return Math.max(min, Math.min(max, n));
+};
+
+// Far more than anyone drags by hand; keeps a hostile file from stalling the weave
+const MAX_SWAPS = 10000;
+
+const isCellIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// Manual swaps keep only well-formed pairs; the weave itself skips any that don't fit the grid
+const normalizeSwaps = (value: unknown): TileSwaps | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Partial<TileSwaps>;
+  if (!isCellIndex(raw.cols) || !isCellIndex(raw.rows) || !Array.isArray(raw.pairs)) return undefined;
+  const pairs = raw.pairs
+    .filter((pair): pair is [number, number] => Array.isArray(pair) && isCellIndex(pair[0]) && isCellIndex(pair[1]))
+    .slice(0, MAX_SWAPS)
+    .map(([a, b]): [number, number] => [a, b]);
+  return pairs.length > 0 ? { cols: raw.cols, rows: raw.rows, pairs } : undefined;
+};
+
+const SORT_KEYS: SortKey[] = ['luminance', 'hue', 'saturation', 'edges'];
+const SORT_PATHS: SortPath[] = ['rows', 'spiral', 'radial', 'hilbert'];
+const SORT_SCOPES: SortScope[] = ['image', 'window', 'row', 'column'];
+
+// A 2px grid on the largest image the app takes; the weave checks it is a permutation
+const MAX_ORDER_CELLS = 1 << 22;
+
+const normalizeOrder = (value: unknown): TileOrder | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Partial<TileOrder>;
+  if (!isCellIndex(raw.cols) || !isCellIndex(raw.rows) || !Array.isArray(raw.sources)) return undefined;
+  const cells = raw.cols * raw.rows;
+  if (cells > MAX_ORDER_CELLS || raw.sources.length !== cells || !raw.sources.every(isCellIndex)) return undefined;
+  return { cols: raw.cols, rows: raw.rows, sources: raw.sources.slice() };
+};
+
+const normalizeSort = (value: unknown): TileSort | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const pick = <T>(options: T[], v: unknown, fallback: T) => (options.includes(v as T) ? (v as T) : fallback);
+  const [minWindow, maxWindow] = SORT_WINDOW_LIMITS;
+  const window = Number(raw.window);
+  return {
+    key: pick(SORT_KEYS, raw.key, DEFAULT_TILE_SORT.key),
+    path: pick(SORT_PATHS, raw.path, DEFAULT_TILE_SORT.path),
+    scope: pick(SORT_SCOPES, raw.scope, DEFAULT_TILE_SORT.scope),
+    window: Number.isFinite(window)
+      ? Math.round(Math.max(minWindow, Math.min(maxWindow, window)))
+      : DEFAULT_TILE_SORT.window,
+    reverse: raw.reverse === true || raw.reverse === '1',
+    order: normalizeOrder(raw.order),
+  };
+};
+
+// An unset height keeps the shape regular, and the plain grid is the default shape
+const normalizeTileHeight = (value: unknown) => {
+  if (value === undefined || value === null) return undefined;
+  const height = clampNumber(value, 'tileHeight', NaN);
+  return Number.isNaN(height) ? undefined : Math.round(height);
+};
+
+const normalizeTileShape = (value: unknown) =>
+  value !== 'rect' && TILE_SHAPES.includes(value as TileShape) ? (value as TileShape) : undefined;
+
+const TURN_SETS: TurnSet[] = ['rotate', 'mirror', 'all'];
+
+const normalizeTurns = (value: unknown): TileTurns | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  if (!TURN_SETS.includes(raw.set as TurnSet)) return undefined;
+  return { by: raw.by === 'seed' ? 'seed' : 'pattern', set: raw.set as TurnSet };
+};
+
+// A custom pattern is meaningless without its draft, so it falls back to plain
+const normalizePattern = (raw: RawSettings, fallback: WeavePattern) => {
+  const draft = normalizeDraft(raw.draft) ?? undefined;
+  let pattern = PATTERNS.includes(raw.pattern as WeavePattern) ? (raw.pattern as WeavePattern) : fallback;
+  if (pattern === 'custom' && !draft) pattern = 'plain';
+  return { pattern, draft: pattern === 'custom' ? draft : undefined };
+};
+
+// Extra stack passes; those past MAX_PASSES are dropped, the rest clamped like the first pass
+const normalizePasses = (value: unknown, fallback: ProcessorSettings): WeavePass[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const ids = new Set<string>();
+  const passes = value
+    .filter((item): item is RawSettings => !!item && typeof item === 'object')
+    .slice(0, MAX_PASSES)
+    .map((raw, i): WeavePass => {
+      const id = typeof raw.id === 'string' && raw.id && !ids.has(raw.id) ? raw.id : `pass-${i + 1}`;
+      ids.add(id);
+      return {
+        id,
+        enabled: raw.enabled !== false,
+        ...normalizePattern(raw, 'plain'),
+        tileSize: Math.round(clampNumber(raw.tileSize, 'tileSize', fallback.tileSize)),
+        tileHeight: normalizeTileHeight(raw.tileHeight),
+        tileShape: normalizeTileShape(raw.tileShape),
+        horizontalShift: clampNumber(raw.horizontalShift, 'horizontalShift', 0),
+        verticalShift: clampNumber(raw.verticalShift, 'verticalShift', 0),
+        scatterIntensity: clampNumber(raw.scatterIntensity, 'scatterIntensity', 0),
+        seed: Math.floor(clampNumber(raw.seed, 'seed', fallback.seed)),
+        turns: normalizeTurns(raw.turns),
+      };
+    });
+  return passes.length > 0 ? passes : undefined;
+};
+
+/** Coerces untrusted data into complete settings, clamping numbers and dropping unknown values. */
+export const validateSettings = (value: unknown, fallback: ProcessorSettings = DEFAULT_SETTINGS): ProcessorSettings => {
+  const raw = (value && typeof value === 'object' ? value : {}) as RawSettings;
+  const { pattern, draft } = normalizePattern(raw, fallback.pattern);
+
+  return {
+    tileSize: Math.round(clampNumber(raw.tileSize, 'tileSize', fallback.tileSize)),
+    tileHeight: normalizeTileHeight(raw.tileHeight),
+    tileShape: normalizeTileShape(raw.tileShape),
+    horizontalShift: clampNumber(raw.horizontalShift, 'horizontalShift', fallback.horizontalShift),
+    verticalShift: clampNumber(raw.verticalShift, 'verticalShift', fallback.verticalShift),
+    scatterIntensity: clampNumber(raw.scatterIntensity, 'scatterIntensity', fallback.scatterIntensity),
+    opacity: clampNumber(raw.opacity, 'opacity', fallback.opacity),
+    blendMode: BLEND_MODES.includes(raw.blendMode as BlendMode) ? (raw.blendMode as BlendMode) : fallback.blendMode,
+    seed: Math.floor(clampNumber(raw.seed, 'seed', fallback.seed)),
+    pattern,
+    draft,
+    swaps: normalizeSwaps(raw.swaps),
+    sort: normalizeSort(raw.sort),
+    passes: normalizePasses(raw.passes, fallback),
+    turns: normalizeTurns(raw.turns),
+  };
+};
+
+// --- URL hash ---
+
+// Short, readable keys so a shared link stays legible
+const HASH_KEYS: [keyof ProcessorSettings, string][] = [
+  ['pattern', 'pattern'],
+  ['tileSize', 'tile'],
+  ['horizontalShift', 'hshift'],
+  ['verticalShift', 'vshift'],
+  ['scatterIntensity', 'scatter'],
+  ['opacity', 'opacity'],
+  ['blendMode', 'blend'],
+  ['seed', 'seed'],
+];
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  new TextDecoder().decode(
+    Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0))
+  );
+
+export const encodeSettingsHash = (settings: ProcessorSettings) => {
+  const params = new URLSearchParams({ mw: String(SETTINGS_VERSION) });
+  for (const [key, name] of HASH_KEYS) {
+    const value = settings[key];
+    params.set(name, typeof value === 'number' ? String(Math.round(value * 100) / 100) : String(value));
+  }
+  if (settings.pattern === 'custom' && settings.draft) {
+    params.set('draft', toBase64Url(JSON.stringify(settings.draft)));
+  }
+  if (settings.tileShape) params.set('shape', settings.tileShape);
+  if (settings.tileHeight !== undefined) params.set('tileh', String(Math.round(settings.tileHeight)));
+  if (settings.turns) {
+    params.set('turns', `${settings.turns.by},${settings.turns.set}`);
+  }
+  if (settings.passes?.length) {
+    params.set('passes', toBase64Url(JSON.stringify(settings.passes)));
+  }
+  // The order itself belongs to one image, so a link only carries the rule
+  if (settings.sort) {
+    const { key, path, scope, window, reverse } = settings.sort;
+    params.set('sort', [key, path, scope, window, reverse ? 1 : 0].join(','));
+  }
+  // Grid size, then each pair of cell indices as a-b
+  if (settings.swaps) {
+    const { cols, rows, pairs } = settings.swaps;
+    params.set('swaps', [cols, rows, ...pairs.map(([a, b]) => `${a}-${b}`)].join(','));
+  }
+  return `#${params.toString()}`;
+};
+
+/** Reads settings from a location hash; null when the hash holds no settings. */
+export const decodeSettingsHash = (hash: string): ProcessorSettings | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const version = params.get('mw');
+  if (version === null) return null;
+
+  const raw: RawSettings = {};
+  for (const [key, name] of HASH_KEYS) {
+    if (params.has(name)) raw[key] = params.get(name);
+  }
+  const draft = params.get('draft');
+  if (draft) {
+    try {
+      raw.draft = JSON.parse(fromBase64Url(draft));
+    } catch {
+      // A mangled draft just falls back to the plain pattern
+    }
+  }
+  if (params.has('shape')) raw.tileShape = params.get('shape');
+  if (params.has('tileh')) raw.tileHeight = params.get('tileh');
+  const turns = params.get('turns');
+  if (turns) {
+    const [by, set] = turns.split(',');
+    raw.turns = { by, set };
+  }
+  const passes = params.get('passes');
+  if (passes) {
+    try {
+      raw.passes = JSON.parse(fromBase64Url(passes));
+    } catch {
+      // A mangled stack just leaves the first pass
+    }
+  }
+  const sort = params.get('sort');
+  if (sort) {
+    const [key, path, scope, window, reverse] = sort.split(',');
+    raw.sort = { key, path, scope, window, reverse };
+  }
+  const swaps = params.get('swaps');
+  if (swaps) {
+    const [cols, rows, ...pairs] = swaps.split(',');
+    raw.swaps = {
+      cols: Number(cols),
+      rows: Number(rows),
+      pairs: pairs.map((pair) => pair.match(/^(\d+)-(\d+)$/)?.slice(1).map(Number)),
+    };
+  }
+
+  try {
+    return validateSettings(migrateSettings(raw, Number(version) || 0));
+  } catch {
+    return null;
+  }
+};
+
+// --- Preset files ---
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e4)}`;
+
+export const serializePreset = (name: string, settings: ProcessorSettings) =>
+  JSON.stringify({ schema: SETTINGS_SCHEMA, version: SETTINGS_VERSION, name, settings }, null, 2);
+
+/** Parses a preset file. Throws an Error with a readable message when it isn't one. */
+export const parsePreset = (text: string, fallbackName = 'Imported Preset'): SettingsPreset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  if (!data || typeof data !== 'object') throw new Error('Not a preset file');
+  const file = data as RawSettings;
+
+  // Bare settings objects (schema v0) are accepted too, as long as they hold some setting
+  const isWrapped = file.schema === SETTINGS_SCHEMA;
+  if (!isWrapped && file.schema !== undefined) throw new Error(`Unknown file type: ${String(file.schema)}`);
+  if (!isWrapped && !Object.keys(DEFAULT_SETTINGS).some((key) => key in file)) throw new Error('Not a preset file');
+  const raw = isWrapped ? file.settings : file;
+  if (!raw || typeof raw !== 'object') throw new Error('The preset has no settings');
+
+  const settings = validateSettings(migrateSettings(raw as RawSettings, isWrapped ? Number(file.version) || 0 : 0));
+  const name = typeof file.name === 'string' && file.name.trim() ? file.name.trim().slice(0, 40) : fallbackName;
+  return { id: createPresetId(), name, settings };
+};
+
+// --- Image metadata ---
+
+/** Keyword of the PNG text chunk exported images carry their settings in */
+export const METADATA_KEYWORD = 'mosaic-weaver';
+
+const MODES: ProcessorMode[] = ['weave', 'unweave', 'interlace'];
+
+// Validating first fixes the key order, so equal settings always give the same bytes
+export const serializeImageMetadata = (settings: ProcessorSettings, mode: ProcessorMode) =>
+  JSON.stringify({ schema: SETTINGS_SCHEMA, version: SETTINGS_VERSION, mode, settings: validateSettings(settings) });
+
+/** Reads metadata written by `serializeImageMetadata`; null when the text isn't ours or can't be used. */
+export const parseImageMetadata = (text: string): EmbeddedSettings | null => {
+  try {
+    const data = JSON.parse(text) as RawSettings;
+    if (data.schema !== SETTINGS_SCHEMA || !data.settings || typeof data.settings !== 'object') return null;
+    if (!MODES.includes(data.mode as ProcessorMode)) return null;
+    const settings = validateSettings(migrateSettings(data.settings as RawSettings, Number(data.version) || 0));
+    return { mode: data.mode as ProcessorMode, settings };
+  } catch {
+    return null;
+  }
+};
+
+/** Settings embedded in a PNG this app exported; null for any other file. */
+export const readEmbeddedSettings = async (file: Blob): Promise<EmbeddedSettings | null> => {
+  if (file.type !== 'image/png') return null;
+  const text = readPngText(new Uint8Array(await file.arrayBuffer()))[METADATA_KEYWORD];
+  return text ? parseImageMetadata(text) : null;
+};
+
+// --- Library ---
+
+const STORAGE_KEY = 'mosaic-weaver:presets';
+
+export const loadPresetLibrary = (): SettingsPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const version = Number(stored.version) || 0;
+    if (!Array.isArray(stored.presets)) return [];
+    return stored.presets
+      .filter((p: unknown) => p && typeof p === 'object')
+      .map((p: RawSettings) => ({
+        id: typeof p.id === 'string' ? p.id : createPresetId(),
+        name: typeof p.name === 'string' ? p.name.slice(0, 40) : 'Preset',
+        settings: validateSettings(migrateSettings((p.settings ?? {}) as RawSettings, version)),
+      }));
+  } catch {
+    return [];
+  }
+};
+
+export const savePresetLibrary = (presets: SettingsPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, presets }));
+  } catch {
+    // Storage may be full or disabled (private mode); the library just won't persist
+  }
+};
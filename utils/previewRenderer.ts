@@ -0,0 +1,168 @@
+import { PreviewFrame } from '../types';
+import { drawPreviewFrame, SourceImage } from './imageProcessing';
+import type { RenderWorkerRequest, RenderWorkerResponse } from './renderWorker';
+import { createWebglWeaver } from './webglWeaver';
+
+export type RendererBackend = 'worker' | 'main-thread';
+
+/** Draws preview frames into one <canvas>, on a worker when the browser allows it. */
+export interface PreviewRenderer {
+  backend: RendererBackend;
+  /** Resolves once the backend knows whether WebGL2 is drawing (it must pass its self-check first) */
+  webgl: Promise<boolean>;
+  setImage: (image: SourceImage) => void;
+  setWeft: (image: SourceImage | null) => void;
+  /** Queues a frame; frames superseded before they are drawn are dropped */
+  render: (frame: PreviewFrame) => void;
+  /** PNG of what the canvas currently shows */
+  snapshot: () => Promise<Blob>;
+  dispose: () => void;
+}
+
+export const isWorkerRenderingSupported = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof OffscreenCanvasRenderingContext2D !== 'undefined' &&
+  typeof createImageBitmap === 'function' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+const createWorkerRenderer = (canvas: HTMLCanvasElement): PreviewRenderer => {
+  const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+  const post = (message: RenderWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  const offscreen = canvas.transferControlToOffscreen();
+  post({ type: 'init', canvas: offscreen }, [offscreen]);
+
+  // At most one frame in flight; newer frames overwrite the one waiting behind it
+  let inFlight = false;
+  let waiting: PreviewFrame | null = null;
+  const send = (frame: PreviewFrame) => {
+    inFlight = true;
+    post({ type: 'frame', frame });
+  };
+
+  // Bitmaps are created asynchronously, so a newer image must win over a slower older one
+  let imageVersion = 0;
+  let weftVersion = 0;
+  const sendBitmap = (type: 'image' | 'weft', source: SourceImage, version: number, current: () => number) => {
+    createImageBitmap(source).then((bitmap) => {
+      if (version !== current()) {
+        bitmap.close();
+        return;
+      }
+      post({ type, image: bitmap }, [bitmap]);
+    });
+  };
+
+  let resolveWebgl: (webgl: boolean) => void = () => {};
+  const webgl = new Promise<boolean>((resolve) => (resolveWebgl = resolve));
+
+  let nextSnapshot = 0;
+  const snapshots = new Map<number, { resolve: (blob: Blob) => void; reject: (err: Error) => void }>();
+
+  worker.onmessage = (e: MessageEvent<RenderWorkerResponse>) => {
+    const message = e.data;
+    if (message.type === 'ready') {
+      resolveWebgl(message.webgl);
+      return;
+    }
+    if (message.type === 'rendered') {
+      inFlight = false;
+      if (waiting) {
+        send(waiting);
+        waiting = null;
+      }
+      return;
+    }
+    const pending = snapshots.get(message.id);
+    snapshots.delete(message.id);
+    if (message.blob) pending?.resolve(message.blob);
+    else pending?.reject(new Error(message.error ?? 'Export failed'));
+  };
+  // A crashed frame must not leave the queue stuck
+  worker.onerror = () => {
+    inFlight = false;
+    resolveWebgl(false);
+  };
+
+  return {
+    backend: 'worker',
+    webgl,
+    setImage: (image) => sendBitmap('image', image, ++imageVersion, () => imageVersion),
+    setWeft: (image) => {
+      const version = ++weftVersion;
+      if (image) sendBitmap('weft', image, version, () => weftVersion);
+      else post({ type: 'weft', image: null });
+    },
+    render: (frame) => {
+      if (inFlight) waiting = frame;
+      else send(frame);
+    },
+    snapshot: () =>
+      new Promise((resolve, reject) => {
+        const id = nextSnapshot++;
+        snapshots.set(id, { resolve, reject });
+        post({ type: 'snapshot', id });
+      }),
+    dispose: () => {
+      resolveWebgl(false);
+      worker.terminate();
+      snapshots.forEach(({ reject }) => reject(new Error('The preview was closed')));
+      snapshots.clear();
+    },
+  };
+};
+
+// The original path: everything on the main thread, drawn as soon as it is asked for
+const createMainThreadRenderer = (canvas: HTMLCanvasElement): PreviewRenderer => {
+  const ctx = canvas.getContext('2d', { alpha: false });
+  const scratch = document.createElement('canvas');
+  const gpu = createWebglWeaver();
+  let image: SourceImage | null = null;
+  let weft: SourceImage | null = null;
+  let lastFrame: PreviewFrame | null = null;
+
+  const draw = () => {
+    if (ctx && image && lastFrame) drawPreviewFrame(ctx, image, weft, lastFrame, scratch, gpu);
+  };
+
+  return {
+    backend: 'main-thread',
+    webgl: Promise.resolve(gpu !== null),
+    setImage: (next) => {
+      image = next;
+      draw();
+    },
+    setWeft: (next) => {
+      weft = next;
+      draw();
+    },
+    render: (frame) => {
+      lastFrame = frame;
+      draw();
+    },
+    snapshot: () =>
+      new Promise((resolve, reject) =>
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png')
+      ),
+    dispose: () => {
+      gpu?.dispose();
+      scratch.remove();
+    },
+  };
+};
+
+/**
+ * Takes over `canvas` for preview rendering. With the worker backend the canvas
+ * is transferred, so it can't be drawn to or read from directly afterwards.
+ */
+export const createPreviewRenderer = (canvas: HTMLCanvasElement): PreviewRenderer => {
+  if (isWorkerRenderingSupported()) {
+    try {
+      return createWorkerRenderer(canvas);
+    } catch {
+      // Worker construction can be blocked (e.g. by a CSP); fall through
+    }
+  }
+  return createMainThreadRenderer(canvas);
+};
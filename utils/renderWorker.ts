@@ -0,0 +1,94 @@
+import { PreviewFrame } from '../types';
+import { drawPreviewFrame } from './imageProcessing';
+import { createWebglWeaver, WebglWeaver } from './webglWeaver';
+
+// Preview renderer that runs off the main thread. It owns the OffscreenCanvas
+// transferred from the preview <canvas> and only ever draws the newest frame:
+// anything that arrives while a frame is being drawn replaces what was queued.
+
+export type RenderWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | { type: 'image'; image: ImageBitmap }
+  | { type: 'weft'; image: ImageBitmap | null }
+  | { type: 'frame'; frame: PreviewFrame }
+  | { type: 'snapshot'; id: number };
+
+export type RenderWorkerResponse =
+  | { type: 'ready'; webgl: boolean }
+  | { type: 'rendered' }
+  | { type: 'snapshot'; id: number; blob?: Blob; error?: string };
+
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let gpu: WebglWeaver | null = null;
+const scratch = new OffscreenCanvas(1, 1);
+let image: ImageBitmap | null = null;
+let weft: ImageBitmap | null = null;
+// Kept so a late image or weft change can redraw without waiting for the next frame
+let lastFrame: PreviewFrame | null = null;
+let queued: PreviewFrame | null = null;
+let scheduled = false;
+// Whether the main thread is waiting to hear that its frame was drawn
+let owesAck = false;
+
+const post = (message: RenderWorkerResponse) => self.postMessage(message);
+
+const drawQueued = () => {
+  scheduled = false;
+  const frame = queued;
+  queued = null;
+  if (!frame) return;
+  lastFrame = frame;
+  try {
+    if (ctx && image) drawPreviewFrame(ctx, image, weft, frame, scratch, gpu);
+  } finally {
+    // The main thread holds further frames until this arrives
+    if (owesAck) {
+      owesAck = false;
+      post({ type: 'rendered' });
+    }
+  }
+};
+
+const schedule = (frame: PreviewFrame | null) => {
+  if (!frame) return;
+  queued = frame;
+  if (scheduled) return;
+  scheduled = true;
+  setTimeout(drawQueued, 0);
+};
+
+self.addEventListener('message', async (e: MessageEvent<RenderWorkerRequest>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'init':
+      ctx = message.canvas.getContext('2d', { alpha: false });
+      gpu = createWebglWeaver();
+      post({ type: 'ready', webgl: gpu !== null });
+      break;
+    case 'image':
+      image?.close();
+      image = message.image;
+      schedule(queued ?? lastFrame);
+      break;
+    case 'weft':
+      weft?.close();
+      weft = message.image;
+      schedule(queued ?? lastFrame);
+      break;
+    case 'frame':
+      owesAck = true;
+      schedule(message.frame);
+      break;
+    case 'snapshot':
+      // Make sure the snapshot shows the newest frame, not the one before it
+      if (queued) drawQueued();
+      try {
+        if (!ctx) throw new Error('The preview has not been drawn yet');
+        const blob = await (ctx.canvas as OffscreenCanvas).convertToBlob({ type: 'image/png' });
+        post({ type: 'snapshot', id: message.id, blob });
+      } catch (err) {
+        post({ type: 'snapshot', id: message.id, error: err instanceof Error ? err.message : 'Export failed' });
+      }
+      break;
+  }
+});
@@ -0,0 +1,147 @@
+// Scatter engine: a seeded, strictly bijective permutation of tile indices.
+//
+// Tiles are exchanged in pairs with a partner inside a small neighbourhood, so
+// every source tile lands in exactly one destination cell and no cell is left
+// empty. Only tiles of identical dimensions are paired: a clipped edge tile can
+// only trade places with another edge tile of the same size.
+
+export interface ScatterGrid {
+  cols: number;
+  rows: number;
+  /** True when the last column is narrower than a full tile. */
+  partialCol: boolean;
+  /** True when the last row is shorter than a full tile. */
+  partialRow: boolean;
+  /**
+   * Each cell's class, for tilings other than the plain grid (utils/tileLayout.ts),
+   * replacing the partial flags; `id` names the layout for the cache.
+   */
+  classes?: { id: string; of: Int32Array };
+}
+
+export interface ScatterMap {
+  cols: number;
+  rows: number;
+  /** forward[sourceIndex] = destinationIndex (row-major tile indices) */
+  forward: Int32Array;
+  /** inverse[destinationIndex] = sourceIndex */
+  inverse: Int32Array;
+}
+
+// How far (in tiles) a scattered tile may travel from its origin
+const SCATTER_RADIUS = 2;
+
+// Animation frames hit the same few maps over and over; keep a small LRU
+const CACHE_LIMIT = 32;
+const cache = new Map<string, ScatterMap>();
+
+// Small, fast seeded PRNG (mulberry32)
+export const createRng = (seed: number) => {
+  let a = (Math.floor(seed) ^ 0x9e3779b9) >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Tiles belong to the same size class only if they have identical dimensions. */
+export const sizeClass = (x: number, y: number, grid: ScatterGrid) =>
+  grid.classes
+    ? grid.classes.of[y * grid.cols + x]
+    : (grid.partialCol && x === grid.cols - 1 ? 1 : 0) | (grid.partialRow && y === grid.rows - 1 ? 2 : 0);
+
+export const identityMap = (cols: number, rows: number): ScatterMap => {
+  const forward = new Int32Array(cols * rows);
+  for (let i = 0; i < forward.length; i++) forward[i] = i;
+  return { cols, rows, forward, inverse: forward.slice() };
+};
+
+const buildScatterMap = (grid: ScatterGrid, seed: number, intensity: number): ScatterMap => {
+  const { cols, rows } = grid;
+  const map = identityMap(cols, rows);
+  const count = cols * rows;
+  if (count < 2 || intensity <= 0) return map;
+
+  const rng = createRng(seed);
+
+  // Seeded Fisher–Yates shuffle decides the order in which tiles look for a partner.
+  // Intensity only changes how long a prefix of that order is used, so raising it
+  // adds new swaps without disturbing the ones that already exist.
+  const order = new Int32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    const tmp = order[i];
+    order[i] = order[j];
+    order[j] = tmp;
+  }
+
+  // Each swap moves two tiles, so aim for half as many initiators as participants
+  const initiators = Math.round((count * Math.min(100, intensity)) / 200);
+  const used = new Uint8Array(count);
+  const candidates: number[] = [];
+
+  for (let k = 0; k < initiators; k++) {
+    const a = order[k];
+    // The partner pick is drawn unconditionally to keep the stream stable
+    const pick = rng();
+    if (used[a]) continue;
+
+    const ax = a % cols;
+    const ay = Math.floor(a / cols);
+    const cls = sizeClass(ax, ay, grid);
+
+    candidates.length = 0;
+    for (let dy = -SCATTER_RADIUS; dy <= SCATTER_RADIUS; dy++) {
+      for (let dx = -SCATTER_RADIUS; dx <= SCATTER_RADIUS; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        // The image is a torus, so the neighbourhood wraps too
+        const bx = (((ax + dx) % cols) + cols) % cols;
+        const by = (((ay + dy) % rows) + rows) % rows;
+        const b = by * cols + bx;
+        if (b === a || used[b] || sizeClass(bx, by, grid) !== cls) continue;
+        if (!candidates.includes(b)) candidates.push(b);
+      }
+    }
+    if (candidates.length === 0) continue;
+
+    const b = candidates[Math.floor(pick * candidates.length)];
+    used[a] = 1;
+    used[b] = 1;
+    map.forward[a] = b;
+    map.forward[b] = a;
+  }
+
+  for (let i = 0; i < count; i++) map.inverse[map.forward[i]] = i;
+  return map;
+};
+
+/**
+ * Returns the scatter permutation for a tile grid, building it on first use.
+ * Maps are cached per (grid, seed, intensity) so animation frames reuse them.
+ */
+export const getScatterMap = (grid: ScatterGrid, seed: number, intensity: number): ScatterMap => {
+  // Intensity is interpolated during animation; whole percents are plenty
+  const level = Math.max(0, Math.min(100, Math.round(intensity)));
+  const layout = grid.classes?.id ?? `${grid.cols}x${grid.rows}:${grid.partialCol ? 1 : 0}${grid.partialRow ? 1 : 0}`;
+  const key = `${layout}:${seed}:${level}`;
+
+  const cached = cache.get(key);
+  if (cached) {
+    // Refresh LRU position
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+
+  const map = buildScatterMap(grid, seed, level);
+  cache.set(key, map);
+  if (cache.size > CACHE_LIMIT) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  return map;
+};
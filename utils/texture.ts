@@ -0,0 +1,85 @@
+import { ImageDimensions, TextureSettings, TextureView } from '../types';
+import type { Context2D, SourceImage } from './imageProcessing';
+
+// Texture mode. Every weave stage wraps around the image edges, so the weave adds
+// no seam of its own where copies of the output meet: a source that tiles gives a
+// woven tile that tiles too. Power-of-two sizes are applied to the source before
+// weaving, which keeps that property; cropping or resampling the woven output would not.
+
+export const DEFAULT_TEXTURE_SETTINGS: TextureSettings = {
+  enabled: false,
+  repeatX: 3,
+  repeatY: 3,
+  offset: false,
+  resize: 'none',
+  width: 0,
+  height: 0,
+};
+
+export const TEXTURE_SIDES = [64, 128, 256, 512, 1024, 2048, 4096, 8192];
+
+export const MAX_REPEAT = 8;
+
+// The repeated preview is drawn smaller beyond this, however large the tile
+const REPEAT_MAX_PIXELS = 4_000_000;
+
+// Cropping can only shrink, so it takes the power of two at or below the side;
+// resampling takes the closest one either way
+const nearestPowerOfTwo = (side: number, resize: TextureSettings['resize']) => {
+  const exponent = resize === 'crop' ? Math.floor(Math.log2(side)) : Math.round(Math.log2(side));
+  return 2 ** Math.max(0, exponent);
+};
+
+/** Size of the tile the weave works on, for a source of `width`×`height`. */
+export const getTextureSize = (width: number, height: number, texture: TextureSettings): ImageDimensions => {
+  if (!texture.enabled || texture.resize === 'none') return { width, height };
+  const side = (chosen: number, original: number) => {
+    const target = chosen > 0 ? chosen : nearestPowerOfTwo(original, texture.resize);
+    // A crop can't reach past the image, so an oversized choice falls back to the largest that fits
+    return texture.resize === 'crop' && target > original ? nearestPowerOfTwo(original, 'crop') : target;
+  };
+  return { width: side(texture.width, width), height: side(texture.height, height) };
+};
+
+/** The source cropped (centred) or resampled to the texture size; the image itself when nothing changes. */
+export const prepareTextureSource = async (image: SourceImage, texture: TextureSettings): Promise<SourceImage> => {
+  const { width, height } = getTextureSize(image.width, image.height, texture);
+  if (width === image.width && height === image.height) return image;
+  if (texture.resize === 'crop') {
+    const x = Math.floor((image.width - width) / 2);
+    const y = Math.floor((image.height - height) / 2);
+    return createImageBitmap(image, x, y, width, height);
+  }
+  return createImageBitmap(image, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+};
+
+/**
+ * Draws `tile` repeated `repeatX`×`repeatY` times onto `ctx`, resizing its canvas.
+ * With `offset`, the grid starts half a tile in, so the seams run through the middle.
+ */
+export const drawTextureRepeat = (
+  ctx: Context2D,
+  tile: CanvasImageSource,
+  tileWidth: number,
+  tileHeight: number,
+  { repeatX, repeatY, offset }: TextureView,
+  maxPixels = REPEAT_MAX_PIXELS
+) => {
+  const scale = Math.min(1, Math.sqrt(maxPixels / (tileWidth * tileHeight * repeatX * repeatY)));
+  const cellWidth = tileWidth * scale;
+  const cellHeight = tileHeight * scale;
+  const width = Math.max(1, Math.round(cellWidth * repeatX));
+  const height = Math.max(1, Math.round(cellHeight * repeatY));
+  if (ctx.canvas.width !== width) ctx.canvas.width = width;
+  if (ctx.canvas.height !== height) ctx.canvas.height = height;
+  ctx.imageSmoothingQuality = 'high';
+
+  // One extra row and column cover the half tiles the offset exposes
+  const startX = offset ? -cellWidth / 2 : 0;
+  const startY = offset ? -cellHeight / 2 : 0;
+  for (let y = 0; y < repeatY + (offset ? 1 : 0); y++) {
+    for (let x = 0; x < repeatX + (offset ? 1 : 0); x++) {
+      ctx.drawImage(tile, startX + x * cellWidth, startY + y * cellHeight, cellWidth, cellHeight);
+    }
+  }
+};
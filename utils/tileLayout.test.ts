@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { decodePng } from '../cli/decodePng';
+import { sameBytes, samePixels, uniqueImage } from '../test/pixels';
+import { PixelBuffer, ProcessorSettings, TileShape } from '../types';
+import { exportPixelsAsPng, getPreviewScale } from './fullResolution';
+import { DEFAULT_SETTINGS } from './presets';
+import { getTileDimensions } from './tileLayout';
+import { unweavePixels, weavePixels } from './weaveCore';
+
+const SHAPED: TileShape[] = ['brick', 'hex', 'triangle'];
+
+const shaped = (partial: Partial<ProcessorSettings>): ProcessorSettings => ({
+  ...DEFAULT_SETTINGS,
+  pattern: 'twill',
+  horizontalShift: 9,
+  verticalShift: 5,
+  scatterIntensity: 50,
+  seed: 7,
+  ...partial,
+});
+
+const expectRoundTrip = (source: PixelBuffer, settings: ProcessorSettings) => {
+  const woven = weavePixels(source, settings);
+  expect(samePixels(woven, source)).toBe(true);
+  expect(unweavePixels(woven, settings).data).toEqual(source.data);
+};
+
+describe('getTileDimensions', () => {
+  it('keeps hex and triangle widths even at any size and proxy scale', () => {
+    for (const tileShape of ['hex', 'triangle'] as TileShape[]) {
+      for (let tileSize = 2; tileSize <= 41; tileSize++) {
+        for (const scale of [1, 2, 3, 5]) {
+          expect(getTileDimensions({ tileShape, tileSize }, scale).width % 2).toBe(0);
+        }
+      }
+    }
+  });
+});
+
+describe('shaped tilings', () => {
+  // Odd widths once pushed odd hex rows off the even rows' outline
+  it.each([
+    [27, 33, 11],
+    [64, 58, 7],
+    [51, 51, 17],
+  ])('weaves a %ix%i image in hexes of %i as a permutation that unweaves', (width, height, tileSize) => {
+    expectRoundTrip(uniqueImage(width, height), shaped({ tileShape: 'hex', tileSize }));
+  });
+
+  it.each(SHAPED)('round-trips %s tiles of every small size and height', (tileShape) => {
+    const source = uniqueImage(41, 29);
+    for (let tileSize = 2; tileSize <= 15; tileSize++) {
+      for (const tileHeight of [undefined, 3, tileSize + 2]) {
+        expectRoundTrip(source, shaped({ tileShape, tileSize, tileHeight }));
+      }
+    }
+  });
+
+  // 2100×1100 previews at half size, where a 30px hex is 15px wide on the proxy
+  it('round-trips a full-resolution hex export through a proxy', async () => {
+    const width = 2100;
+    const height = 1100;
+    expect(getPreviewScale(width, height)).toBe(2);
+    const source = uniqueImage(width, height);
+    const settings = shaped({ tileShape: 'hex', tileSize: 30 });
+    const exportPng = async (pixels: PixelBuffer, mode: 'weave' | 'unweave') =>
+      decodePng(new Uint8Array(await (await exportPixelsAsPng(pixels, { mode, settings })).arrayBuffer()));
+
+    const woven = await exportPng(source, 'weave');
+    expect(samePixels(woven, source)).toBe(true);
+    expect(sameBytes(await exportPng(woven, 'unweave'), source)).toBe(true);
+  });
+});
@@ -0,0 +1,405 @@
+import { ProcessorSettings, TileShape } from '../types';
+
+// Tile layouts: how an image is cut into cells, for every tile shape.
+//
+// Each tiling is a lattice with whole-pixel periods, and a pixel belongs to the
+// cell its centre falls in, worked out in whole numbers relative to the lattice.
+// So any two cells of the same kind are exact pixel translates of each other,
+// which is what lets them trade places without losing a pixel. Cells are
+// numbered on a cols×rows grid of the shape's own rows and columns:
+//   rect     - the plain grid; a clipped edge cell is a smaller rectangle
+//   brick    - rows of rectangles, every other row offset by half a tile
+//   hex      - pointy-topped hexagons in rows offset the same way; a column zigzags
+//   triangle - rows alternating up and down triangles, half a tile apart
+// In the plain grid a clipped edge cell still matches the others of its size.
+// In the other tilings a clipped cell matches no other, so it stays put.
+
+export type TileSpec = Pick<ProcessorSettings, 'tileSize' | 'tileHeight' | 'tileShape'>;
+
+export const TILE_SHAPES: TileShape[] = ['rect', 'brick', 'hex', 'triangle'];
+
+// Row height per tile width of each shape when no height is given
+const REGULAR_HEIGHT: Record<TileShape, number> = {
+  rect: 1,
+  brick: 0.5,
+  hex: Math.sqrt(3) / 2,
+  triangle: Math.sqrt(3) / 2,
+};
+
+/** One cell's pixels, the same for every cell of its kind */
+export interface TileKind {
+  /**
+   * Pixel offsets from the cell's anchor, in row-major order. Empty on the plain
+   * grid, whose cells are just their bounding box, and for a cell too large to fit the image.
+   */
+  xs: Int32Array;
+  ys: Int32Array;
+  /** Bounding box of the cell's pixels, relative to the anchor */
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** The cell's outline relative to its anchor, for drawing it */
+  outline: [number, number][];
+}
+
+export interface TileLayout {
+  /** Names the layout (image size, shape and tile size) for caches built on it */
+  id: string;
+  shape: TileShape;
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  cols: number;
+  rows: number;
+  /** Lattice indices of the grid's first column and row */
+  firstCol: number;
+  firstRow: number;
+  /** The anchor (x, y) of every cell, two entries per cell */
+  anchors: Int32Array;
+  /** Index into `kinds` per cell */
+  kindOf: Uint8Array;
+  kinds: TileKind[];
+  /**
+   * Cells only trade places within a class: the size class on the plain grid,
+   * and the kind elsewhere, a clipped cell having a class (below zero) of its own.
+   */
+  classes: Int32Array;
+  /** How far apart (px) neighbouring cells of one class sit along a row and down a column */
+  pitchX: number;
+  pitchY: number;
+}
+
+/** Row height per tile width: the custom height's, or the shape's regular one. */
+export const getTileAspect = (tiles: TileSpec) =>
+  tiles.tileHeight !== undefined ? tiles.tileHeight / tiles.tileSize : REGULAR_HEIGHT[tiles.tileShape ?? 'rect'];
+
+/** Whole-pixel tile width and row height of `tiles`, shrunk by `scale` for a proxy. */
+export const getTileDimensions = (tiles: TileSpec, scale = 1) => {
+  const shape = tiles.tileShape ?? 'rect';
+  let width = Math.max(2, Math.round(tiles.tileSize / scale));
+  // Triangles sit half a tile apart and odd hex rows are pushed right by half a
+  // tile, which has to be a whole number of pixels for every cell to share one outline
+  if (shape === 'triangle' || shape === 'hex') width += width % 2;
+  let height = Math.max(2, Math.round((tiles.tileHeight ?? tiles.tileSize * REGULAR_HEIGHT[shape]) / scale));
+  // Shorter hex rows would reach past the next row but one
+  if (shape === 'hex') height = Math.max(height, Math.floor(width / 2) + 1);
+  return { width, height };
+};
+
+// Odd rows of bricks and hexes are pushed right by half a tile
+const rowOffset = (row: number, width: number) => (row & 1 ? Math.floor(width / 2) : 0);
+
+// The lattice cell [col, row] holding the pixel at (x, y). Pixel centres are
+// compared in doubled coordinates, so every test is exact.
+const locate = (shape: TileShape, w: number, h: number, x: number, y: number): [number, number] => {
+  const row = Math.floor(y / h);
+  switch (shape) {
+    case 'rect':
+      return [Math.floor(x / w), row];
+    case 'brick':
+      return [Math.floor((x - rowOffset(row, w)) / w), row];
+    case 'hex': {
+      // The nearest centre, from the row the pixel falls in and the rows either side
+      let best: [number, number] = [0, row];
+      let bestDistance = Infinity;
+      for (let r = row - 1; r <= row + 1; r++) {
+        const offset = rowOffset(r, w);
+        const c = Math.floor((x - offset) / w);
+        const dx = 2 * x + 1 - (2 * (c * w + offset) + w);
+        const dy = 2 * y + 1 - (2 * r * h + h);
+        const distance = dx * dx + dy * dy;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = [c, r];
+        }
+      }
+      return best;
+    }
+    case 'triangle': {
+      // Between two apexes half a tile apart, the diagonal splits the pixel row
+      const half = w / 2;
+      const k = Math.floor(x / half);
+      const across = (2 * x + 1 - 2 * k * half) * h;
+      const down = (2 * y + 1 - 2 * row * h) * half;
+      const up = ((k + row) & 1) === 0;
+      const first = up ? across < down : across < 2 * h * half - down;
+      return [first ? k : k + 1, row];
+    }
+  }
+};
+
+const anchorOf = (shape: TileShape, w: number, h: number, col: number, row: number): [number, number] => {
+  switch (shape) {
+    case 'rect':
+      return [col * w, row * h];
+    case 'triangle':
+      // A triangle's anchor is its apex column
+      return [(col * w) / 2, row * h];
+    default:
+      return [col * w + rowOffset(row, w), row * h];
+  }
+};
+
+// Up triangles are kind 0, down ones kind 1; the other shapes have one kind
+const kindAt = (shape: TileShape, col: number, row: number) => (shape === 'triangle' ? (col + row) & 1 : 0);
+
+const outlineOf = (shape: TileShape, kind: number, w: number, h: number): [number, number][] => {
+  switch (shape) {
+    case 'hex': {
+      // Where the perpendicular bisectors to the neighbouring rows' centres meet
+      const e = (w * w) / (8 * h);
+      return [[w / 2, -e], [w, e], [w, h - e], [w / 2, h + e], [0, h - e], [0, e]];
+    }
+    case 'triangle':
+      return kind === 0 ? [[0, 0], [w / 2, h], [-w / 2, h]] : [[-w / 2, 0], [w / 2, 0], [0, h]];
+    default:
+      return [[0, 0], [w, 0], [w, h], [0, h]];
+  }
+};
+
+// A cell of the given kind rasterised far from the image's edges, as offsets from its anchor
+const rasterizeKind = (shape: TileShape, kind: number, w: number, h: number): TileKind => {
+  const col = 4 + kind;
+  const row = 4;
+  const [ax, ay] = anchorOf(shape, w, h, col, row);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let [left, right] = [Infinity, -Infinity];
+  for (let y = ay - 2 * h; y < ay + 3 * h; y++) {
+    for (let x = ax - 2 * w; x < ax + 3 * w; x++) {
+      const [c, r] = locate(shape, w, h, x, y);
+      if (c !== col || r !== row) continue;
+      xs.push(x - ax);
+      ys.push(y - ay);
+      left = Math.min(left, x - ax);
+      right = Math.max(right, x - ax);
+    }
+  }
+  return {
+    xs: Int32Array.from(xs),
+    ys: Int32Array.from(ys),
+    left,
+    top: ys[0],
+    width: right - left + 1,
+    height: ys[ys.length - 1] - ys[0] + 1,
+    outline: outlineOf(shape, kind, w, h),
+  };
+};
+
+// A kind known by its outline alone: a grid cell is just its box, and a tile too large for the image never moves
+const outlineKind = (outline: [number, number][]): TileKind => {
+  const xs = outline.map(([x]) => x);
+  const ys = outline.map(([, y]) => y);
+  const left = Math.floor(Math.min(...xs));
+  const top = Math.floor(Math.min(...ys));
+  return {
+    xs: new Int32Array(0),
+    ys: new Int32Array(0),
+    left,
+    top,
+    width: Math.ceil(Math.max(...xs)) - left,
+    height: Math.ceil(Math.max(...ys)) - top,
+    outline,
+  };
+};
+
+// The plain grid: clipped edge cells are kinds of their own size, as before shapes existed
+const buildGridLayout = (id: string, width: number, height: number, w: number, h: number): TileLayout => {
+  const cols = Math.ceil(width / w);
+  const rows = Math.ceil(height / h);
+  const sizes = [
+    [w, h],
+    [width - (cols - 1) * w, h],
+    [w, height - (rows - 1) * h],
+    [width - (cols - 1) * w, height - (rows - 1) * h],
+  ];
+  const kinds = sizes.map(([kw, kh]) => outlineKind(outlineOf('rect', 0, kw, kh)));
+
+  const anchors = new Int32Array(cols * rows * 2);
+  const kindOf = new Uint8Array(cols * rows);
+  for (let cell = 0; cell < kindOf.length; cell++) {
+    const c = cell % cols;
+    const r = Math.floor(cell / cols);
+    anchors[cell * 2] = c * w;
+    anchors[cell * 2 + 1] = r * h;
+    kindOf[cell] = (sizes[1][0] < w && c === cols - 1 ? 1 : 0) | (sizes[2][1] < h && r === rows - 1 ? 2 : 0);
+  }
+  return {
+    id,
+    shape: 'rect',
+    width,
+    height,
+    tileWidth: w,
+    tileHeight: h,
+    cols,
+    rows,
+    firstCol: 0,
+    firstRow: 0,
+    anchors,
+    kindOf,
+    kinds,
+    classes: Int32Array.from(kindOf),
+    pitchX: w,
+    pitchY: h,
+  };
+};
+
+const buildShapedLayout = (
+  id: string,
+  shape: TileShape,
+  width: number,
+  height: number,
+  w: number,
+  h: number
+): TileLayout => {
+  // The extreme rows and columns lie within two tiles of the image's edges
+  let [minCol, maxCol, minRow, maxRow] = [Infinity, -Infinity, Infinity, -Infinity];
+  const bandX = Math.min(width, 2 * w);
+  const bandY = Math.min(height, 2 * h);
+  for (let y = 0; y < height; y++) {
+    const edgeRow = y < bandY || y >= height - bandY;
+    for (let x = 0; x < width; x++) {
+      if (!edgeRow && x === bandX && x < width - bandX) x = width - bandX;
+      const [c, r] = locate(shape, w, h, x, y);
+      minCol = Math.min(minCol, c);
+      maxCol = Math.max(maxCol, c);
+      minRow = Math.min(minRow, r);
+      maxRow = Math.max(maxRow, r);
+    }
+  }
+
+  // A tile wider or taller than the image is never whole, so it isn't worth rasterising
+  const fits = w <= width && h <= height;
+  const kinds = (shape === 'triangle' ? [0, 1] : [0]).map((k) =>
+    fits ? rasterizeKind(shape, k, w, h) : outlineKind(outlineOf(shape, k, w, h))
+  );
+  const cols = maxCol - minCol + 1;
+  const rows = maxRow - minRow + 1;
+  const anchors = new Int32Array(cols * rows * 2);
+  const kindOf = new Uint8Array(cols * rows);
+  const classes = new Int32Array(cols * rows);
+  for (let cell = 0; cell < kindOf.length; cell++) {
+    const col = minCol + (cell % cols);
+    const row = minRow + Math.floor(cell / cols);
+    const [ax, ay] = anchorOf(shape, w, h, col, row);
+    const kind = kindAt(shape, col, row);
+    const { left, top, width: kw, height: kh } = kinds[kind];
+    anchors[cell * 2] = ax;
+    anchors[cell * 2 + 1] = ay;
+    kindOf[cell] = kind;
+    const whole = fits && ax + left >= 0 && ay + top >= 0 && ax + left + kw <= width && ay + top + kh <= height;
+    classes[cell] = whole ? kind : -(cell + 1);
+  }
+  return {
+    id,
+    shape,
+    width,
+    height,
+    tileWidth: w,
+    tileHeight: h,
+    cols,
+    rows,
+    firstCol: minCol,
+    firstRow: minRow,
+    anchors,
+    kindOf,
+    kinds,
+    classes,
+    // Triangles alternate in kind, so the next of a kind is two places along, or two rows down
+    pitchX: w,
+    pitchY: shape === 'triangle' ? 2 * h : h,
+  };
+};
+
+const CACHE_LIMIT = 16;
+const cache = new Map<string, TileLayout>();
+
+/**
+ * The layout of `tiles` on a `width`×`height` image, their sizes shrunk by `scale`.
+ * Cached like the weave geometry; the result is shared, so treat it as read-only.
+ */
+export const getTileLayout = (width: number, height: number, tiles: TileSpec, scale = 1): TileLayout => {
+  const shape = tiles.tileShape ?? 'rect';
+  const { width: w, height: h } = getTileDimensions(tiles, scale);
+  const id = `${width}x${height}:${shape}:${w}x${h}`;
+  const cached = cache.get(id);
+  if (cached) {
+    cache.delete(id);
+    cache.set(id, cached);
+    return cached;
+  }
+
+  const layout =
+    shape === 'rect' ? buildGridLayout(id, width, height, w, h) : buildShapedLayout(id, shape, width, height, w, h);
+  cache.set(id, layout);
+  if (cache.size > CACHE_LIMIT) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  return layout;
+};
+
+/** The cell holding the pixel at (x, y). */
+export const cellAt = (layout: TileLayout, x: number, y: number) => {
+  const [c, r] = locate(layout.shape, layout.tileWidth, layout.tileHeight, x, y);
+  return (r - layout.firstRow) * layout.cols + (c - layout.firstCol);
+};
+
+const cellMaps = new WeakMap<TileLayout, Int32Array>();
+
+/** The cell of every pixel, row-major. */
+export const getCellMap = (layout: TileLayout): Int32Array => {
+  let map = cellMaps.get(layout);
+  if (map) return map;
+  const { width, height } = layout;
+  map = new Int32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) map[y * width + x] = cellAt(layout, x, y);
+  }
+  cellMaps.set(layout, map);
+  return map;
+};
+
+/** The part of a cell's bounding box inside the image, in image pixels. */
+export const getCellBounds = (layout: TileLayout, cell: number) => {
+  const { left, top, width, height } = layout.kinds[layout.kindOf[cell]];
+  const x = Math.max(0, layout.anchors[cell * 2] + left);
+  const y = Math.max(0, layout.anchors[cell * 2 + 1] + top);
+  return {
+    x,
+    y,
+    width: Math.min(layout.width, layout.anchors[cell * 2] + left + width) - x,
+    height: Math.min(layout.height, layout.anchors[cell * 2 + 1] + top + height) - y,
+  };
+};
+
+/** The first pixel of a cell inside the image, as [x, y]; null for a cell the image misses. */
+export const getCellCorner = (layout: TileLayout, cell: number): [number, number] | null => {
+  const { xs, ys } = layout.kinds[layout.kindOf[cell]];
+  if (layout.shape === 'rect') {
+    const { x, y, width, height } = getCellBounds(layout, cell);
+    return width > 0 && height > 0 ? [x, y] : null;
+  }
+  if (xs.length === 0) {
+    // A tile too large to rasterise: look for it in the image instead
+    const at = getCellMap(layout).indexOf(cell);
+    return at < 0 ? null : [at % layout.width, Math.floor(at / layout.width)];
+  }
+  const ax = layout.anchors[cell * 2];
+  const ay = layout.anchors[cell * 2 + 1];
+  for (let i = 0; i < xs.length; i++) {
+    const x = ax + xs[i];
+    const y = ay + ys[i];
+    if (x >= 0 && y >= 0 && x < layout.width && y < layout.height) return [x, y];
+  }
+  return null;
+};
+
+/** A cell's outline in image pixels, offset by (dx, dy); an SVG polygon's points. */
+export const getCellOutline = (layout: TileLayout, cell: number, dx = 0, dy = 0) => {
+  const ax = layout.anchors[cell * 2] + dx;
+  const ay = layout.anchors[cell * 2 + 1] + dy;
+  return layout.kinds[layout.kindOf[cell]].outline.map(([x, y]) => `${ax + x},${ay + y}`).join(' ');
+};
@@ -0,0 +1,225 @@
+import { PixelBuffer, ProcessorSettings, SortKey, SortPath, TileOrder, TileSort } from '../types';
+import { ScatterGrid, sizeClass } from './scatter';
+import { getCellMap, getTileDimensions, getTileLayout, TileLayout, TileSpec } from './tileLayout';
+import { getTileGrid } from './weaveCore';
+
+// Tile sorting: a content-aware rearrangement that is still a pure permutation.
+//
+// Each tile gets one number measured from its pixels, and the tiles of a group
+// (the whole image, a window, a row or a column) are laid along a path through
+// that group from the lowest value to the highest. Tiles only trade places
+// with tiles of the same size, like scatter, so the result stays a bijection.
+//
+// The order depends on the image, so it is resolved once from the pixels the
+// weave runs on and carried in the settings as a plain cell permutation. The
+// weave core, the GPU path, the export and unweave then never look at content.
+
+export const DEFAULT_TILE_SORT: TileSort = {
+  key: 'luminance',
+  path: 'rows',
+  scope: 'image',
+  window: 4,
+  reverse: false,
+};
+
+export const SORT_WINDOW_LIMITS = [2, 64] as const;
+
+const HUE_BINS = 36;
+
+const luma = (data: Uint8ClampedArray, i: number) => 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+
+/** One value per cell of `layout`, measured over the cell's pixels inside the image. */
+export const measureTiles = (pixels: PixelBuffer, layout: TileLayout, key: SortKey): Float64Array => {
+  const { data, width } = pixels;
+  const values = new Float64Array(layout.cols * layout.rows);
+  const hues = new Float64Array(HUE_BINS);
+
+  // Every cell's pixels in row-major order, gathered in one pass
+  const cellMap = getCellMap(layout);
+  const starts = new Int32Array(values.length + 1);
+  for (const cell of cellMap) starts[cell + 1]++;
+  for (let cell = 0; cell < values.length; cell++) starts[cell + 1] += starts[cell];
+  const members = new Int32Array(cellMap.length);
+  const next = starts.slice(0, values.length);
+  for (let p = 0; p < cellMap.length; p++) members[next[cellMap[p]]++] = p;
+
+  for (let cell = 0; cell < values.length; cell++) {
+    const count = starts[cell + 1] - starts[cell];
+    let sum = 0;
+    hues.fill(0);
+
+    for (let m = starts[cell]; m < starts[cell + 1]; m++) {
+      const p = members[m];
+      const i = p * 4;
+      if (key === 'luminance') {
+        sum += luma(data, i);
+      } else if (key === 'edges') {
+        // Gradients stay inside the tile, so a tile's value doesn't depend on its neighbours
+        const here = luma(data, i);
+        if ((p % width) + 1 < width && cellMap[p + 1] === cell) sum += Math.abs(luma(data, i + 4) - here);
+        if (p + width < cellMap.length && cellMap[p + width] === cell) {
+          sum += Math.abs(luma(data, i + width * 4) - here);
+        }
+      } else {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        const max = Math.max(r, g, b);
+        const chroma = max - Math.min(r, g, b);
+        if (key === 'saturation') {
+          sum += max > 0 ? chroma / max : 0;
+        } else if (chroma > 0) {
+          let hue = max === r ? (g - b) / chroma : max === g ? 2 + (b - r) / chroma : 4 + (r - g) / chroma;
+          if (hue < 0) hue += 6;
+          // Weighted by chroma, so near-greys barely vote
+          hues[Math.min(HUE_BINS - 1, Math.floor((hue / 6) * HUE_BINS))] += chroma;
+        }
+      }
+    }
+
+    if (key === 'hue') {
+      let best = -1;
+      for (let bin = 0; bin < HUE_BINS; bin++) if (hues[bin] > (best < 0 ? 0 : hues[best])) best = bin;
+      // Grey tiles have no hue and go first
+      values[cell] = best < 0 ? -1 : ((best + 0.5) * 360) / HUE_BINS;
+    } else {
+      values[cell] = count > 0 ? sum / count : 0;
+    }
+  }
+  return values;
+};
+
+// Distance along a Hilbert curve filling a `side`×`side` square (side a power of two)
+const hilbertIndex = (side: number, x: number, y: number) => {
+  let d = 0;
+  for (let s = side >> 1; s > 0; s >>= 1) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = side - 1 - x;
+        y = side - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return d;
+};
+
+// Clockwise from the top-left corner inwards
+const spiralInwards = (width: number, height: number) => {
+  const order: number[] = [];
+  let [left, top, right, bottom] = [0, 0, width - 1, height - 1];
+  while (left <= right && top <= bottom) {
+    for (let x = left; x <= right; x++) order.push(top * width + x);
+    for (let y = top + 1; y <= bottom; y++) order.push(y * width + right);
+    if (top < bottom) for (let x = right - 1; x >= left; x--) order.push(bottom * width + x);
+    if (left < right) for (let y = bottom - 1; y > top; y--) order.push(y * width + left);
+    left++;
+    top++;
+    right--;
+    bottom--;
+  }
+  return order;
+};
+
+/** The cells of a `width`×`height` block, as row-major indices, in the order the path visits them. */
+export const getPathOrder = (width: number, height: number, path: SortPath): number[] => {
+  const cells = Array.from({ length: width * height }, (_, i) => i);
+  switch (path) {
+    case 'rows':
+      return cells;
+    case 'spiral':
+      // Walked from the centre out, so the lowest values gather in the middle
+      return spiralInwards(width, height).reverse();
+    case 'radial': {
+      const cx = (width - 1) / 2;
+      const cy = (height - 1) / 2;
+      const ring = (i: number) => Math.hypot((i % width) - cx, Math.floor(i / width) - cy);
+      const angle = (i: number) => Math.atan2(Math.floor(i / width) - cy, (i % width) - cx);
+      return cells.sort((a, b) => ring(a) - ring(b) || angle(a) - angle(b) || a - b);
+    }
+    case 'hilbert': {
+      let side = 1;
+      while (side < Math.max(width, height)) side *= 2;
+      const index = cells.map((i) => hilbertIndex(side, i % width, Math.floor(i / width)));
+      return cells.sort((a, b) => index[a] - index[b]);
+    }
+  }
+};
+
+// The groups tiles are sorted within, each listed in path order
+const getGroups = ({ cols, rows }: ScatterGrid, sort: TileSort): number[][] => {
+  switch (sort.scope) {
+    case 'image':
+      return [getPathOrder(cols, rows, sort.path)];
+    case 'row':
+      return Array.from({ length: rows }, (_, r) => Array.from({ length: cols }, (_, c) => r * cols + c));
+    case 'column':
+      return Array.from({ length: cols }, (_, c) => Array.from({ length: rows }, (_, r) => r * cols + c));
+    case 'window': {
+      const side = Math.max(SORT_WINDOW_LIMITS[0], Math.round(sort.window));
+      const groups: number[][] = [];
+      for (let top = 0; top < rows; top += side) {
+        for (let left = 0; left < cols; left += side) {
+          const w = Math.min(side, cols - left);
+          const h = Math.min(side, rows - top);
+          groups.push(getPathOrder(w, h, sort.path).map((i) => (top + Math.floor(i / w)) * cols + left + (i % w)));
+        }
+      }
+      return groups;
+    }
+  }
+};
+
+/** Sorts the tiles of `pixels`, their sizes shrunk by `scale` to that image's pixels. */
+export const sortTiles = (pixels: PixelBuffer, tiles: TileSpec, sort: TileSort, scale = 1): TileOrder => {
+  const grid = getTileGrid(pixels.width, pixels.height, tiles, scale);
+  const values = measureTiles(pixels, getTileLayout(pixels.width, pixels.height, tiles, scale), sort.key);
+  const direction = sort.reverse ? -1 : 1;
+  const sources = Array.from({ length: grid.cols * grid.rows }, (_, i) => i);
+  const classOf = (cell: number) => sizeClass(cell % grid.cols, Math.floor(cell / grid.cols), grid);
+
+  for (const group of getGroups(grid, sort)) {
+    // Edge tiles of another size sort among themselves, along the same path
+    for (const kind of new Set(group.map(classOf))) {
+      const positions = group.filter((cell) => classOf(cell) === kind);
+      const tiles = positions.slice().sort((a, b) => direction * (values[a] - values[b]) || a - b);
+      positions.forEach((cell, i) => (sources[cell] = tiles[i]));
+    }
+  }
+  return { cols: grid.cols, rows: grid.rows, sources };
+};
+
+/**
+ * True when `settings` sort tiles but carry no order for the grid of a `width`×`height`
+ * image, that image being shrunk by `scale` from the size the settings are given in.
+ */
+export const needsTileOrder = (settings: ProcessorSettings, width: number, height: number, scale = 1) => {
+  if (!settings.sort) return false;
+  const { order } = settings.sort;
+  const grid = getTileGrid(width, height, settings, scale);
+  return !order || order.cols !== grid.cols || order.rows !== grid.rows;
+};
+
+// The last order found per image, as the preview asks again on every eased frame
+const orderCache = new WeakMap<PixelBuffer, { key: string; order: TileOrder }>();
+
+/**
+ * `settings` with the tile order of `pixels` filled in, when sorting needs one.
+ * `pixels` may be a copy shrunk by `scale`, like the preview proxy; the order is then
+ * found on (and only applies to) the shrunk grid, which is the grid the export lifts.
+ */
+export const withTileOrder = (settings: ProcessorSettings, pixels: PixelBuffer, scale = 1): ProcessorSettings => {
+  const { sort } = settings;
+  if (!sort || !needsTileOrder(settings, pixels.width, pixels.height, scale)) return settings;
+  const tiles = getTileDimensions(settings, scale);
+  const key = JSON.stringify([tiles, settings.tileShape, sort.key, sort.path, sort.scope, sort.window, sort.reverse]);
+  let cached = orderCache.get(pixels);
+  if (!cached || cached.key !== key) {
+    cached = { key, order: sortTiles(pixels, settings, sort, scale) };
+    orderCache.set(pixels, cached);
+  }
+  return { ...settings, sort: { ...sort, order: cached.order } };
+};
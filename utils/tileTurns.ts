@@ -0,0 +1,112 @@
+import { TileTurns, TurnSet, WeaveDraft } from '../types';
+import { createRng } from './scatter';
+
+// Tile turns: every output tile turned or mirrored in place, as one of the eight
+// symmetries of the square. Like the other stages this only moves pixels within
+// the image, so it stays a bijection and runs backwards exactly.
+//
+// A symmetry is a number 0-7: bit 2 mirrors the tile left to right, then the low
+// two bits turn it that many quarter turns clockwise. A tile that isn't square
+// (a clipped edge tile) can't take a quarter turn without changing shape, so an
+// odd number of quarter turns becomes a half turn there; its mirror is kept.
+
+export const MIRROR = 4;
+
+/** The symmetries each set draws from, in the order the pattern steps through them */
+export const TURN_SETS: Record<TurnSet, number[]> = {
+  // 0°, 90°, 180°, 270°
+  rotate: [0, 1, 2, 3],
+  // As is, mirrored left to right, mirrored top to bottom, half turn
+  mirror: [0, MIRROR, MIRROR | 2, 2],
+  all: [0, 1, 2, 3, MIRROR, MIRROR | 1, MIRROR | 2, MIRROR | 3],
+};
+
+// Keeps the seed's stream apart from the one scatter draws for the same seed
+const TURN_SEED_SALT = 0x5bd1e995;
+
+/**
+ * The symmetry of every cell of a `cols`×`rows` grid, before the edge rule. By
+ * pattern, a cell steps through the set along the diagonals of the draft's repeat,
+ * so a twill's turns follow its twill line; by seed, each cell draws one.
+ */
+export const getTurnSymmetries = (
+  cols: number,
+  rows: number,
+  turns: TileTurns,
+  draft: WeaveDraft,
+  seed: number
+): Uint8Array => {
+  const set = TURN_SETS[turns.set];
+  const symmetries = new Uint8Array(cols * rows);
+  const rng = createRng(seed ^ TURN_SEED_SALT);
+  const picks = draft.weft.length;
+  const ends = draft.warp.length;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const step = turns.by === 'seed' ? Math.floor(rng() * set.length) : ((r % picks) + (c % ends)) % set.length;
+      symmetries[r * cols + c] = set[step];
+    }
+  }
+  return symmetries;
+};
+
+/** The symmetry a `width`×`height` tile actually takes: a non-square one swaps quarter turns for a half turn. */
+export const fitSymmetry = (symmetry: number, width: number, height: number) =>
+  width === height || symmetry % 2 === 0 ? symmetry : (symmetry & MIRROR) | 2;
+
+// Where (x, y) lands after `turns` clockwise quarter turns; only square tiles take odd ones
+const turn = (x: number, y: number, turns: number, width: number, height: number): [number, number] => {
+  switch (turns) {
+    case 1:
+      return [width - 1 - y, x];
+    case 2:
+      return [width - 1 - x, height - 1 - y];
+    case 3:
+      return [y, width - 1 - x];
+    default:
+      return [x, y];
+  }
+};
+
+// Where each pixel of a tile goes, as local row-major indices, per symmetry and tile shape
+const moveCache = new Map<string, Int32Array>();
+
+/** moves[i] is where the tile's i-th pixel lands, for a tile of the given size. */
+export const getTileMoves = (symmetry: number, width: number, height: number): Int32Array => {
+  const key = `${symmetry}|${width}|${height}`;
+  let moves = moveCache.get(key);
+  if (moves) return moves;
+
+  moves = new Int32Array(width * height);
+  const turns = symmetry & 3;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [px, py] = turn(symmetry & MIRROR ? width - 1 - x : x, y, turns, width, height);
+      moves[y * width + x] = py * width + px;
+    }
+  }
+  moveCache.set(key, moves);
+  return moves;
+};
+
+// A 2×2 tile tells all eight symmetries apart, so composing them there composes them anywhere
+const COMPOSED = (() => {
+  const table = new Uint8Array(64);
+  for (let first = 0; first < 8; first++) {
+    for (let second = 0; second < 8; second++) {
+      const a = getTileMoves(first, 2, 2);
+      const b = getTileMoves(second, 2, 2);
+      for (let s = 0; s < 8; s++) {
+        const c = getTileMoves(s, 2, 2);
+        if (c.every((to, i) => to === b[a[i]])) table[first * 8 + second] = s;
+      }
+    }
+  }
+  return table;
+})();
+
+/** The one symmetry that does `first` and then `second`. */
+export const composeSymmetries = (first: number, second: number) => COMPOSED[first * 8 + second];
+
+/** The symmetry that undoes `symmetry`. */
+export const invertSymmetry = (symmetry: number) => COMPOSED.indexOf(0, symmetry * 8) - symmetry * 8;
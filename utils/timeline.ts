@@ -0,0 +1,205 @@
+import {
+  Easing,
+  Keyframe,
+  PatternHandoff,
+  PixelBuffer,
+  ProcessorSettings,
+  TimelineSample,
+  TimelineSequence,
+} from '../types';
+import { applyComposite } from './composite';
+import { validateSettings } from './presets';
+import { getCellMap, getTileLayout, TileSpec } from './tileLayout';
+import { withTileOrder } from './tileSort';
+import { easeInOutCubic, interpolateSettings } from './transition';
+import { weavePixels } from './weaveCore';
+
+// Keyframe timeline: sampling, pattern handoffs and (de)serialisation.
+
+export const MAX_TIMELINE_DURATION = 60;
+
+export const createKeyframe = (time: number, settings: ProcessorSettings): Keyframe => ({
+  id: `kf-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e4)}`,
+  time,
+  settings: { ...settings },
+  easing: { kind: 'ease-in-out' },
+  handoff: 'crossfade',
+});
+
+export const createTimeline = (): TimelineSequence => ({
+  version: 1,
+  duration: 4,
+  loop: true,
+  keyframes: [],
+});
+
+// Solves a CSS-style cubic-bezier for y at a given x
+const cubicBezier = ([x1, y1, x2, y2]: [number, number, number, number], x: number) => {
+  const sample = (a: number, b: number, t: number) => 3 * a * (1 - t) ** 2 * t + 3 * b * (1 - t) * t * t + t ** 3;
+  const slope = (a: number, b: number, t: number) =>
+    3 * a * (1 - t) ** 2 + 6 * (b - a) * (1 - t) * t + 3 * (1 - b) * t * t;
+
+  let t = x;
+  // Newton-Raphson first, bisection if the slope is too flat to trust
+  for (let i = 0; i < 8; i++) {
+    const dx = sample(x1, x2, t) - x;
+    if (Math.abs(dx) < 1e-6) return sample(y1, y2, t);
+    const d = slope(x1, x2, t);
+    if (Math.abs(d) < 1e-6) break;
+    t -= dx / d;
+  }
+  let lo = 0;
+  let hi = 1;
+  t = x;
+  for (let i = 0; i < 30; i++) {
+    if (sample(x1, x2, t) < x) lo = t;
+    else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return sample(y1, y2, t);
+};
+
+export const evaluateEasing = (easing: Easing, t: number) => {
+  const x = Math.max(0, Math.min(1, t));
+  switch (easing.kind) {
+    case 'linear':
+      return x;
+    case 'ease-in-out':
+      return easeInOutCubic(x);
+    case 'cubic-bezier':
+      return cubicBezier(easing.bezier ?? [0.25, 0.1, 0.25, 1], x);
+    case 'step':
+      // Hold the previous keyframe until this one is reached
+      return x < 1 ? 0 : 1;
+  }
+};
+
+const sameLook = (a: ProcessorSettings, b: ProcessorSettings) =>
+  a.pattern === b.pattern &&
+  a.seed === b.seed &&
+  (a.pattern !== 'custom' || JSON.stringify(a.draft) === JSON.stringify(b.draft));
+
+const withLookOf = (settings: ProcessorSettings, look: ProcessorSettings): ProcessorSettings => ({
+  ...settings,
+  pattern: look.pattern,
+  draft: look.draft,
+  seed: look.seed,
+});
+
+export const sortKeyframes = (keyframes: Keyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+/** Settings (and any pattern handoff in progress) at `time` seconds. Needs at least one keyframe. */
+export const sampleTimeline = (sequence: TimelineSequence, time: number): TimelineSample | null => {
+  const keyframes = sortKeyframes(sequence.keyframes);
+  if (keyframes.length === 0) return null;
+
+  if (time <= keyframes[0].time) return { settings: { ...keyframes[0].settings } };
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.time) return { settings: { ...last.settings } };
+
+  const nextIndex = keyframes.findIndex((k) => k.time > time);
+  const a = keyframes[nextIndex - 1];
+  const b = keyframes[nextIndex];
+  const eased = evaluateEasing(b.easing, (time - a.time) / (b.time - a.time));
+  const settings = interpolateSettings(a.settings, b.settings, eased);
+
+  if (b.handoff === 'cut' || sameLook(a.settings, b.settings) || eased <= 0 || eased >= 1) {
+    return { settings };
+  }
+  return {
+    settings: withLookOf(settings, b.settings),
+    handoff: { mode: b.handoff, from: withLookOf(settings, a.settings), amount: eased },
+  };
+};
+
+/**
+ * Blends the outgoing and incoming looks of a handoff.
+ * Crossfade mixes colours; stagger swaps whole tiles, of whatever shape, along the diagonal.
+ */
+export const composeHandoff = (
+  outgoing: PixelBuffer,
+  incoming: PixelBuffer,
+  mode: Exclude<PatternHandoff, 'cut'>,
+  amount: number,
+  tiles: TileSpec
+): PixelBuffer => {
+  const { width, height } = incoming;
+  const data = new Uint8ClampedArray(incoming.data.length);
+
+  if (mode === 'crossfade') {
+    for (let i = 0; i < data.length; i++) {
+      data[i] = outgoing.data[i] + (incoming.data[i] - outgoing.data[i]) * amount;
+    }
+    return { data, width, height };
+  }
+
+  const layout = getTileLayout(width, height, tiles);
+  const cells = getCellMap(layout);
+  const steps = layout.cols + layout.rows - 1;
+  for (let i = 0; i < cells.length; i++) {
+    const step = (cells[i] % layout.cols) + Math.floor(cells[i] / layout.cols);
+    const source = (step + 1) / steps <= amount ? incoming.data : outgoing.data;
+    const p = i * 4;
+    data[p] = source[p];
+    data[p + 1] = source[p + 1];
+    data[p + 2] = source[p + 2];
+    data[p + 3] = source[p + 3];
+  }
+  return { data, width, height };
+};
+
+/** Renders a timeline sample with the pure core, including any handoff and the composite stage. */
+export const renderTimelineSample = (source: PixelBuffer, sample: TimelineSample): PixelBuffer => {
+  const incoming = weavePixels(source, withTileOrder(sample.settings, source));
+  const woven = sample.handoff
+    ? composeHandoff(
+        weavePixels(source, withTileOrder(sample.handoff.from, source)),
+        incoming,
+        sample.handoff.mode,
+        sample.handoff.amount,
+        sample.settings
+      )
+    : incoming;
+  return applyComposite(woven, source, sample.settings);
+};
+
+// --- Serialisation ---
+
+export const serializeTimeline = (sequence: TimelineSequence) =>
+  JSON.stringify({ ...sequence, keyframes: sortKeyframes(sequence.keyframes) }, null, 2);
+
+const EASINGS: Easing['kind'][] = ['linear', 'ease-in-out', 'cubic-bezier', 'step'];
+const HANDOFFS: PatternHandoff[] = ['cut', 'crossfade', 'stagger'];
+
+/** Parses a sequence saved by `serializeTimeline`. Throws an Error describing the first problem. */
+export const parseTimeline = (text: string): TimelineSequence => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  if (!raw || typeof raw !== 'object') throw new Error('Not a timeline file');
+  const data = raw as Record<string, unknown>;
+  if (data.version !== 1) throw new Error(`Unsupported timeline version: ${String(data.version)}`);
+  if (!Array.isArray(data.keyframes)) throw new Error('Timeline has no keyframes list');
+
+  const duration = Math.max(0.5, Math.min(MAX_TIMELINE_DURATION, Number(data.duration) || 0));
+  const keyframes = data.keyframes.map((value, i): Keyframe => {
+    const k = (value ?? {}) as Record<string, unknown>;
+    const easing = (k.easing ?? {}) as Partial<Easing>;
+    const bezier =
+      Array.isArray(easing.bezier) && easing.bezier.length === 4 && easing.bezier.every(Number.isFinite)
+        ? (easing.bezier.map((n, j) => (j % 2 === 0 ? Math.max(0, Math.min(1, n)) : n)) as Easing['bezier'])
+        : undefined;
+    return {
+      id: typeof k.id === 'string' ? k.id : `kf-${i}`,
+      time: Math.max(0, Math.min(duration, Number(k.time) || 0)),
+      settings: validateSettings(k.settings),
+      easing: { kind: EASINGS.includes(easing.kind as Easing['kind']) ? easing.kind! : 'linear', bezier },
+      handoff: HANDOFFS.includes(k.handoff as PatternHandoff) ? (k.handoff as PatternHandoff) : 'cut',
+    };
+  });
+
+  return { version: 1, duration, loop: data.loop !== false, keyframes: sortKeyframes(keyframes) };
+};
@@ -0,0 +1,89 @@
+import { ProcessorSettings, WeavePass } from '../types';
+
+// Helpers for moving between two ProcessorSettings over time.
+
+export const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+/** The same settings with every displacement switched off: the untouched image. */
+export const untouchedSettings = (settings: ProcessorSettings): ProcessorSettings => ({
+  ...settings,
+  horizontalShift: 0,
+  verticalShift: 0,
+  scatterIntensity: 0,
+  swaps: undefined,
+  sort: undefined,
+  passes: undefined,
+});
+
+/** The numbers of a stack pass that glide between values rather than switch */
+export const PASS_EASED_KEYS = ['tileSize', 'horizontalShift', 'verticalShift', 'scatterIntensity'] as const;
+
+/** An optional number `t` of the way from `a` to `b`; when either is unset it takes `b` outright. */
+export const lerpOptional = (a: number | undefined, b: number | undefined, t: number) =>
+  a === undefined || b === undefined ? b : a + (b - a) * t;
+
+/**
+ * `to`'s passes, with the numbers of any pass also in `from` (matched by id) taken
+ * `t` of the way from there. The list, patterns and seeds are always `to`'s.
+ */
+export const blendPasses = (from: WeavePass[] | undefined, to: WeavePass[] | undefined, t: number) =>
+  to?.map((pass) => {
+    const start = from?.find((p) => p.id === pass.id);
+    if (!start) return pass;
+    const blended = { ...pass };
+    for (const key of PASS_EASED_KEYS) blended[key] = start[key] + (pass[key] - start[key]) * t;
+    blended.tileHeight = lerpOptional(start.tileHeight, pass.tileHeight, t);
+    return blended;
+  });
+
+/**
+ * Settings at progress `t` (0..1) between `from` and `to`.
+ * Numbers are interpolated; pattern, draft, seed, turns, tile shape, blend mode, swaps and sort switch
+ * over at the midpoint, as does a tile height set on one side only.
+ * Stack passes in both glide too, while passes added or removed come or go at the midpoint.
+ */
+export const interpolateSettings = (
+  from: ProcessorSettings,
+  to: ProcessorSettings,
+  t: number
+): ProcessorSettings => {
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  const discrete = t < 0.5 ? from : to;
+  return {
+    ...to,
+    tileSize: lerp(from.tileSize, to.tileSize),
+    tileHeight:
+      from.tileHeight !== undefined && to.tileHeight !== undefined
+        ? lerp(from.tileHeight, to.tileHeight)
+        : discrete.tileHeight,
+    horizontalShift: lerp(from.horizontalShift, to.horizontalShift),
+    verticalShift: lerp(from.verticalShift, to.verticalShift),
+    scatterIntensity: lerp(from.scatterIntensity, to.scatterIntensity),
+    opacity: lerp(from.opacity, to.opacity),
+    pattern: discrete.pattern,
+    draft: discrete.draft,
+    seed: discrete.seed,
+    turns: discrete.turns,
+    tileShape: discrete.tileShape,
+    blendMode: discrete.blendMode,
+    swaps: discrete.swaps,
+    sort: discrete.sort,
+    passes: t < 0.5 ? blendPasses(to.passes, from.passes, 1 - t) : blendPasses(from.passes, to.passes, t),
+  };
+};
+
+/** Settings for the same look on an image resized by `factor`. */
+export const scaleSettings = (settings: ProcessorSettings, factor: number): ProcessorSettings => ({
+  ...settings,
+  tileSize: Math.max(2, settings.tileSize * factor),
+  tileHeight: settings.tileHeight && Math.max(2, settings.tileHeight * factor),
+  horizontalShift: settings.horizontalShift * factor,
+  verticalShift: settings.verticalShift * factor,
+  passes: settings.passes?.map((pass) => ({
+    ...pass,
+    tileSize: Math.max(2, pass.tileSize * factor),
+    tileHeight: pass.tileHeight && Math.max(2, pass.tileHeight * factor),
+    horizontalShift: pass.horizontalShift * factor,
+    verticalShift: pass.verticalShift * factor,
+  })),
+});
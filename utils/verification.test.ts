@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { uniqueImage } from '../test/pixels';
+import { DEFAULT_SETTINGS } from './presets';
+import { checkConservation } from './verification';
+import { weavePixels } from './weaveCore';
+
+describe('checkConservation', () => {
+  const source = uniqueImage(29, 17);
+  const woven = weavePixels(source, { ...DEFAULT_SETTINGS, pattern: 'twill', tileSize: 4, horizontalShift: 5 });
+
+  it('accounts for every pixel of a woven frame', () => {
+    const report = checkConservation(source, woven, false);
+    expect(report).toMatchObject({ pixels: 29 * 17, duplicated: 0, dropped: 0, differingBins: 0 });
+  });
+
+  it('counts a pixel drawn over another as one duplicated and one dropped', () => {
+    const drawn = { ...woven, data: woven.data.slice() };
+    drawn.data.copyWithin(0, 4, 8);
+    const report = checkConservation(source, drawn, false);
+    expect(report.duplicated).toBe(1);
+    expect(report.dropped).toBe(1);
+    expect(report.differingBins).toBeGreaterThan(0);
+  });
+
+  it('tells repeated colours apart by how often they appear', () => {
+    // Three greys, each on a third of the pixels
+    const data = new Uint8ClampedArray(16 * 16 * 4).map((_, i) => (i % 4 === 3 ? 255 : (Math.floor(i / 4) % 3) * 80));
+    const greys = { data, width: 16, height: 16 };
+    const woven = weavePixels(greys, { ...DEFAULT_SETTINGS, tileSize: 3, horizontalShift: 4 });
+    expect(checkConservation(greys, woven, false)).toMatchObject({ duplicated: 0, dropped: 0 });
+
+    const drawn = { ...woven, data: woven.data.slice() };
+    const grey = woven.data[0] === 0 ? 80 : 0;
+    drawn.data.set([grey, grey, grey, 255], 0);
+    expect(checkConservation(greys, drawn, false)).toMatchObject({ duplicated: 1, dropped: 1 });
+  });
+
+  it('refuses a frame of another size', () => {
+    expect(() => checkConservation(source, uniqueImage(17, 29), false)).toThrow('The preview is 17x29');
+  });
+});
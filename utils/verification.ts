@@ -0,0 +1,92 @@
+import { PixelBuffer } from '../types';
+
+// Pixel-conservation check behind the "no pixels harmed" claim. It works on the
+// pixels the preview actually drew, whichever backend drew them, and checks two
+// things: that the output holds every source colour exactly as often as the
+// source does, and that the colour histograms of source and output agree bin for bin.
+
+/** 256 bins per channel, red, green, blue and alpha. */
+export interface Histograms {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  a: Uint32Array;
+}
+
+export interface ConservationReport {
+  pixels: number;
+  source: Histograms;
+  output: Histograms;
+  /** Output pixels whose colour the output holds more often than the source */
+  duplicated: number;
+  /** Source pixels whose colour the output holds less often than the source */
+  dropped: number;
+  /** Histogram bins, over all four channels, whose counts differ */
+  differingBins: number;
+  /** Opacity or blending mixes the original back in, so colours change by design */
+  composited: boolean;
+}
+
+export const HISTOGRAM_CHANNELS = ['r', 'g', 'b', 'a'] as const;
+
+export const getHistograms = ({ data }: PixelBuffer): Histograms => {
+  const histograms: Histograms = {
+    r: new Uint32Array(256),
+    g: new Uint32Array(256),
+    b: new Uint32Array(256),
+    a: new Uint32Array(256),
+  };
+  const { r, g, b, a } = histograms;
+  for (let i = 0; i < data.length; i += 4) {
+    r[data[i]]++;
+    g[data[i + 1]]++;
+    b[data[i + 2]]++;
+    a[data[i + 3]]++;
+  }
+  return histograms;
+};
+
+const asWords = (data: Uint8ClampedArray) => new Uint32Array(data.buffer, data.byteOffset, data.byteLength >> 2);
+
+/**
+ * Accounts for every pixel of `source` in `output`, the frame drawn from it.
+ * Pixels are told apart by colour only, so a pixel moved onto another of the
+ * same colour counts as conserved, exactly as it looks.
+ */
+export const checkConservation = (
+  source: PixelBuffer,
+  output: PixelBuffer,
+  composited: boolean
+): ConservationReport => {
+  if (output.width !== source.width || output.height !== source.height) {
+    throw new Error(`The preview is ${output.width}x${output.height}, not the ${source.width}x${source.height} it weaves`);
+  }
+
+  // Source count minus output count, per RGBA colour
+  const balance = new Map<number, number>();
+  for (const colour of asWords(source.data)) balance.set(colour, (balance.get(colour) ?? 0) + 1);
+  for (const colour of asWords(output.data)) balance.set(colour, (balance.get(colour) ?? 0) - 1);
+  let duplicated = 0;
+  let dropped = 0;
+  for (const count of balance.values()) {
+    if (count > 0) dropped += count;
+    else duplicated -= count;
+  }
+
+  const before = getHistograms(source);
+  const after = getHistograms(output);
+  let differingBins = 0;
+  for (const channel of HISTOGRAM_CHANNELS) {
+    for (let bin = 0; bin < 256; bin++) if (before[channel][bin] !== after[channel][bin]) differingBins++;
+  }
+
+  return {
+    pixels: source.width * source.height,
+    source: before,
+    output: after,
+    duplicated,
+    dropped,
+    differingBins,
+    composited,
+  };
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { histogram, noiseImage, samePixels, uniqueImage } from '../test/pixels';
+import { ProcessorSettings, WeaveDraft, WeavePattern } from '../types';
+import { DEFAULT_SETTINGS } from './presets';
+import { getPassSettings, unweavePixels, weavePixels } from './weaveCore';
+
+// A draft that leaves some cells out of each thread, so lanes skip cells
+const SPARSE_DRAFT: WeaveDraft = {
+  id: 'test-sparse',
+  name: 'Sparse',
+  weft: [1, -2, 0.5],
+  warp: [-1, 2],
+  cells: [
+    ['both', 'weft'],
+    ['warp', 'none'],
+    ['both', 'both'],
+  ],
+};
+
+const PATTERNS: WeavePattern[] = ['plain', 'twill', 'satin', 'basket', 'custom'];
+// 37×23 leaves partial edge tiles for every size but 1, and 40 is larger than the image
+const TILE_SIZES = [2, 3, 5, 8, 16, 40];
+const SHIFTS: [number, number][] = [
+  [0, 0],
+  [7, 3],
+  [-13, 29],
+  [101, -64],
+];
+const SEEDS = [1, 99];
+
+const settingsFor = (
+  pattern: WeavePattern,
+  tileSize: number,
+  [h, v]: [number, number],
+  seed: number
+): ProcessorSettings => ({
+  ...DEFAULT_SETTINGS,
+  pattern,
+  draft: pattern === 'custom' ? SPARSE_DRAFT : undefined,
+  tileSize,
+  horizontalShift: h,
+  verticalShift: v,
+  scatterIntensity: seed === 1 ? 0 : 60,
+  seed,
+});
+
+const cases = PATTERNS.flatMap((pattern) =>
+  TILE_SIZES.flatMap((tileSize) =>
+    SHIFTS.flatMap((shift) => SEEDS.map((seed) => settingsFor(pattern, tileSize, shift, seed)))
+  )
+);
+
+const label = (s: ProcessorSettings) =>
+  `${s.pattern} tile ${s.tileSize} shift ${s.horizontalShift}/${s.verticalShift} seed ${s.seed}`;
+
+describe('weavePixels', () => {
+  const unique = uniqueImage(37, 23);
+  const noise = noiseImage(37, 23);
+
+  it.each(cases.map((s) => [label(s), s] as const))('conserves every pixel: %s', (_, settings) => {
+    const woven = weavePixels(unique, settings);
+    expect(samePixels(unique, woven)).toBe(true);
+    expect(histogram(weavePixels(noise, settings))).toEqual(histogram(noise));
+    expect(unweavePixels(woven, settings).data).toEqual(unique.data);
+  });
+
+  it('moves pixels when there is a shift', () => {
+    const woven = weavePixels(unique, settingsFor('twill', 5, [7, 3], 1));
+    expect(woven.data).not.toEqual(unique.data);
+  });
+
+  it('covers images smaller than a tile and a single pixel wide', () => {
+    for (const [width, height] of [
+      [1, 1],
+      [1, 9],
+      [9, 1],
+      [3, 2],
+    ]) {
+      const image = uniqueImage(width, height);
+      const settings = settingsFor('satin', 4, [5, 3], 99);
+      expect(samePixels(image, weavePixels(image, settings))).toBe(true);
+    }
+  });
+  // Passes aren't nested: a later one shifts across the earlier one's tiles
+  it('weaves an extra pass over the whole result of the first', () => {
+    const first = settingsFor('twill', 8, [5, 3], 1);
+    const stacked: ProcessorSettings = {
+      ...first,
+      passes: [
+        { id: 'satin', enabled: true, pattern: 'satin', tileSize: 3, horizontalShift: 4, verticalShift: 2, scatterIntensity: 20, seed: 2 },
+      ],
+    };
+    const once = weavePixels(unique, first);
+    const woven = weavePixels(unique, stacked);
+    expect(woven.data).toEqual(weavePixels(once, getPassSettings(stacked)[0]).data);
+    expect(unweavePixels(woven, stacked).data).toEqual(unique.data);
+
+    // Each pixel value -> the first pass's 8px tile it sits in
+    const cols = Math.ceil(unique.width / 8);
+    const tileOf = (image: typeof unique) =>
+      new Map(
+        [...new Uint32Array(image.data.buffer)].map((value, i) => [
+          value,
+          Math.floor(i / image.width / 8) * cols + Math.floor((i % image.width) / 8),
+        ])
+      );
+    const before = tileOf(once);
+    const after = tileOf(woven);
+    expect([...before].some(([value, tile]) => after.get(value) !== tile)).toBe(true);
+  });
+});
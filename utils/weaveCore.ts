@@ -0,0 +1,607 @@
+import { PixelBuffer, ProcessorSettings, TileOrder, TileSwaps, WeaveDraft } from '../types';
+import { resolveDraft, rides } from './drafts';
+import { getScatterMap, identityMap, ScatterGrid, ScatterMap, sizeClass } from './scatter';
+import { getTileDimensions, getTileLayout, TileLayout, TileSpec } from './tileLayout';
+import { composeSymmetries, fitSymmetry, getTileMoves, getTurnSymmetries, invertSymmetry } from './tileTurns';
+
+// Pure weave core: RGBA buffer in, rearranged RGBA buffer out.
+// No DOM or canvas access here, so it runs anywhere (tests, workers, Node).
+//
+// The weave is built from these stages, each a bijection on pixels:
+//   1. Sort    - tiles laid out in an order found from their content (utils/tileSort.ts)
+//   2. Scatter - tiles trade places with same-sized partners (utils/scatter.ts)
+//   3. Weft    - every row band slides horizontally, wrapping around the image
+//   4. Warp    - every column band slides vertically, wrapping around the image
+//   5. Turns   - every tile turned or mirrored in place, when asked (utils/tileTurns.ts)
+//   6. Manual  - output cells swapped by hand in the inspector, pair by pair
+// Extra passes of a stack run scatter, weft, warp and turns again, each on its own
+// grid, between the first pass and the manual swaps.
+// When a draft leaves some cells out of a thread, only the cells that ride it
+// slide, cycling through each other (a "lane") while the rest stay put.
+// Brick, hex and triangle tilings (utils/tileLayout.ts) have no pixel bands to
+// slide, so there every stage moves whole cells, each as its mask of pixels, and
+// the shifts move a row or column's cells whole places along their lane.
+// A composition of bijections is a bijection, so every pixel of the source
+// appears exactly once in the output.
+
+// Pattern logic for shifting, read from the draft repeat.
+// xFactor only depends on the row and yFactor only on the column, which is what
+// lets whole bands move together without tiles colliding.
+export const getShiftFactors = (xIndex: number, yIndex: number, draft: WeaveDraft) => ({
+  xFactor: draft.weft[yIndex % draft.weft.length],
+  yFactor: draft.warp[xIndex % draft.warp.length],
+});
+
+const wrap = (value: number, size: number) => (size > 0 ? ((value % size) + size) % size : 0);
+
+/**
+ * Whole-pixel geometry of a weave for one image size.
+ * Settings are interpolated during animation, so everything is rounded here once.
+ */
+export interface WeaveGeometry {
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  cols: number;
+  rows: number;
+  /** The brick, hex or triangle tiling; null on the plain grid, which slides pixel bands */
+  layout: TileLayout | null;
+  /**
+   * Pixel columns that ride the weft, per pick of the draft repeat.
+   * null means the whole row band moves, which takes the fast path.
+   */
+  rowLanes: (Int32Array | null)[];
+  /** Pixel rows that ride the warp, per end of the draft repeat (null = whole band) */
+  colLanes: (Int32Array | null)[];
+  /** Horizontal offset (px, already wrapped to its lane) of each row band */
+  rowShifts: Int32Array;
+  /** Vertical offset (px, already wrapped to its lane) of each column band */
+  colShifts: Int32Array;
+  /** A shaped tiling's weft and warp as cell permutations; the bands above are then empty */
+  weftCells: ScatterMap | null;
+  warpCells: ScatterMap | null;
+  scatter: ScatterMap;
+  /** The manual swaps as one cell permutation; null when there are none or their grid differs */
+  manual: ScatterMap | null;
+  /** The resolved tile sort; null when there is none or it was found on another grid */
+  sorted: ScatterMap | null;
+  /** Each cell's symmetry after the edge rule; null when tiles aren't turned */
+  turns: Uint8Array | null;
+}
+
+/** The tile grid a weave of this size works on, its tile sizes shrunk by `scale` for a proxy. */
+export const getTileGrid = (width: number, height: number, tiles: TileSpec, scale = 1): ScatterGrid => {
+  if ((tiles.tileShape ?? 'rect') !== 'rect') {
+    const { cols, rows, id, classes } = getTileLayout(width, height, tiles, scale);
+    return { cols, rows, partialCol: false, partialRow: false, classes: { id, of: classes } };
+  }
+  const size = getTileDimensions(tiles, scale);
+  return {
+    cols: Math.ceil(width / size.width),
+    rows: Math.ceil(height / size.height),
+    partialCol: width % size.width !== 0,
+    partialRow: height % size.height !== 0,
+  };
+};
+
+// Pairs are applied in order, each exchanging whatever currently sits in its two cells.
+// Pairs that fall outside the grid or join cells of different sizes are skipped,
+// so the result is always a permutation.
+const buildManualMap = (grid: ScatterGrid, swaps: TileSwaps | undefined): ScatterMap | null => {
+  const { cols, rows } = grid;
+  if (!swaps || swaps.pairs.length === 0 || swaps.cols !== cols || swaps.rows !== rows) return null;
+  const map = identityMap(cols, rows);
+  const count = cols * rows;
+  const classOf = (cell: number) => sizeClass(cell % cols, Math.floor(cell / cols), grid);
+  for (const [a, b] of swaps.pairs) {
+    if (a === b || a < 0 || b < 0 || a >= count || b >= count || classOf(a) !== classOf(b)) continue;
+    const fromA = map.inverse[a];
+    const fromB = map.inverse[b];
+    map.forward[fromA] = b;
+    map.forward[fromB] = a;
+    map.inverse[a] = fromB;
+    map.inverse[b] = fromA;
+  }
+  return map;
+};
+
+// A resolved sort order, when it fits this grid and is a permutation that keeps
+// every tile among tiles of its size; an order read from a file may be neither
+const buildSortMap = (grid: ScatterGrid, order: TileOrder | undefined): ScatterMap | null => {
+  const { cols, rows } = grid;
+  if (!order || order.cols !== cols || order.rows !== rows || order.sources.length !== cols * rows) return null;
+  const map = identityMap(cols, rows);
+  const seen = new Uint8Array(cols * rows);
+  const classOf = (cell: number) => sizeClass(cell % cols, Math.floor(cell / cols), grid);
+  for (let cell = 0; cell < order.sources.length; cell++) {
+    const source = order.sources[cell];
+    if (!(source >= 0 && source < seen.length) || seen[source] || classOf(source) !== classOf(cell)) return null;
+    seen[source] = 1;
+    map.inverse[cell] = source;
+    map.forward[source] = cell;
+  }
+  return map;
+};
+
+// The part of the geometry that places cells
+type CellPlacement = Pick<WeaveGeometry, 'width' | 'height' | 'tileWidth' | 'tileHeight' | 'cols' | 'rows' | 'layout'>;
+
+// A cell's box as [x, y, width, height]: clipped on the plain grid, whole for a brick
+const cellBox = (g: CellPlacement, cell: number) => {
+  const { width, height, tileWidth, tileHeight, cols, layout } = g;
+  if (layout) return [layout.anchors[cell * 2], layout.anchors[cell * 2 + 1], tileWidth, tileHeight];
+  const x = (cell % cols) * tileWidth;
+  const y = Math.floor(cell / cols) * tileHeight;
+  return [x, y, Math.min(tileWidth, width - x), Math.min(tileHeight, height - y)];
+};
+
+// Each cell's symmetry, fitted to its shape so a clipped or oblong tile keeps it.
+// Of the shaped tilings only whole bricks turn; hexes and triangles have no
+// symmetries that stay on the pixel grid.
+const buildTurns = (g: CellPlacement, settings: ProcessorSettings): Uint8Array | null => {
+  const { cols, rows, layout } = g;
+  if (!settings.turns || (layout && layout.shape !== 'brick')) return null;
+  const turns = getTurnSymmetries(cols, rows, settings.turns, resolveDraft(settings), settings.seed);
+  for (let cell = 0; cell < turns.length; cell++) {
+    const [, , w, h] = cellBox(g, cell);
+    turns[cell] = layout && layout.classes[cell] < 0 ? 0 : fitSymmetry(turns[cell], w, h);
+  }
+  return turns;
+};
+
+// Pixel coordinates covered by the bands whose draft cell rides the given thread
+const buildLane = (count: number, span: number, tileSize: number, riding: (band: number) => boolean) => {
+  const bands: number[] = [];
+  for (let i = 0; i < count; i++) if (riding(i)) bands.push(i);
+  if (bands.length === count) return null;
+
+  const lane: number[] = [];
+  for (const band of bands) {
+    for (let p = band * tileSize; p < Math.min(span, (band + 1) * tileSize); p++) lane.push(p);
+  }
+  return Int32Array.from(lane);
+};
+
+// A shaped tiling's weft or warp: along each row (or column) the riding whole cells
+// of each kind cycle through each other, moving one place per pitch of shift
+const buildCellLanes = (layout: TileLayout, draft: WeaveDraft, shift: number, thread: 'weft' | 'warp') => {
+  const { cols, rows, classes } = layout;
+  const map = identityMap(cols, rows);
+  const along = thread === 'weft';
+  for (let line = 0; line < (along ? rows : cols); line++) {
+    const lanes = new Map<number, number[]>();
+    for (let i = 0; i < (along ? cols : rows); i++) {
+      const [c, r] = along ? [i, line] : [line, i];
+      const cell = r * cols + c;
+      if (classes[cell] < 0 || !rides(draft.cells[r % draft.weft.length][c % draft.warp.length], thread)) continue;
+      const lane = lanes.get(classes[cell]);
+      if (lane) lane.push(cell);
+      else lanes.set(classes[cell], [cell]);
+    }
+    const factor = along ? draft.weft[line % draft.weft.length] : draft.warp[line % draft.warp.length];
+    const steps = Math.round((shift * factor) / (along ? layout.pitchX : layout.pitchY));
+    for (const lane of lanes.values()) {
+      const step = wrap(steps, lane.length);
+      lane.forEach((cell, j) => {
+        const target = lane[(j + step) % lane.length];
+        map.forward[cell] = target;
+        map.inverse[target] = cell;
+      });
+    }
+  }
+  return map;
+};
+
+const buildWeaveGeometry = (width: number, height: number, settings: ProcessorSettings): WeaveGeometry => {
+  const { width: tileWidth, height: tileHeight } = getTileDimensions(settings);
+  const layout = (settings.tileShape ?? 'rect') !== 'rect' ? getTileLayout(width, height, settings) : null;
+  const grid = getTileGrid(width, height, settings);
+  const { cols, rows } = grid;
+  const draft = resolveDraft(settings);
+
+  const rowLanes = layout
+    ? []
+    : draft.weft.map((_, pick) =>
+        buildLane(cols, width, tileWidth, (c) => rides(draft.cells[pick][c % draft.warp.length], 'weft'))
+      );
+  const colLanes = layout
+    ? []
+    : draft.warp.map((_, end) =>
+        buildLane(rows, height, tileHeight, (r) => rides(draft.cells[r % draft.weft.length][end], 'warp'))
+      );
+
+  const rowShifts = new Int32Array(layout ? 0 : rows);
+  for (let y = 0; y < rowShifts.length; y++) {
+    const { xFactor } = getShiftFactors(0, y, draft);
+    const lane = rowLanes[y % rowLanes.length];
+    rowShifts[y] = wrap(Math.round(settings.horizontalShift * xFactor), lane ? lane.length : width);
+  }
+
+  const colShifts = new Int32Array(layout ? 0 : cols);
+  for (let x = 0; x < colShifts.length; x++) {
+    const { yFactor } = getShiftFactors(x, 0, draft);
+    const lane = colLanes[x % colLanes.length];
+    colShifts[x] = wrap(Math.round(settings.verticalShift * yFactor), lane ? lane.length : height);
+  }
+
+  const scatter = getScatterMap(grid, settings.seed, settings.scatterIntensity);
+  const manual = buildManualMap(grid, settings.swaps);
+  const sorted = buildSortMap(grid, settings.sort?.order);
+  const turns = buildTurns({ width, height, tileWidth, tileHeight, cols, rows, layout }, settings);
+
+  return {
+    width,
+    height,
+    tileWidth,
+    tileHeight,
+    cols,
+    rows,
+    layout,
+    rowLanes,
+    colLanes,
+    rowShifts,
+    colShifts,
+    weftCells: layout && buildCellLanes(layout, draft, settings.horizontalShift, 'weft'),
+    warpCells: layout && buildCellLanes(layout, draft, settings.verticalShift, 'warp'),
+    scatter,
+    manual,
+    sorted,
+    turns,
+  };
+};
+
+const GEOMETRY_CACHE_LIMIT = 16;
+const geometryCache = new Map<string, WeaveGeometry>();
+
+/**
+ * Geometry for one image size and settings snapshot, built on first use.
+ * Cached like scatter maps so a still preview or a replayed animation reuses
+ * it; the result is shared, so callers must treat it as read-only.
+ */
+export const getWeaveGeometry = (
+  width: number,
+  height: number,
+  settings: ProcessorSettings
+): WeaveGeometry => {
+  const tiles = getTileDimensions(settings);
+  const key = [
+    width,
+    height,
+    `${tiles.width}x${tiles.height}${settings.tileShape ?? 'rect'}`,
+    settings.horizontalShift,
+    settings.verticalShift,
+    settings.seed,
+    Math.round(settings.scatterIntensity),
+    settings.pattern,
+    settings.pattern === 'custom' ? JSON.stringify(settings.draft) : '',
+    settings.swaps ? JSON.stringify(settings.swaps) : '',
+    settings.sort?.order ? JSON.stringify(settings.sort.order) : '',
+    settings.turns ? `${settings.turns.by},${settings.turns.set}` : '',
+  ].join('|');
+
+  const cached = geometryCache.get(key);
+  if (cached) {
+    geometryCache.delete(key);
+    geometryCache.set(key, cached);
+    return cached;
+  }
+
+  const geometry = buildWeaveGeometry(width, height, settings);
+  geometryCache.set(key, geometry);
+  if (geometryCache.size > GEOMETRY_CACHE_LIMIT) {
+    const oldest = geometryCache.keys().next().value;
+    if (oldest !== undefined) geometryCache.delete(oldest);
+  }
+  return geometry;
+};
+
+/** Each enabled extra pass as complete single-pass settings, in the order they run. */
+export const getPassSettings = (settings: ProcessorSettings): ProcessorSettings[] =>
+  (settings.passes ?? [])
+    .filter((pass) => pass.enabled)
+    .map((pass) => ({
+      ...settings,
+      pattern: pass.pattern,
+      draft: pass.draft,
+      tileSize: pass.tileSize,
+      tileHeight: pass.tileHeight,
+      tileShape: pass.tileShape,
+      horizontalShift: pass.horizontalShift,
+      verticalShift: pass.verticalShift,
+      scatterIntensity: pass.scatterIntensity,
+      seed: pass.seed,
+      turns: pass.turns,
+      swaps: undefined,
+      sort: undefined,
+      passes: undefined,
+    }));
+
+// One pixel per element makes row copies cheap
+const asWords = (data: Uint8ClampedArray) =>
+  new Uint32Array(data.buffer, data.byteOffset, data.byteLength >> 2);
+
+// A shaped tiling moves each cell as its mask; partners are always of one kind,
+// so the source's pixels land exactly on the target's
+const maskStage = (src: Uint32Array, dst: Uint32Array, g: WeaveGeometry, layout: TileLayout, map: Int32Array) => {
+  const { width } = g;
+  const { anchors, kindOf, kinds } = layout;
+  dst.set(src);
+  for (let i = 0; i < map.length; i++) {
+    const target = map[i];
+    if (target === i) continue;
+    const { xs, ys } = kinds[kindOf[i]];
+    const from = anchors[i * 2 + 1] * width + anchors[i * 2];
+    const to = anchors[target * 2 + 1] * width + anchors[target * 2];
+    for (let k = 0; k < xs.length; k++) {
+      const offset = ys[k] * width + xs[k];
+      dst[to + offset] = src[from + offset];
+    }
+  }
+};
+
+// Each stage takes an `inverse` flag that runs it backwards, which is all Unweave needs.
+// Scatter and the manual swaps both move whole cells, so they share this one.
+const cellStage = (src: Uint32Array, dst: Uint32Array, g: WeaveGeometry, cells: ScatterMap, inverse = false) => {
+  const { width, tileWidth, tileHeight, cols, layout } = g;
+  const map = inverse ? cells.inverse : cells.forward;
+  if (layout) {
+    maskStage(src, dst, g, layout, map);
+    return;
+  }
+  dst.set(src);
+  for (let i = 0; i < map.length; i++) {
+    const target = map[i];
+    if (target === i) continue;
+
+    const [sx, sy, w, h] = cellBox(g, i);
+    const dx = (target % cols) * tileWidth;
+    const dy = Math.floor(target / cols) * tileHeight;
+    // Partners always share dimensions, so the source size fits the target
+
+    for (let row = 0; row < h; row++) {
+      const from = (sy + row) * width + sx;
+      dst.set(src.subarray(from, from + w), (dy + row) * width + dx);
+    }
+  }
+};
+
+// What a turn does to a moved value: nothing to a pixel, while a symmetry code
+// (see getPixelTurns) takes on the cell's symmetry
+type TurnCarry = (value: number, symmetry: number) => number;
+
+// Turns every tile in place, each pixel going where its cell's symmetry sends it
+const turnStage = (
+  src: Uint32Array,
+  dst: Uint32Array,
+  g: WeaveGeometry,
+  turns: Uint8Array,
+  inverse = false,
+  carry?: TurnCarry
+) => {
+  const { width } = g;
+  dst.set(src);
+  for (let cell = 0; cell < turns.length; cell++) {
+    if (turns[cell] === 0) continue;
+    const [x0, y0, w, h] = cellBox(g, cell);
+    const moves = getTileMoves(turns[cell], w, h);
+    const undo = invertSymmetry(turns[cell]);
+    for (let i = 0; i < moves.length; i++) {
+      const from = (y0 + Math.floor(i / w)) * width + x0 + (i % w);
+      const to = (y0 + Math.floor(moves[i] / w)) * width + x0 + (moves[i] % w);
+      if (inverse) dst[from] = carry ? carry(src[to], undo) : src[to];
+      else dst[to] = carry ? carry(src[from], turns[cell]) : src[from];
+    }
+  }
+};
+
+const weftStage = (src: Uint32Array, dst: Uint32Array, g: WeaveGeometry, inverse = false) => {
+  if (g.weftCells) {
+    cellStage(src, dst, g, g.weftCells, inverse);
+    return;
+  }
+  const { width, height, tileHeight, rowLanes, rowShifts } = g;
+  for (let y = 0; y < height; y++) {
+    const band = Math.floor(y / tileHeight);
+    const lane = rowLanes[band % rowLanes.length];
+    const length = lane ? lane.length : width;
+    const forward = rowShifts[band];
+    const shift = inverse && forward !== 0 ? length - forward : forward;
+    const start = y * width;
+    if (lane) {
+      // Cells outside the lane stay put; the lane's i-th pixel moves to slot (i + shift) mod length
+      dst.set(src.subarray(start, start + width), start);
+      for (let i = 0; i < length; i++) {
+        dst[start + lane[(i + shift) % length]] = src[start + lane[i]];
+      }
+    } else if (shift === 0) {
+      dst.set(src.subarray(start, start + width), start);
+    } else {
+      // Pixel x moves to (x + shift) mod width
+      dst.set(src.subarray(start, start + width - shift), start + shift);
+      dst.set(src.subarray(start + width - shift, start + width), start);
+    }
+  }
+};
+
+const warpStage = (src: Uint32Array, dst: Uint32Array, g: WeaveGeometry, inverse = false) => {
+  if (g.warpCells) {
+    cellStage(src, dst, g, g.warpCells, inverse);
+    return;
+  }
+  const { width, height, tileWidth, cols, colLanes, colShifts } = g;
+  for (let c = 0; c < cols; c++) {
+    const x0 = c * tileWidth;
+    const x1 = Math.min(width, x0 + tileWidth);
+    const lane = colLanes[c % colLanes.length];
+    const length = lane ? lane.length : height;
+    const shift = inverse && colShifts[c] !== 0 ? length - colShifts[c] : colShifts[c];
+    if (lane) {
+      // Rows outside the lane stay where they are
+      for (let y = 0; y < height; y++) {
+        dst.set(src.subarray(y * width + x0, y * width + x1), y * width + x0);
+      }
+      for (let i = 0; i < length; i++) {
+        const from = lane[i] * width;
+        const to = lane[(i + shift) % length] * width;
+        dst.set(src.subarray(from + x0, from + x1), to + x0);
+      }
+      continue;
+    }
+    for (let y = 0; y < height; y++) {
+      // Pixel y moves to (y + shift) mod height
+      const from = y * width;
+      const to = ((y + shift) % height) * width;
+      dst.set(src.subarray(from + x0, from + x1), to + x0);
+    }
+  }
+};
+
+/**
+ * Rearranges the pixels of `src` according to `settings` and returns a new buffer.
+ * The output is always a permutation of the input pixels.
+ */
+export const weavePixels = (src: PixelBuffer, settings: ProcessorSettings): PixelBuffer => {
+  const { width, height } = src;
+  const out = new Uint8ClampedArray(width * height * 4);
+  if (width === 0 || height === 0) return { data: out, width, height };
+  weaveWords(asWords(src.data), asWords(out), width, height, settings);
+  return { data: out, width, height };
+};
+
+// The weave on one word per pixel, written to `a`
+const weaveWords = (
+  src: Uint32Array,
+  a: Uint32Array,
+  width: number,
+  height: number,
+  settings: ProcessorSettings,
+  carry?: TurnCarry
+) => {
+  const geometry = getWeaveGeometry(width, height, settings);
+  const b = new Uint32Array(width * height);
+
+  let input = src;
+  if (geometry.sorted) {
+    cellStage(input, b, geometry, geometry.sorted);
+    input = b;
+  }
+  cellStage(input, a, geometry, geometry.scatter);
+  weftStage(a, b, geometry);
+  warpStage(b, a, geometry);
+  if (geometry.turns) {
+    turnStage(a, b, geometry, geometry.turns, false, carry);
+    a.set(b);
+  }
+  for (const pass of getPassSettings(settings)) {
+    const g = getWeaveGeometry(width, height, pass);
+    cellStage(a, b, g, g.scatter);
+    weftStage(b, a, g);
+    warpStage(a, b, g);
+    if (g.turns) turnStage(b, a, g, g.turns, false, carry);
+    else a.set(b);
+  }
+  if (geometry.manual) {
+    cellStage(a, b, geometry, geometry.manual);
+    a.set(b);
+  }
+};
+
+/**
+ * Exact inverse of `weavePixels`: given a woven buffer and the settings that
+ * produced it, restores the original pixels. Only works on lossless data.
+ */
+export const unweavePixels = (woven: PixelBuffer, settings: ProcessorSettings): PixelBuffer => {
+  const { width, height } = woven;
+  const out = new Uint8ClampedArray(width * height * 4);
+  if (width === 0 || height === 0) return { data: out, width, height };
+  unweaveWords(asWords(woven.data), asWords(out), width, height, settings);
+  return { data: out, width, height };
+};
+
+// The unweave on one word per pixel, written to `a`: the weave's stages in reverse order
+const unweaveWords = (
+  src: Uint32Array,
+  a: Uint32Array,
+  width: number,
+  height: number,
+  settings: ProcessorSettings,
+  carry?: TurnCarry
+) => {
+  const geometry = getWeaveGeometry(width, height, settings);
+  const b = new Uint32Array(width * height);
+
+  let input = src;
+  if (geometry.manual) {
+    cellStage(input, b, geometry, geometry.manual, true);
+    input = b;
+  }
+  for (const pass of getPassSettings(settings).reverse()) {
+    const g = getWeaveGeometry(width, height, pass);
+    if (g.turns) {
+      turnStage(input, a, g, g.turns, true, carry);
+      b.set(a);
+      input = b;
+    }
+    warpStage(input, a, g, true);
+    weftStage(a, b, g, true);
+    cellStage(b, a, g, g.scatter, true);
+    b.set(a);
+    input = b;
+  }
+  if (geometry.turns) {
+    turnStage(input, a, geometry, geometry.turns, true, carry);
+    b.set(a);
+    input = b;
+  }
+  warpStage(input, a, geometry, true);
+  weftStage(a, b, geometry, true);
+  cellStage(b, a, geometry, geometry.scatter, true);
+  if (geometry.sorted) {
+    cellStage(a, b, geometry, geometry.sorted, true);
+    a.set(b);
+  }
+};
+
+/**
+ * For every output pixel, the index (y * width + x) of the input pixel that
+ * lands there. Running the indices themselves through the stages gives exactly that.
+ */
+export const getPixelSources = (
+  width: number,
+  height: number,
+  settings: ProcessorSettings,
+  direction: 'weave' | 'unweave' = 'weave'
+): Uint32Array => {
+  const indices = new Uint32Array(width * height);
+  for (let i = 0; i < indices.length; i++) indices[i] = i;
+  const sources = new Uint32Array(width * height);
+  if (indices.length > 0) (direction === 'weave' ? weaveWords : unweaveWords)(indices, sources, width, height, settings);
+  return sources;
+};
+
+/**
+ * For every output pixel, the symmetry (see utils/tileTurns.ts) its content was
+ * turned by on the way there, every turn stage composed; null when no stage turns tiles.
+ * The full-resolution export turns the inside of each lifted block by it.
+ */
+export const getPixelTurns = (
+  width: number,
+  height: number,
+  settings: ProcessorSettings,
+  direction: 'weave' | 'unweave' = 'weave'
+): Uint8Array | null => {
+  if (!settings.turns && !getPassSettings(settings).some((pass) => pass.turns)) return null;
+  const symmetries = new Uint32Array(width * height);
+  if (symmetries.length > 0) {
+    (direction === 'weave' ? weaveWords : unweaveWords)(
+      new Uint32Array(width * height),
+      symmetries,
+      width,
+      height,
+      settings,
+      composeSymmetries
+    );
+  }
+  return Uint8Array.from(symmetries);
+};
@@ -0,0 +1,64 @@
+import { ProcessorSettings, WeavePass } from '../types';
+
+// Multi-pass weave stacks. The settings themselves are the first pass and
+// `passes` holds the rest, so a single-pass weave is just a stack of one and
+// every existing control keeps editing the first pass. The sidebar edits the
+// stack as one list through `getStack` and `setStack`.
+
+/** Passes after the first; each one re-weaves the whole image */
+export const MAX_PASSES = 8;
+
+// The first pass has no id of its own in the settings
+const FIRST_PASS_ID = 'first';
+
+export const createPassId = () => `pass-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e4)}`;
+
+/** A new pass under the last one: a finer weave inside its tiles. */
+export const createPass = (last: WeavePass): WeavePass => ({
+  ...last,
+  id: createPassId(),
+  enabled: true,
+  pattern: last.pattern === 'satin' ? 'plain' : 'satin',
+  tileSize: Math.max(2, Math.round(last.tileSize / 4)),
+  tileHeight: last.tileHeight && Math.max(2, Math.round(last.tileHeight / 4)),
+  horizontalShift: Math.round(last.horizontalShift / 4),
+  verticalShift: Math.round(last.verticalShift / 4),
+  scatterIntensity: 0,
+  seed: last.seed + 1,
+});
+
+/** Every pass as one list, the first pass (always on) included. */
+export const getStack = (settings: ProcessorSettings): WeavePass[] => [
+  {
+    id: FIRST_PASS_ID,
+    enabled: true,
+    pattern: settings.pattern,
+    draft: settings.draft,
+    tileSize: settings.tileSize,
+    tileHeight: settings.tileHeight,
+    tileShape: settings.tileShape,
+    horizontalShift: settings.horizontalShift,
+    verticalShift: settings.verticalShift,
+    scatterIntensity: settings.scatterIntensity,
+    seed: settings.seed,
+    turns: settings.turns,
+  },
+  ...(settings.passes ?? []),
+];
+
+/** Writes back a list from `getStack`, its first entry becoming the first pass. */
+export const setStack = (settings: ProcessorSettings, [first, ...rest]: WeavePass[]): ProcessorSettings => ({
+  ...settings,
+  pattern: first.pattern,
+  draft: first.draft,
+  tileSize: first.tileSize,
+  tileHeight: first.tileHeight,
+  tileShape: first.tileShape,
+  horizontalShift: first.horizontalShift,
+  verticalShift: first.verticalShift,
+  scatterIntensity: first.scatterIntensity,
+  seed: first.seed,
+  turns: first.turns,
+  // A former first pass moved down needs an id of its own
+  passes: rest.length ? rest.map((pass) => (pass.id === FIRST_PASS_ID ? { ...pass, id: createPassId() } : pass)) : undefined,
+});
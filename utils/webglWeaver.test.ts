@@ -0,0 +1,50 @@
+import createGL from 'gl';
+import { describe, expect, it } from 'vitest';
+import { compareWithReference, createUnverifiedWeaver } from './webglWeaver';
+
+// headless-gl stands in for the browser's canvas: the weaver only sizes the
+// surface and asks it for a context, so a resizable drawing buffer is enough
+const createHeadlessSurface = (): OffscreenCanvas | null => {
+  let gl: ReturnType<typeof createGL> | null = null;
+  try {
+    gl = createGL(1, 1, { createWebGL2Context: true, premultipliedAlpha: false, preserveDrawingBuffer: true });
+  } catch {
+    return null;
+  }
+  if (!gl) return null;
+  const context = gl;
+  const resize = context.getExtension('STACKGL_resize_drawingbuffer');
+  let width = 1;
+  let height = 1;
+  const surface = {
+    get width() {
+      return width;
+    },
+    set width(value: number) {
+      width = value;
+      resize?.resize(width, height);
+    },
+    get height() {
+      return height;
+    },
+    set height(value: number) {
+      height = value;
+      resize?.resize(width, height);
+    },
+    getContext: (type: string) => (type === 'webgl2' ? context : null),
+  };
+  return surface as unknown as OffscreenCanvas;
+};
+
+const surface = createHeadlessSurface();
+
+describe('WebGL weaver', () => {
+  // A context needs a GPU or a display; CI has to provide one (xvfb-run), so only a local run may skip
+  it.skipIf(!surface && !process.env.CI)('matches weavePixels byte for byte on the check cases', () => {
+    if (!surface) throw new Error('No headless WebGL2 context: run the suite under xvfb-run');
+    const weaver = createUnverifiedWeaver(surface);
+    if (!weaver) throw new Error('The weave shader did not compile');
+    expect(compareWithReference(weaver)).toBe(0);
+    weaver.dispose();
+  });
+});
@@ -0,0 +1,414 @@
+import { PixelBuffer, ProcessorSettings, TileSort, TileSwaps, WeaveDraft } from '../types';
+import { resolveDraft, rides } from './drafts';
+import { createRng } from './scatter';
+import { DEFAULT_TILE_SORT, withTileOrder } from './tileSort';
+import { getPassSettings, getWeaveGeometry, unweavePixels, WeaveGeometry, weavePixels } from './weaveCore';
+
+// WebGL2 backend for the weave. The source is uploaded once as a texture and a
+// fragment shader works out, for every output pixel, which source pixel lands
+// there: it runs the stages of utils/weaveCore.ts backwards as a gather,
+// reading band shifts, lanes and the cell permutations from small integer
+// textures built from the same WeaveGeometry. weaveCore stays the reference;
+// a weaver is only handed out after it reproduces the reference byte for byte.
+
+export interface WebglWeaver {
+  /** Holds the last rendered frame; draw it onto a 2D canvas to display it */
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  /** Uploads a source buffer as the texture. False when it exceeds the GPU's texture size. */
+  setSource: (source: PixelBuffer) => boolean;
+  /**
+   * Renders the current source; false when the grid is too large for the lookup textures,
+   * or for a multi-pass stack or a brick, hex or triangle tiling, which the shader doesn't run.
+   */
+  render: (settings: ProcessorSettings, mode: 'weave' | 'unweave') => boolean;
+  /** The last frame as a top-down RGBA buffer, like getImageData */
+  readPixels: () => PixelBuffer;
+  dispose: () => void;
+}
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+void main() {
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Lane textures hold one row per pick (or end) of the draft and one texel per band:
+//   r = index of the band within its lane, or -1 when the band doesn't ride it
+//   g = the band that holds the lane's k-th slot, for k = texel x
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp isampler2D;
+
+uniform sampler2D u_image;
+uniform isampler2D u_rowShift;
+uniform isampler2D u_colShift;
+uniform isampler2D u_rowLane;
+uniform isampler2D u_colLane;
+uniform isampler2D u_scatter;
+uniform isampler2D u_manual;
+uniform bool u_hasManual;
+uniform isampler2D u_sorted;
+uniform bool u_hasSorted;
+uniform isampler2D u_turns;
+uniform bool u_hasTurns;
+uniform int u_rowLaneLength[16];
+uniform int u_colLaneLength[16];
+uniform int u_picks;
+uniform int u_ends;
+// Tile width and height
+uniform ivec2 u_tile;
+uniform int u_cols;
+uniform ivec2 u_size;
+// -1 gathers a weave, +1 gathers an unweave
+uniform int u_direction;
+
+out vec4 outColor;
+
+// Where coordinate p (in band 'band') reads from after its lane slides by 'shift'
+// 'tile' is the band's size along p
+int slide(int p, int tile, int lane, isampler2D lanes, int laneLength, int shift) {
+  int band = p / tile;
+  int slot = texelFetch(lanes, ivec2(band, lane), 0).r;
+  if (slot < 0) return p;
+  int i = slot * tile + (p - band * tile);
+  // Both i and shift lie in [0, laneLength), and % is undefined for negative operands
+  int j = (i + u_direction * shift + laneLength) % laneLength;
+  int k = j / tile;
+  return texelFetch(lanes, ivec2(k, lane), 0).g * tile + (j - k * tile);
+}
+
+ivec2 warpStage(ivec2 p) {
+  int c = p.x / u_tile.x;
+  int end = c % u_ends;
+  int shift = texelFetch(u_colShift, ivec2(c, 0), 0).r;
+  return ivec2(p.x, slide(p.y, u_tile.y, end, u_colLane, u_colLaneLength[end], shift));
+}
+
+ivec2 weftStage(ivec2 p) {
+  int r = p.y / u_tile.y;
+  int pick = r % u_picks;
+  int shift = texelFetch(u_rowShift, ivec2(r, 0), 0).r;
+  return ivec2(slide(p.x, u_tile.x, pick, u_rowLane, u_rowLaneLength[pick], shift), p.y);
+}
+
+// Sort, scatter and the manual swaps all move whole cells
+ivec2 cellStage(ivec2 p, isampler2D cells) {
+  ivec2 tile = p / u_tile;
+  int source = texelFetch(cells, tile, 0).r;
+  ivec2 origin = ivec2(source % u_cols, source / u_cols) * u_tile;
+  return origin + (p - tile * u_tile);
+}
+
+ivec2 manualStage(ivec2 p) {
+  return u_hasManual ? cellStage(p, u_manual) : p;
+}
+
+ivec2 sortStage(ivec2 p) {
+  return u_hasSorted ? cellStage(p, u_sorted) : p;
+}
+
+// A weave gather undoes the cell's symmetry: a mirrored one is its own inverse,
+// a plain turn is undone by the opposite turn. Tiles that aren't square only hold even turns.
+ivec2 turnStage(ivec2 p) {
+  if (!u_hasTurns) return p;
+  ivec2 tile = p / u_tile;
+  int symmetry = texelFetch(u_turns, tile, 0).r;
+  if (u_direction < 0 && (symmetry & 4) == 0) symmetry = (4 - symmetry) & 3;
+  ivec2 origin = tile * u_tile;
+  ivec2 size = min(u_tile, u_size - origin);
+  ivec2 l = p - origin;
+  if ((symmetry & 4) != 0) l.x = size.x - 1 - l.x;
+  int turns = symmetry & 3;
+  if (turns == 1) l = ivec2(size.x - 1 - l.y, l.x);
+  else if (turns == 2) l = size - 1 - l;
+  else if (turns == 3) l = ivec2(l.y, size.x - 1 - l.x);
+  return origin + l;
+}
+
+void main() {
+  // Rows count from the top, like ImageData
+  ivec2 p = ivec2(int(gl_FragCoord.x), u_size.y - 1 - int(gl_FragCoord.y));
+  if (u_direction < 0) {
+    p = sortStage(cellStage(weftStage(warpStage(turnStage(manualStage(p)))), u_scatter));
+  } else {
+    p = manualStage(turnStage(warpStage(weftStage(cellStage(sortStage(p), u_scatter)))));
+  }
+  outColor = texelFetch(u_image, p, 0);
+}`;
+
+const compile = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  return gl.getShaderParameter(shader, gl.COMPILE_STATUS) ? shader : null;
+};
+
+const createProgram = (gl: WebGL2RenderingContext) => {
+  const vertex = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  return gl.getProgramParameter(program, gl.LINK_STATUS) ? program : null;
+};
+
+// Lane table for one thread: rows = draft repeat, columns = bands
+const buildLaneTable = (bands: number, repeat: number, riding: (band: number, lane: number) => boolean) => {
+  const table = new Int32Array(bands * repeat * 2).fill(-1);
+  for (let lane = 0; lane < repeat; lane++) {
+    let count = 0;
+    for (let band = 0; band < bands; band++) {
+      if (!riding(band, lane)) continue;
+      const row = lane * bands * 2;
+      table[row + band * 2] = count;
+      table[row + count * 2 + 1] = band;
+      count++;
+    }
+  }
+  return table;
+};
+
+const createSurface = (): HTMLCanvasElement | OffscreenCanvas =>
+  typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+
+/**
+ * A weaver drawing on the given surface, unchecked against the reference.
+ * Tests pass a surface wrapping a headless context; the app goes through createWebglWeaver.
+ */
+export const createUnverifiedWeaver = (
+  canvas: HTMLCanvasElement | OffscreenCanvas = createSurface()
+): WebglWeaver | null => {
+  const gl = canvas.getContext('webgl2', {
+    alpha: true,
+    premultipliedAlpha: false,
+    preserveDrawingBuffer: true,
+    antialias: false,
+  }) as WebGL2RenderingContext | null;
+  if (!gl) return null;
+  const program = createProgram(gl);
+  if (!program) return null;
+
+  const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+  gl.useProgram(program);
+
+  // One triangle that covers the whole viewport
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 3, -1, -1, 3]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'a_position');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const textures: Record<string, WebGLTexture | null> = {};
+  const names = ['u_image', 'u_rowShift', 'u_colShift', 'u_rowLane', 'u_colLane', 'u_scatter', 'u_manual', 'u_sorted', 'u_turns'];
+  names.forEach((name, unit) => {
+    textures[name] = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, textures[name]);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.uniform1i(gl.getUniformLocation(program, name), unit);
+  });
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+  gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  const uploadInts = (name: string, width: number, height: number, channels: 1 | 2, data: Int32Array) => {
+    gl.activeTexture(gl.TEXTURE0 + names.indexOf(name));
+    const format = channels === 1 ? gl.R32I : gl.RG32I;
+    const layout = channels === 1 ? gl.RED_INTEGER : gl.RG_INTEGER;
+    gl.texImage2D(gl.TEXTURE_2D, 0, format, width, height, 0, layout, gl.INT, data);
+  };
+
+  let size = { width: 0, height: 0 };
+  // Geometry and direction the lookup textures currently hold
+  let uploaded: { geometry: WeaveGeometry; mode: 'weave' | 'unweave' } | null = null;
+
+  return {
+    canvas,
+    setSource: (source) => {
+      if (source.width > maxSize || source.height > maxSize) return false;
+      size = { width: source.width, height: source.height };
+      canvas.width = source.width;
+      canvas.height = source.height;
+      gl.activeTexture(gl.TEXTURE0);
+      const bytes = new Uint8Array(source.data.buffer, source.data.byteOffset, source.data.byteLength);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, source.width, source.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, bytes);
+      return true;
+    },
+    render: (settings, mode) => {
+      const { width, height } = size;
+      if (width === 0 || height === 0 || getPassSettings(settings).length > 0) return false;
+      const g = getWeaveGeometry(width, height, settings);
+      if (g.layout || g.cols > maxSize || g.rows > maxSize) return false;
+      // Geometry is cached per settings snapshot, so an unchanged frame keeps its textures
+      if (uploaded?.geometry === g && uploaded.mode === mode) {
+        gl.viewport(0, 0, width, height);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+        return true;
+      }
+      uploaded = { geometry: g, mode };
+      const draft = resolveDraft(settings);
+      const picks = draft.weft.length;
+      const ends = draft.warp.length;
+
+      uploadInts('u_rowShift', g.rows, 1, 1, g.rowShifts);
+      uploadInts('u_colShift', g.cols, 1, 1, g.colShifts);
+      uploadInts(
+        'u_rowLane',
+        g.cols,
+        picks,
+        2,
+        buildLaneTable(g.cols, picks, (c, pick) => rides(draft.cells[pick][c % ends], 'weft'))
+      );
+      uploadInts(
+        'u_colLane',
+        g.rows,
+        ends,
+        2,
+        buildLaneTable(g.rows, ends, (r, end) => rides(draft.cells[r % picks][end], 'warp'))
+      );
+      // A gather needs the opposite map to the one the stage scatters with
+      uploadInts('u_scatter', g.cols, g.rows, 1, mode === 'weave' ? g.scatter.inverse : g.scatter.forward);
+      if (g.manual) uploadInts('u_manual', g.cols, g.rows, 1, mode === 'weave' ? g.manual.inverse : g.manual.forward);
+      gl.uniform1i(uniform('u_hasManual'), g.manual ? 1 : 0);
+      if (g.sorted) uploadInts('u_sorted', g.cols, g.rows, 1, mode === 'weave' ? g.sorted.inverse : g.sorted.forward);
+      gl.uniform1i(uniform('u_hasSorted'), g.sorted ? 1 : 0);
+      if (g.turns) uploadInts('u_turns', g.cols, g.rows, 1, Int32Array.from(g.turns));
+      gl.uniform1i(uniform('u_hasTurns'), g.turns ? 1 : 0);
+
+      const laneLengths = (lanes: (Int32Array | null)[], span: number) => {
+        const lengths = new Int32Array(16);
+        lanes.forEach((lane, i) => (lengths[i] = lane ? lane.length : span));
+        return lengths;
+      };
+      gl.uniform1iv(uniform('u_rowLaneLength'), laneLengths(g.rowLanes, width));
+      gl.uniform1iv(uniform('u_colLaneLength'), laneLengths(g.colLanes, height));
+      gl.uniform1i(uniform('u_picks'), picks);
+      gl.uniform1i(uniform('u_ends'), ends);
+      gl.uniform2i(uniform('u_tile'), g.tileWidth, g.tileHeight);
+      gl.uniform1i(uniform('u_cols'), g.cols);
+      gl.uniform2i(uniform('u_size'), width, height);
+      gl.uniform1i(uniform('u_direction'), mode === 'weave' ? -1 : 1);
+
+      gl.viewport(0, 0, width, height);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      return true;
+    },
+    readPixels: () => {
+      const { width, height } = size;
+      const flipped = new Uint8Array(width * height * 4);
+      gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, flipped);
+      // GL rows run bottom-up
+      const data = new Uint8ClampedArray(flipped.length);
+      const stride = width * 4;
+      for (let y = 0; y < height; y++) {
+        data.set(flipped.subarray((height - 1 - y) * stride, (height - y) * stride), y * stride);
+      }
+      return { data, width, height };
+    },
+    dispose: () => gl.getExtension('WEBGL_lose_context')?.loseContext(),
+  };
+};
+
+// Partial edge tiles, lanes, negative factors, scatter and both directions
+const CHECK_DRAFT: WeaveDraft = {
+  id: 'webgl-check',
+  name: 'WebGL check',
+  weft: [1, -2, 0.5],
+  warp: [2, -1],
+  cells: [
+    ['weft', 'both'],
+    ['warp', 'none'],
+    ['both', 'weft'],
+  ],
+};
+
+// Swaps on the 8x5 grid of the check image: chained pairs, a no-op, one across
+// cell sizes (skipped) and one between two cells of the partial last column
+const CHECK_SWAPS: TileSwaps = { cols: 8, rows: 5, pairs: [[0, 9], [9, 20], [3, 3], [7, 39], [15, 31]] };
+
+// Sorted in 3x3 windows along the Hilbert curve, so the partial edge cells sort among themselves
+const CHECK_SORT: TileSort = { ...DEFAULT_TILE_SORT, key: 'hue', path: 'hilbert', scope: 'window', window: 3 };
+
+const CHECK_CASES: [Partial<ProcessorSettings>, 'weave' | 'unweave'][] = [
+  [{ pattern: 'plain', tileSize: 5, horizontalShift: 7, verticalShift: 3, scatterIntensity: 60, seed: 9 }, 'weave'],
+  [{ pattern: 'twill', tileSize: 4, horizontalShift: 13, verticalShift: -6 }, 'weave'],
+  [{ pattern: 'satin', tileSize: 6, horizontalShift: 11, verticalShift: 17, scatterIntensity: 100, seed: 3 }, 'unweave'],
+  [{ pattern: 'custom', draft: CHECK_DRAFT, tileSize: 3, horizontalShift: 5, verticalShift: 4, scatterIntensity: 30 }, 'weave'],
+  [{ pattern: 'custom', draft: CHECK_DRAFT, tileSize: 3, horizontalShift: 5, verticalShift: 4, scatterIntensity: 30 }, 'unweave'],
+  [{ pattern: 'twill', tileSize: 5, horizontalShift: 6, scatterIntensity: 50, swaps: CHECK_SWAPS }, 'weave'],
+  [{ pattern: 'twill', tileSize: 5, horizontalShift: 6, scatterIntensity: 50, swaps: CHECK_SWAPS }, 'unweave'],
+  [{ pattern: 'basket', tileSize: 4, verticalShift: 9, scatterIntensity: 40, sort: CHECK_SORT }, 'weave'],
+  [{ pattern: 'basket', tileSize: 4, verticalShift: 9, scatterIntensity: 40, sort: CHECK_SORT }, 'unweave'],
+  // Every symmetry, on square tiles and on the clipped ones of both edges
+  [{ pattern: 'twill', tileSize: 5, horizontalShift: 4, turns: { by: 'seed', set: 'all' }, seed: 11 }, 'weave'],
+  [{ pattern: 'twill', tileSize: 5, horizontalShift: 4, turns: { by: 'seed', set: 'all' }, seed: 11 }, 'unweave'],
+  [{ pattern: 'satin', tileSize: 6, verticalShift: 5, turns: { by: 'pattern', set: 'mirror' } }, 'weave'],
+  // Oblong tiles both ways, where quarter turns become half turns
+  [{ pattern: 'custom', draft: CHECK_DRAFT, tileSize: 6, tileHeight: 4, horizontalShift: 9, verticalShift: 7, scatterIntensity: 50 }, 'weave'],
+  [{ pattern: 'twill', tileSize: 3, tileHeight: 7, verticalShift: 8, turns: { by: 'seed', set: 'all' }, sort: CHECK_SORT }, 'weave'],
+  [{ pattern: 'twill', tileSize: 3, tileHeight: 7, verticalShift: 8, turns: { by: 'seed', set: 'all' }, sort: CHECK_SORT }, 'unweave'],
+];
+
+/**
+ * Renders a handful of awkward cases with both backends and counts the bytes
+ * that differ. Zero means the shader matches the Canvas2D reference exactly.
+ */
+export const compareWithReference = (weaver: WebglWeaver): number => {
+  const width = 37;
+  const height = 23;
+  const rng = createRng(2024);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i++) data[i] = i % 4 === 3 ? 255 : Math.floor(rng() * 256);
+  const source: PixelBuffer = { data, width, height };
+
+  let mismatches = 0;
+  for (const [partial, mode] of CHECK_CASES) {
+    // The sort order is found on the check image itself, as the preview does
+    const settings = withTileOrder(
+      {
+        tileSize: 4,
+        horizontalShift: 0,
+        verticalShift: 0,
+        scatterIntensity: 0,
+        pattern: 'plain',
+        opacity: 100,
+        blendMode: 'normal',
+        seed: 1,
+        ...partial,
+      },
+      source
+    );
+    if (!weaver.setSource(source) || !weaver.render(settings, mode)) return Infinity;
+    const expected = mode === 'weave' ? weavePixels(source, settings) : unweavePixels(source, settings);
+    const actual = weaver.readPixels();
+    for (let i = 0; i < expected.data.length; i++) if (expected.data[i] !== actual.data[i]) mismatches++;
+  }
+  return mismatches;
+};
+
+/**
+ * A WebGL2 weaver, or null when WebGL2 is missing or its output differs from
+ * the Canvas2D reference in any byte (callers then stay on the CPU path).
+ */
+export const createWebglWeaver = (): WebglWeaver | null => {
+  try {
+    const weaver = createUnverifiedWeaver();
+    if (!weaver) return null;
+    if (compareWithReference(weaver) !== 0) {
+      weaver.dispose();
+      return null;
+    }
+    return weaver;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,185 @@
+import { FrameEncoder, PixelBuffer } from '../types';
+
+// WebM export: frames are encoded with WebCodecs (VP8) using explicit timestamps,
+// then wrapped in a minimal Matroska/WebM container. Timing comes from the frame
+// index, never from the wall clock, so the video is frame-exact.
+
+interface WebmOptions {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export const isWebmSupported = () => typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+// --- EBML writing ---
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const idBytes = (id: number) => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+// Variable-length size with the smallest width that fits
+const sizeBytes = (size: number) => {
+  for (let len = 1; len <= 8; len++) {
+    if (size < 2 ** (7 * len) - 1) {
+      const bytes: number[] = [];
+      let v = size;
+      for (let i = 0; i < len; i++) {
+        bytes.unshift(v % 256);
+        v = Math.floor(v / 256);
+      }
+      bytes[0] |= 1 << (8 - len);
+      return bytes;
+    }
+  }
+  throw new Error('EBML element too large');
+};
+
+const element = (id: number, ...children: Uint8Array[]) => {
+  const body = concat(children);
+  return concat([Uint8Array.from([...idBytes(id), ...sizeBytes(body.length)]), body]);
+};
+
+const uint = (id: number, value: number) => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return element(id, Uint8Array.from(bytes));
+};
+
+const float = (id: number, value: number) => {
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setFloat64(0, value);
+  return element(id, body);
+};
+
+const text = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+interface EncodedFrame {
+  data: Uint8Array;
+  /** Milliseconds */
+  time: number;
+  key: boolean;
+}
+
+const mux = (frames: EncodedFrame[], { width, height, fps }: WebmOptions) => {
+  const header = element(
+    0x1a45dfa3,
+    uint(0x4286, 1), // EBMLVersion
+    uint(0x42f7, 1), // EBMLReadVersion
+    uint(0x42f2, 4), // EBMLMaxIDLength
+    uint(0x42f3, 8), // EBMLMaxSizeLength
+    text(0x4282, 'webm'), // DocType
+    uint(0x4287, 2), // DocTypeVersion
+    uint(0x4285, 2) // DocTypeReadVersion
+  );
+
+  const info = element(
+    0x1549a966,
+    uint(0x2ad7b1, 1000000), // TimestampScale: 1ms
+    text(0x4d80, 'Mosaic Weaver'), // MuxingApp
+    text(0x5741, 'Mosaic Weaver'), // WritingApp
+    float(0x4489, (frames.length * 1000) / fps) // Duration
+  );
+
+  const tracks = element(
+    0x1654ae6b,
+    element(
+      0xae, // TrackEntry
+      uint(0xd7, 1), // TrackNumber
+      uint(0x73c5, 1), // TrackUID
+      uint(0x83, 1), // TrackType: video
+      text(0x86, 'V_VP8'), // CodecID
+      uint(0x23e383, Math.round(1e9 / fps)), // DefaultDuration (ns)
+      element(0xe0, uint(0xb0, width), uint(0xba, height))
+    )
+  );
+
+  // A new cluster at every keyframe keeps block offsets within int16 range
+  const clusters: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let clusterTime = 0;
+  const flush = () => {
+    if (current.length) clusters.push(element(0x1f43b675, uint(0xe7, clusterTime), ...current));
+    current = [];
+  };
+
+  for (const frame of frames) {
+    if (frame.key) {
+      flush();
+      clusterTime = Math.round(frame.time);
+    }
+    const relative = Math.round(frame.time) - clusterTime;
+    const block = new Uint8Array(4 + frame.data.length);
+    block[0] = 0x81; // track 1
+    new DataView(block.buffer).setInt16(1, relative);
+    block[3] = frame.key ? 0x80 : 0;
+    block.set(frame.data, 4);
+    current.push(element(0xa3, block)); // SimpleBlock
+  }
+  flush();
+
+  return new Blob([header, element(0x18538067, info, tracks, ...clusters)], { type: 'video/webm' });
+};
+
+export const createWebmEncoder = (options: WebmOptions): FrameEncoder => {
+  const { width, height, fps } = options;
+  const frames: EncodedFrame[] = [];
+  let encoderError: Error | null = null;
+  let index = 0;
+
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({ data, time: chunk.timestamp / 1000, key: chunk.type === 'key' });
+    },
+    error: (e) => {
+      encoderError = e instanceof Error ? e : new Error(String(e));
+    },
+  });
+  encoder.configure({
+    codec: 'vp8',
+    width,
+    height,
+    framerate: fps,
+    // Generous bitrate: the weave is full of hard edges
+    bitrate: Math.min(40e6, Math.max(2e6, width * height * fps * 0.4)),
+  });
+
+  return {
+    async addFrame({ data }: PixelBuffer) {
+      if (encoderError) throw encoderError;
+      const frame = new VideoFrame(data, {
+        format: 'RGBA',
+        codedWidth: width,
+        codedHeight: height,
+        timestamp: Math.round((index * 1e6) / fps),
+        duration: Math.round(1e6 / fps),
+      });
+      // A keyframe every second keeps seeking cheap
+      encoder.encode(frame, { keyFrame: index % Math.max(1, Math.round(fps)) === 0 });
+      frame.close();
+      index++;
+      // Apply back-pressure so queued frames don't pile up in memory
+      while (encoder.encodeQueueSize > 4) await new Promise((r) => setTimeout(r, 5));
+    },
+    async finish() {
+      await encoder.flush();
+      encoder.close();
+      if (encoderError) throw encoderError;
+      return mux(frames, options);
+    },
+  };
+};
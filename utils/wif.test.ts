@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { WeaveDraft } from '../types';
+import { exportWif, parseWif } from './wif';
+
+const DRAFT: WeaveDraft = {
+  id: 'custom-test',
+  name: 'Broken twill',
+  weft: [1.5, -0.5, 2, -3],
+  warp: [0.5, -1, 1],
+  cells: [
+    ['warp', 'weft', 'both'],
+    ['weft', 'warp', 'none'],
+    ['both', 'both', 'weft'],
+    ['none', 'weft', 'warp'],
+  ],
+};
+
+const wif = (...sections: string[]) => ['[WIF]', 'Version=1.1', '', ...sections].join('\n');
+
+const LIFTPLAN = wif(
+  '[WEAVING]',
+  'Shafts=4',
+  '[THREADING]',
+  '1=1',
+  '2=2',
+  '3=3',
+  '4=4',
+  '[LIFTPLAN]',
+  '1=1,2',
+  '2=',
+  '3=3,4'
+);
+
+describe('parseWif', () => {
+  it('reads back what exportWif wrote', () => {
+    const { draft, warnings } = parseWif(exportWif(DRAFT));
+    expect(warnings).toEqual([]);
+    expect(draft).toMatchObject({ name: DRAFT.name, weft: DRAFT.weft, warp: DRAFT.warp, cells: DRAFT.cells });
+  });
+
+  it('reads threading, tie-up and treadling without the private section', () => {
+    const exported = exportWif(DRAFT);
+    const { draft } = parseWif(exported.slice(0, exported.indexOf('[PRIVATE')));
+    // Only the raised ends survive the loom's view: warp on top, or weft
+    expect(draft.cells).toEqual(
+      DRAFT.cells.map((row) => row.map((cell) => (cell === 'warp' || cell === 'both' ? 'warp' : 'weft')))
+    );
+    expect(draft.weft).toHaveLength(4);
+    expect(draft.warp).toHaveLength(3);
+  });
+
+  it('leaves a liftplan pick that lifts nothing unshifted', () => {
+    const { draft } = parseWif(LIFTPLAN);
+    expect(draft.weft).toEqual([-1.5, 0, 0.5]);
+    expect(draft.cells[1]).toEqual(['weft', 'weft', 'weft', 'weft']);
+  });
+
+  it('clamps factors to the editor range', () => {
+    const many = parseWif(wif('[WEAVING]', 'Shafts=40', '[THREADING]', '1=1', '2=40', '[LIFTPLAN]', '1=40'));
+    expect(many.draft.warp).toEqual([-10, 10]);
+    expect(many.draft.weft).toEqual([10]);
+
+    const exported = exportWif({ ...DRAFT, weft: [1, 2, 3, 4] }).replace('Weft=1,2,3,4', 'Weft=50,-99,2,0');
+    expect(parseWif(exported).draft.weft).toEqual([10, -10, 2, 0]);
+  });
+
+  it('crops an oversized draft to the largest repeat and says so', () => {
+    const threading = Array.from({ length: 20 }, (_, i) => `${i + 1}=${(i % 4) + 1}`);
+    const liftplan = Array.from({ length: 24 }, (_, i) => `${i + 1}=${(i % 4) + 1}`);
+    const { draft, warnings } = parseWif(wif('[THREADING]', ...threading, '[LIFTPLAN]', ...liftplan));
+    expect(draft.warp).toHaveLength(16);
+    expect(draft.weft).toHaveLength(16);
+    expect(warnings).toEqual(['Draft is 20 ends x 24 picks; only the first 16 x 16 are used as the repeat.']);
+  });
+
+  it('rejects malformed files with a readable error', () => {
+    expect(() => parseWif('[THREADING]\n1=1')).toThrow('the [WIF] section is missing');
+    expect(() => parseWif(wif('[LIFTPLAN]', '1=1'))).toThrow('no [THREADING] section');
+    expect(() => parseWif(wif('[THREADING]', '1=1', '[TIEUP]', '1=1'))).toThrow('either [TIEUP] and [TREADLING]');
+    expect(() => parseWif(wif('[THREADING]', 'just text'))).toThrow('Line 5: expected "key=value"');
+    expect(() => parseWif(wif('[THREADING]', '1=a', '[LIFTPLAN]', '1=1'))).toThrow('"a" is not a whole number');
+    expect(() => parseWif(wif('[THREADING]', '0=1', '[LIFTPLAN]', '1=1'))).toThrow('thread numbers start at 1');
+    expect(() => parseWif(wif('[THREADING]', '1=-2', '[LIFTPLAN]', '1=1'))).toThrow('negative shaft');
+  });
+
+  it('rejects shafts and treadles beyond the counts [WEAVING] declares', () => {
+    const weaving = ['[WEAVING]', 'Shafts=2', 'Treadles=2'];
+    expect(() => parseWif(wif(...weaving, '[THREADING]', '1=1', '2=3', '[LIFTPLAN]', '1=1'))).toThrow(
+      'Line 9 in [THREADING]: shaft 3 is beyond the 2 shafts in [WEAVING]'
+    );
+    expect(() => parseWif(wif(...weaving, '[THREADING]', '1=1', '[LIFTPLAN]', '1=1,5'))).toThrow('shaft 5 is beyond');
+    expect(() =>
+      parseWif(wif(...weaving, '[THREADING]', '1=1', '[TIEUP]', '1=1', '[TREADLING]', '1=4'))
+    ).toThrow('treadle 4 is beyond the 2 treadles');
+  });
+});
@@ -0,0 +1,290 @@
+import { DraftCell, WeaveDraft } from '../types';
+import { createDraft, MAX_DRAFT_SIZE, normalizeDraft } from './drafts';
+
+// Weaving Information File (WIF 1.1) import/export.
+//
+// WIF is an INI-style text format: [SECTION] headers followed by key=value lines.
+// A draft is described by its threading (shaft per warp end), tie-up (shafts
+// raised by each treadle) and treadling (treadle per weft pick), or by a liftplan
+// (shafts raised per pick) instead of tie-up + treadling.
+//
+// Mapping to Mosaic Weaver drafts:
+//   - a raised warp end shows warp on top  -> cell 'warp' (slides with its column)
+//   - otherwise the weft is on top         -> cell 'weft' (slides with its row)
+//   - shaft / treadle numbers become shift factors centred around zero
+// Our exact factors and cell states are kept in a private section on export, so
+// a round trip through WIF is lossless.
+
+const PRIVATE_SECTION = 'PRIVATE MOSAICWEAVER DRAFT';
+
+export interface WifImport {
+  draft: WeaveDraft;
+  /** Non-fatal issues, e.g. a repeat that had to be cropped */
+  warnings: string[];
+}
+
+type Section = Map<string, { value: string; line: number }>;
+
+const parseSections = (text: string) => {
+  const sections = new Map<string, Section>();
+  let current: Section | null = null;
+
+  text.split(/\r\n|\r|\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) return;
+
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      const name = header[1].trim().toUpperCase();
+      current = sections.get(name) ?? new Map();
+      sections.set(name, current);
+      return;
+    }
+
+    const eq = line.indexOf('=');
+    if (eq < 0) throw new Error(`Line ${index + 1}: expected "key=value", got "${line}"`);
+    if (!current) throw new Error(`Line ${index + 1}: value found before any [SECTION] header`);
+    current.set(line.slice(0, eq).trim().toLowerCase(), { value: line.slice(eq + 1).trim(), line: index + 1 });
+  });
+
+  return sections;
+};
+
+const toInt = (raw: string, where: string) => {
+  const n = Number(raw);
+  if (!Number.isInteger(n)) throw new Error(`${where}: "${raw}" is not a whole number`);
+  return n;
+};
+
+// Parses a numbered section such as [THREADING] 1=1,3 into index -> number list,
+// rejecting shaft or treadle numbers above the count [WEAVING] declares
+const readIndexed = (
+  sections: Map<string, Section>,
+  name: string,
+  limit: { max: number | null; what: 'shaft' | 'treadle' }
+) => {
+  const result = new Map<number, number[]>();
+  const section = sections.get(name);
+  if (!section) return null;
+
+  section.forEach(({ value, line }, key) => {
+    const where = `Line ${line} in [${name}]`;
+    const index = toInt(key, where);
+    if (index < 1) throw new Error(`${where}: thread numbers start at 1`);
+    const numbers = value === '' ? [] : value.split(',').map((part) => toInt(part.trim(), where));
+    if (numbers.some((n) => n < 0)) throw new Error(`${where}: negative shaft or treadle number`);
+    const over = limit.max === null ? undefined : numbers.find((n) => n > limit.max!);
+    if (over !== undefined) {
+      throw new Error(`${where}: ${limit.what} ${over} is beyond the ${limit.max} ${limit.what}s in [WEAVING]`);
+    }
+    // Shaft/treadle 0 means "unassigned" in some programs
+    result.set(index, numbers.filter((n) => n > 0));
+  });
+  return result;
+};
+
+const readCount = (sections: Map<string, Section>, section: string, key: string) => {
+  const entry = sections.get(section)?.get(key);
+  if (!entry) return null;
+  const n = toInt(entry.value, `Line ${entry.line} in [${section}]`);
+  if (n < 1) throw new Error(`Line ${entry.line} in [${section}]: ${key} must be at least 1`);
+  return n;
+};
+
+const isYes = (value: string | undefined) => /^(yes|true|on|1)$/i.test(value ?? '');
+
+const centred = (n: number, count: number) => n - (count + 1) / 2;
+
+const CELL_CODES: Record<string, DraftCell> = { B: 'both', W: 'weft', P: 'warp', N: 'none' };
+const CELL_NAMES: Record<DraftCell, string> = { both: 'B', weft: 'W', warp: 'P', none: 'N' };
+
+// Restores exact factors and cells written by exportWif, when they still match the file
+const readPrivate = (sections: Map<string, Section>, draft: WeaveDraft) => {
+  const section = sections.get(PRIVATE_SECTION);
+  if (!section) return;
+
+  const weft = section.get('weft')?.value.split(',').map(Number);
+  const warp = section.get('warp')?.value.split(',').map(Number);
+  if (!weft || !warp || weft.length !== draft.weft.length || warp.length !== draft.warp.length) return;
+  if ([...weft, ...warp].some((n) => !Number.isFinite(n))) return;
+
+  const cells = draft.weft.map((_, y) => {
+    const codes = section.get(`row${y + 1}`)?.value ?? '';
+    return codes.split(',').map((code) => CELL_CODES[code.trim()]);
+  });
+  const cellsValid = cells.every((row) => row.length === warp.length && row.every(Boolean));
+
+  draft.weft = weft;
+  draft.warp = warp;
+  if (cellsValid) draft.cells = cells;
+  const name = section.get('name')?.value;
+  if (name) draft.name = name.slice(0, 40);
+};
+
+/**
+ * Parses a WIF file into a draft. Throws an Error with a readable message
+ * (including the line number where possible) when the file is malformed.
+ */
+export const parseWif = (text: string, fallbackName = 'WIF Draft'): WifImport => {
+  const sections = parseSections(text);
+  const warnings: string[] = [];
+
+  if (!sections.has('WIF')) throw new Error('Not a WIF file: the [WIF] section is missing');
+
+  const declaredShafts = readCount(sections, 'WEAVING', 'shafts');
+  const declaredTreadles = readCount(sections, 'WEAVING', 'treadles');
+  const shaftLimit = { max: declaredShafts, what: 'shaft' } as const;
+
+  const threading = readIndexed(sections, 'THREADING', shaftLimit);
+  if (!threading || threading.size === 0) throw new Error('The file has no [THREADING] section');
+
+  const liftplan = readIndexed(sections, 'LIFTPLAN', shaftLimit);
+  const treadling = readIndexed(sections, 'TREADLING', { max: declaredTreadles, what: 'treadle' });
+  const tieup = readIndexed(sections, 'TIEUP', shaftLimit);
+  if (!liftplan && !(treadling && tieup)) {
+    throw new Error('The file needs either [TIEUP] and [TREADLING], or a [LIFTPLAN]');
+  }
+
+  const ends = readCount(sections, 'WARP', 'threads') ?? Math.max(...threading.keys());
+  const picksSource = liftplan ?? treadling!;
+  const picks = readCount(sections, 'WEFT', 'threads') ?? Math.max(0, ...picksSource.keys());
+  if (picks < 1) throw new Error('The file does not describe any weft picks');
+
+  const shafts = declaredShafts ?? Math.max(1, ...[...threading.values()].flat());
+  const treadles = declaredTreadles ?? Math.max(1, ...[...(treadling?.values() ?? [])].flat());
+  // Sinking-shed looms list the shafts that go down
+  const risingEntry = sections.get('WEAVING')?.get('rising shed');
+  const rising = risingEntry ? isYes(risingEntry.value) : true;
+
+  const cols = Math.min(ends, MAX_DRAFT_SIZE);
+  const rows = Math.min(picks, MAX_DRAFT_SIZE);
+  if (ends > MAX_DRAFT_SIZE || picks > MAX_DRAFT_SIZE) {
+    warnings.push(
+      `Draft is ${ends} ends x ${picks} picks; only the first ${cols} x ${rows} are used as the repeat.`
+    );
+  }
+
+  const liftedShafts = (pick: number) => {
+    if (liftplan) return new Set(liftplan.get(pick) ?? []);
+    const lifted = new Set<number>();
+    for (const treadle of treadling!.get(pick) ?? []) {
+      for (const shaft of tieup!.get(treadle) ?? []) lifted.add(shaft);
+    }
+    return lifted;
+  };
+
+  const cells: DraftCell[][] = [];
+  const weft: number[] = [];
+  for (let pick = 1; pick <= rows; pick++) {
+    const lifted = liftedShafts(pick);
+    cells.push(
+      Array.from({ length: cols }, (_, i) => {
+        const onShafts = threading.get(i + 1) ?? [];
+        const raised = onShafts.some((shaft) => lifted.has(shaft)) === rising;
+        return raised ? 'warp' : 'weft';
+      })
+    );
+    // Treadle number (or lowest lifted shaft for a liftplan) sets the row factor; a pick
+    // that lifts nothing has no step, so its row doesn't slide
+    const step = liftplan ? (lifted.size > 0 ? Math.min(...lifted) : undefined) : treadling!.get(pick)?.[0];
+    weft.push(step && Number.isFinite(step) ? centred(step, liftplan ? shafts : treadles) : 0);
+  }
+
+  const warp = Array.from({ length: cols }, (_, i) => {
+    const shaft = threading.get(i + 1)?.[0];
+    return shaft ? centred(shaft, shafts) : 0;
+  });
+
+  const draft: WeaveDraft = { ...createDraft(fallbackName), weft, warp, cells };
+  const title = sections.get('TEXT')?.get('title')?.value;
+  if (title) draft.name = title.slice(0, 40);
+  readPrivate(sections, draft);
+
+  // Factors from many shafts or from the private section can fall outside the editor's range
+  return { draft: normalizeDraft(draft)!, warnings };
+};
+
+/** Serialises a draft as a WIF 1.1 file using threading, tie-up and treadling. */
+export const exportWif = (draft: WeaveDraft): string => {
+  const rows = draft.weft.length;
+  const cols = draft.warp.length;
+  // Anything showing warp on top counts as a raised end
+  const raised = (y: number, x: number) => draft.cells[y][x] === 'warp' || draft.cells[y][x] === 'both';
+
+  // One shaft per distinct column pattern, one treadle per distinct row pattern
+  const shaftOf: number[] = [];
+  const shaftColumns: number[] = [];
+  const columnKeys = new Map<string, number>();
+  for (let x = 0; x < cols; x++) {
+    const key = draft.cells.map((_, y) => (raised(y, x) ? 1 : 0)).join('');
+    if (!columnKeys.has(key)) {
+      columnKeys.set(key, columnKeys.size + 1);
+      shaftColumns.push(x);
+    }
+    shaftOf.push(columnKeys.get(key)!);
+  }
+
+  const treadleOf: number[] = [];
+  const treadleRows: number[] = [];
+  const rowKeys = new Map<string, number>();
+  for (let y = 0; y < rows; y++) {
+    const key = shaftColumns.map((x) => (raised(y, x) ? 1 : 0)).join('');
+    if (!rowKeys.has(key)) {
+      rowKeys.set(key, rowKeys.size + 1);
+      treadleRows.push(y);
+    }
+    treadleOf.push(rowKeys.get(key)!);
+  }
+
+  const lines = [
+    '[WIF]',
+    'Version=1.1',
+    `Date=${new Date().toDateString()}`,
+    'Developers=wif@mhsoft.com',
+    'Source Program=Mosaic Weaver',
+    '',
+    '[CONTENTS]',
+    'WEAVING=yes',
+    'WARP=yes',
+    'WEFT=yes',
+    'TEXT=yes',
+    'THREADING=yes',
+    'TIEUP=yes',
+    'TREADLING=yes',
+    '',
+    '[TEXT]',
+    `Title=${draft.name}`,
+    '',
+    '[WEAVING]',
+    `Shafts=${columnKeys.size}`,
+    `Treadles=${rowKeys.size}`,
+    'Rising Shed=yes',
+    '',
+    '[WARP]',
+    `Threads=${cols}`,
+    '',
+    '[WEFT]',
+    `Threads=${rows}`,
+    '',
+    '[THREADING]',
+    ...shaftOf.map((shaft, x) => `${x + 1}=${shaft}`),
+    '',
+    '[TIEUP]',
+    ...treadleRows.map((y, t) => {
+      const shafts = shaftColumns.map((x, s) => (raised(y, x) ? s + 1 : 0)).filter(Boolean);
+      return `${t + 1}=${shafts.join(',')}`;
+    }),
+    '',
+    '[TREADLING]',
+    ...treadleOf.map((treadle, y) => `${y + 1}=${treadle}`),
+    '',
+    `[${PRIVATE_SECTION}]`,
+    `Name=${draft.name}`,
+    `Weft=${draft.weft.join(',')}`,
+    `Warp=${draft.warp.join(',')}`,
+    ...draft.cells.map((row, y) => `Row${y + 1}=${row.map((cell) => CELL_NAMES[cell]).join(',')}`),
+    '',
+  ];
+
+  return lines.join('\r\n');
+};
@@ -0,0 +1,93 @@
+import { crc32 } from './png';
+
+// A store-only (uncompressed) zip writer. PNGs are already deflated, so
+// compressing them again would cost time and save next to nothing.
+
+const MAX_ZIP_BYTES = 0xffffffff;
+
+export interface ZipWriter {
+  /** Appends a file; names may contain "/" for folders */
+  add(name: string, data: Blob): Promise<void>;
+  finish(): Blob;
+}
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// The CRC is read in slices so a large PNG is never copied into memory whole
+const blobCrc32 = async (blob: Blob) => {
+  const SLICE = 1 << 24;
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += SLICE) {
+    crc = crc32(new Uint8Array(await blob.slice(offset, offset + SLICE).arrayBuffer()), crc);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const createZipWriter = (now = new Date()): ZipWriter => {
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  const { time, date } = dosDateTime(now);
+  let offset = 0;
+  let count = 0;
+
+  return {
+    async add(name, data) {
+      const nameBytes = new TextEncoder().encode(name);
+      if (offset + 30 + nameBytes.length + data.size > MAX_ZIP_BYTES) {
+        throw new Error('The zip would be larger than 4 GB; export fewer images at a time');
+      }
+      const crc = await blobCrc32(data);
+
+      const local = new Uint8Array(30 + nameBytes.length);
+      const lv = new DataView(local.buffer);
+      lv.setUint32(0, 0x04034b50, true);
+      lv.setUint16(4, 20, true); // version needed
+      lv.setUint16(6, 0x0800, true); // UTF-8 names
+      lv.setUint16(8, 0, true); // stored
+      lv.setUint16(10, time, true);
+      lv.setUint16(12, date, true);
+      lv.setUint32(14, crc, true);
+      lv.setUint32(18, data.size, true);
+      lv.setUint32(22, data.size, true);
+      lv.setUint16(26, nameBytes.length, true);
+      local.set(nameBytes, 30);
+
+      const entry = new Uint8Array(46 + nameBytes.length);
+      const cv = new DataView(entry.buffer);
+      cv.setUint32(0, 0x02014b50, true);
+      cv.setUint16(4, 20, true); // version made by
+      cv.setUint16(6, 20, true);
+      cv.setUint16(8, 0x0800, true);
+      cv.setUint16(10, 0, true);
+      cv.setUint16(12, time, true);
+      cv.setUint16(14, date, true);
+      cv.setUint32(16, crc, true);
+      cv.setUint32(20, data.size, true);
+      cv.setUint32(24, data.size, true);
+      cv.setUint16(28, nameBytes.length, true);
+      cv.setUint32(42, offset, true);
+      entry.set(nameBytes, 46);
+
+      parts.push(local, data);
+      central.push(entry);
+      offset += local.length + data.size;
+      count++;
+    },
+
+    finish() {
+      if (count > 0xffff) throw new Error('A zip holds at most 65535 files');
+      const size = central.reduce((sum, entry) => sum + entry.length, 0);
+      const end = new Uint8Array(22);
+      const ev = new DataView(end.buffer);
+      ev.setUint32(0, 0x06054b50, true);
+      ev.setUint16(8, count, true);
+      ev.setUint16(10, count, true);
+      ev.setUint32(12, size, true);
+      ev.setUint32(16, offset, true);
+      return new Blob([...parts, ...central, end], { type: 'application/zip' });
+    },
+  };
+};
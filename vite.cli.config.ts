@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Builds the command-line weaver (cli/index.ts) into a single Node script.
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    target: 'node20',
+    outDir: 'dist-cli',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'mosaic-weaver.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});